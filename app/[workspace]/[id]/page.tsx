@@ -0,0 +1,187 @@
+"use client";
+import React, { useCallback, useEffect, useState } from "react";
+import { Card, Descriptions, Empty, Message, Space, Spin, Tag, Timeline, Typography } from "@arco-design/web-react";
+import dayjs from "dayjs";
+import Link from "next/link";
+import { DeployApiError } from "@/lib/client";
+import type { DeployDetail, DeployRecord } from "@/lib/types";
+import { ArtifactList, RollbackTag, ViolationTags, formatDuration, statusTag, versionTag } from "../components";
+import { EnvironmentTag, ProjectTag, useProjectRegistry } from "../registry";
+import { useApi, useWorkspace } from "../workspace";
+
+const TIME_FORMAT = "YYYY-MM-DD HH:mm:ss";
+
+function shortRevision(revision: string): string {
+  return revision.slice(0, 8);
+}
+
+// 提交范围：上一次成功部署 → 本次；有仓库链接模板时给出对比页链接
+function CommitRange({ detail }: { detail: DeployDetail }) {
+  const { data, previous, compareUrl } = detail;
+  if (!previous) return <Typography.Text type="secondary">这是该项目在此环境的首次成功部署（保留期内）</Typography.Text>;
+  if (!previous.revision || !data.revision) {
+    return <Typography.Text type="secondary">缺少提交 SHA，无法给出提交范围：{previous.commit} → {data.commit}</Typography.Text>;
+  }
+  if (previous.revision === data.revision) return <Typography.Text type="secondary">与上次部署是同一个提交（重新部署）</Typography.Text>;
+  const range = `${shortRevision(previous.revision)}...${shortRevision(data.revision)}`;
+  return (
+    <Space size={8}>
+      {compareUrl ? (
+        <a href={compareUrl} target="_blank" rel="noreferrer">
+          <Typography.Text code>{range}</Typography.Text>
+        </a>
+      ) : (
+        <Typography.Text code copyable={{ text: `${previous.revision}...${data.revision}` }}>
+          {range}
+        </Typography.Text>
+      )}
+      {compareUrl ? null : <Typography.Text type="secondary">（该项目未配置仓库链接模板）</Typography.Text>}
+    </Space>
+  );
+}
+
+function PreviousCard({ previous, workspace }: { previous: DeployRecord; workspace: string }) {
+  return (
+    <Card size="small" title="上一次成功部署" extra={<Link href={`/${workspace}/${previous.id}`}>查看</Link>}>
+      <Space direction="vertical" size={4}>
+        <Space size={8}>
+          <Tag bordered>{previous.branch}分支</Tag>
+          {versionTag(previous.version)}
+          {previous.revision ? <Typography.Text code>{shortRevision(previous.revision)}</Typography.Text> : null}
+          <Typography.Text type="secondary">
+            {previous.operator} · {dayjs(previous.deployedAt).format(TIME_FORMAT)}
+          </Typography.Text>
+        </Space>
+        <Typography.Text>{previous.commit}</Typography.Text>
+      </Space>
+    </Card>
+  );
+}
+
+export default function DeployDetailPage({ params }: { params: { id: string } }) {
+  const workspace = useWorkspace();
+  const api = useApi();
+  const [detail, setDetail] = useState<DeployDetail | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [notFound, setNotFound] = useState<boolean>(false);
+  const [href, setHref] = useState<string>("");
+  const registry = useProjectRegistry();
+
+  const load = useCallback(async () => {
+    try {
+      setDetail(await api.getDeploy(params.id));
+    } catch (e) {
+      if (e instanceof DeployApiError && e.status === 404) setNotFound(true);
+      else Message.error((e as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, [api, params.id]);
+
+  useEffect(() => {
+    load();
+    setHref(window.location.href);
+  }, [load]);
+
+  const record = detail?.data;
+  const history = record?.history ?? (record ? [{ status: record.status, at: record.deployedAt, note: record.note }] : []);
+
+  return (
+    <div style={{ maxWidth: 960, margin: "0 auto", padding: 24 }}>
+      <Space direction="vertical" size={16} style={{ width: "100%" }}>
+        <div>
+          <Typography.Title heading={3} style={{ marginBottom: 0 }}>
+            {record ? record.title : "部署详情"}
+          </Typography.Title>
+          <Space size={16} style={{ marginTop: 4 }}>
+            <Link href={`/${workspace}`}>部署记录</Link>
+            <Link href={`/${workspace}/matrix`}>环境矩阵</Link>
+            {href ? (
+              <Typography.Text type="secondary" copyable={{ text: href }}>
+                复制本页链接
+              </Typography.Text>
+            ) : null}
+          </Space>
+        </div>
+        {loading ? (
+          <Spin style={{ width: "100%" }} />
+        ) : notFound || !detail || !record ? (
+          <Empty description={notFound ? "记录不存在或已超出保留期" : "加载失败"} />
+        ) : (
+          <>
+            <Descriptions
+              column={2}
+              border
+              data={[
+                {
+                  label: "项目",
+                  value: <ProjectTag name={record.projectName} environment={record.environment} registry={registry} />,
+                },
+                {
+                  label: "环境",
+                  value: <EnvironmentTag name={record.projectName} environment={record.environment} registry={registry} />,
+                },
+                {
+                  label: "状态",
+                  value: (
+                    <Space size={4}>
+                      {statusTag(record.status)}
+                      <RollbackTag record={record} workspace={workspace} />
+                      <ViolationTags record={record} />
+                    </Space>
+                  ),
+                },
+                { label: "分支", value: record.branch },
+                { label: "运行人", value: record.operator },
+                { label: "部署时间", value: dayjs(record.deployedAt).format(TIME_FORMAT) },
+                { label: "结束时间", value: record.finishedAt ? dayjs(record.finishedAt).format(TIME_FORMAT) : "—" },
+                { label: "耗时", value: record.durationMs != null ? formatDuration(record.durationMs) : "—" },
+                { label: "版本", value: versionTag(record.version) ?? "—", span: record.rollbackOf ? 1 : 2 },
+                ...(record.rollbackOf
+                  ? [{ label: "被回滚的部署", value: <Link href={`/${workspace}/${record.rollbackOf}`}>{record.rollbackOf}</Link> }]
+                  : []),
+                { label: "代码提交记录", value: record.commit, span: 2 },
+                {
+                  label: "提交 SHA",
+                  value: record.revision ? (
+                    detail.commitUrl ? (
+                      <a href={detail.commitUrl} target="_blank" rel="noreferrer">
+                        {record.revision}
+                      </a>
+                    ) : (
+                      <Typography.Text copyable>{record.revision}</Typography.Text>
+                    )
+                  ) : (
+                    "—"
+                  ),
+                  span: 2,
+                },
+                { label: "提交范围", value: <CommitRange detail={detail} />, span: 2 },
+                { label: "备注", value: record.note ? <span style={{ whiteSpace: "pre-wrap" }}>{record.note}</span> : "—", span: 2 },
+                ...(record.externalId ? [{ label: "外部 id", value: record.externalId, span: 2 }] : []),
+              ]}
+            />
+            {record.artifacts && record.artifacts.length > 0 ? (
+              <Card size="small" title="构建产物">
+                <ArtifactList artifacts={record.artifacts} />
+              </Card>
+            ) : null}
+            <Card size="small" title="状态变更">
+              <Timeline>
+                {history.map((change, i) => (
+                  <Timeline.Item key={`${change.at}-${i}`} label={dayjs(change.at).format(TIME_FORMAT)}>
+                    <Space size={8}>
+                      {statusTag(change.status)}
+                      {change.note ? <Typography.Text type="secondary">{change.note}</Typography.Text> : null}
+                    </Space>
+                  </Timeline.Item>
+                ))}
+              </Timeline>
+            </Card>
+            {detail.previous ? <PreviousCard previous={detail.previous} workspace={workspace} /> : null}
+          </>
+        )}
+      </Space>
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+"use client";
+import React, { useCallback, useEffect, useState } from "react";
+import { Alert, Space } from "@arco-design/web-react";
+import dayjs from "dayjs";
+import { matchAny } from "@/lib/pattern";
+import type { EnvironmentLock, FreezeWindow } from "@/lib/types";
+import { useApi } from "./workspace";
+
+const REFRESH_MS = 60_000;
+const UPCOMING_MS = 24 * 60 * 60 * 1000; // 提前一天提示即将开始的封版
+
+function formatTime(iso: string): string {
+  return dayjs(iso).format("MM-DD HH:mm");
+}
+
+function patternsText(patterns: string[]): string {
+  return patterns.includes("*") ? "全部" : patterns.join("、");
+}
+
+// 列表页顶部的封版与环境锁横幅；projects 为当前筛选的项目，空数组表示全部
+export function GuardBanners({ projects }: { projects: string[] }) {
+  const api = useApi();
+  const [freezes, setFreezes] = useState<FreezeWindow[]>([]);
+  const [locks, setLocks] = useState<EnvironmentLock[]>([]);
+  const [now, setNow] = useState<number>(() => Date.now());
+
+  const load = useCallback(async () => {
+    try {
+      const [nextFreezes, nextLocks] = await Promise.all([api.freezeWindows(true), api.environmentLocks()]);
+      setFreezes(nextFreezes);
+      setLocks(nextLocks);
+      setNow(Date.now());
+    } catch {
+      // 横幅只是提示，加载失败不打扰
+    }
+  }, [api]);
+
+  useEffect(() => {
+    load();
+    const timer = setInterval(load, REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [load]);
+
+  const visibleFreezes = freezes.filter(
+    (w) =>
+      new Date(w.from).getTime() - now < UPCOMING_MS &&
+      new Date(w.to).getTime() > now &&
+      (projects.length === 0 || projects.some((p) => matchAny(w.projects, p))),
+  );
+  const visibleLocks = locks.filter(
+    (l) => new Date(l.expiresAt).getTime() > now && (projects.length === 0 || projects.includes(l.projectName)),
+  );
+  if (visibleFreezes.length === 0 && visibleLocks.length === 0) return null;
+
+  return (
+    <Space direction="vertical" size={8} style={{ width: "100%" }}>
+      {visibleFreezes.map((w) => {
+        const started = new Date(w.from).getTime() <= now;
+        return (
+          <Alert
+            key={w.id}
+            type={started ? "warning" : "info"}
+            title={started ? `封版中：${w.reason}` : `即将封版：${w.reason}`}
+            content={`项目 ${patternsText(w.projects)} · 环境 ${patternsText(w.environments)} · ${formatTime(w.from)} ~ ${formatTime(w.to)}`}
+          />
+        );
+      })}
+      {visibleLocks.map((l) => (
+        <Alert
+          key={l.id}
+          type="info"
+          title={`${l.projectName} · ${l.environment} 被 ${l.holder} 占用`}
+          content={`${l.reason ? `${l.reason} · ` : ""}至 ${formatTime(l.expiresAt)}`}
+        />
+      ))}
+    </Space>
+  );
+}
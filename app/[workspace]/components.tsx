@@ -0,0 +1,109 @@
+"use client";
+import React, { useMemo } from "react";
+import { Space, Tag, Tooltip, Typography } from "@arco-design/web-react";
+import dayjs from "dayjs";
+import Link from "next/link";
+import { ARTIFACT_LABELS } from "@/lib/artifacts";
+import { createQrMatrix, qrSvgPath } from "@/lib/qrcode";
+import type { DeployArtifact, DeployRecord } from "@/lib/types";
+
+// 列表页与详情页共用的展示组件
+
+export function formatDuration(ms: number): string {
+  const total = Math.round(ms / 1000);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  if (h > 0) return `${h}小时${m}分`;
+  if (m > 0) return `${m}分${s}秒`;
+  return `${s}秒`;
+}
+
+export function statusTag(status: DeployRecord["status"]) {
+  const color = status === "success" ? "green" : status === "failed" ? "red" : status === "running" ? "arcoblue" : "gray";
+  return <Tag color={color}>{status}</Tag>;
+}
+
+// 回滚记录的标记，链接到被回滚的那次部署
+export function RollbackTag({ record, workspace }: { record: DeployRecord; workspace: string }) {
+  if (!record.rollbackOf) return null;
+  return (
+    <Link href={`/${workspace}/${record.rollbackOf}`} title="查看被回滚的部署">
+      <Tag color="orangered">回滚</Tag>
+    </Link>
+  );
+}
+
+// 新建时命中封版或他人环境锁的标记
+export function ViolationTags({ record }: { record: DeployRecord }) {
+  if (!record.violations || record.violations.length === 0) return null;
+  return (
+    <>
+      {record.violations.map((v) =>
+        v.type === "freeze" ? (
+          <Tooltip key={v.id} content={`封版：${v.reason}（至 ${dayjs(v.to).format("MM-DD HH:mm")}）`}>
+            <Tag color="red">违反封版</Tag>
+          </Tooltip>
+        ) : (
+          <Tooltip key={v.id} content={`环境被 ${v.holder} 占用${v.reason ? `：${v.reason}` : ""}`}>
+            <Tag color="orange">环境被占用</Tag>
+          </Tooltip>
+        ),
+      )}
+    </>
+  );
+}
+
+export function versionTag(version: string | undefined) {
+  return version ? <Tag color="purple" bordered>{version}</Tag> : null;
+}
+
+// 在浏览器内生成二维码，不请求任何外部服务
+export function QrCode({ text, size = 120 }: { text: string; size?: number }) {
+  const qr = useMemo(() => {
+    try {
+      return qrSvgPath(createQrMatrix(text));
+    } catch {
+      return null;
+    }
+  }, [text]);
+  if (!qr) return null;
+  return (
+    <svg width={size} height={size} viewBox={`0 0 ${qr.size} ${qr.size}`} shapeRendering="crispEdges" role="img" aria-label="二维码">
+      <rect width={qr.size} height={qr.size} fill="#fff" />
+      <path d={qr.path} fill="#000" />
+    </svg>
+  );
+}
+
+// 构建产物：下载类展示链接与二维码，镜像只展示引用；每项都可复制
+export function ArtifactList({ artifacts }: { artifacts: DeployArtifact[] }) {
+  return (
+    <Space wrap size={16} align="start">
+      {artifacts.map((artifact) => (
+        <div key={`${artifact.type}:${artifact.value}`} style={{ display: "flex", flexDirection: "column", gap: 4, maxWidth: 320 }}>
+          <Space size={4}>
+            <Tag size="small" color={artifact.type === "docker" ? "purple" : "cyan"}>
+              {ARTIFACT_LABELS[artifact.type]}
+            </Tag>
+            <Typography.Text bold>{artifact.label}</Typography.Text>
+          </Space>
+          {artifact.type === "docker" ? (
+            <Typography.Text code copyable={{ text: artifact.value }} style={{ wordBreak: "break-all" }}>
+              {artifact.value}
+            </Typography.Text>
+          ) : (
+            <>
+              <QrCode text={artifact.value} />
+              <Typography.Text copyable={{ text: artifact.value }} ellipsis={{ showTooltip: true }} style={{ maxWidth: 320 }}>
+                <a href={artifact.value} target="_blank" rel="noreferrer">
+                  {artifact.value}
+                </a>
+              </Typography.Text>
+            </>
+          )}
+        </div>
+      ))}
+    </Space>
+  );
+}
@@ -0,0 +1,11 @@
+import { notFound } from "next/navigation";
+import React from "react";
+import { workspaceExists } from "@/lib/workspaces";
+
+export const dynamic = "force-dynamic";
+
+// 未登记的工作区直接 404，页面内的接口请求也会因工作区不存在而失败
+export default async function WorkspaceLayout({ children, params }: { children: React.ReactNode; params: { workspace: string } }) {
+  if (!(await workspaceExists(params.workspace))) notFound();
+  return <>{children}</>;
+}
@@ -0,0 +1,119 @@
+"use client";
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { Button, Message, Space, Spin, Table, Tag, Tooltip, Typography } from "@arco-design/web-react";
+import dayjs from "dayjs";
+import Link from "next/link";
+import type { DeployRecord } from "@/lib/types";
+import { RollbackTag, versionTag } from "../components";
+import { ProjectTag, isProduction, useProjectRegistry } from "../registry";
+import { useApi, useWorkspace } from "../workspace";
+
+const REFRESH_MS = 30_000;
+
+interface MatrixRow {
+  projectName: string;
+  cells: Record<string, DeployRecord>;
+}
+
+function renderCell(workspace: string, record: DeployRecord | undefined) {
+  if (!record) return <Typography.Text type="secondary">—</Typography.Text>;
+  return (
+    <Space direction="vertical" size={2}>
+      <Space size={4}>
+        <Tag bordered>{record.branch}分支</Tag>
+        {versionTag(record.version)}
+        <RollbackTag record={record} workspace={workspace} />
+      </Space>
+      <Tooltip content={record.commit}>
+        <Typography.Text style={{ maxWidth: 220 }} ellipsis>
+          {record.commit}
+        </Typography.Text>
+      </Tooltip>
+      <Link href={`/${workspace}/${record.id}`}>
+        <Typography.Text type="secondary">
+          {record.operator} · {dayjs(record.deployedAt).format("MM-DD HH:mm")}
+        </Typography.Text>
+      </Link>
+    </Space>
+  );
+}
+
+export default function MatrixPage() {
+  const workspace = useWorkspace();
+  const api = useApi();
+  const [data, setData] = useState<DeployRecord[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const registry = useProjectRegistry();
+
+  const load = useCallback(async () => {
+    try {
+      setData(await api.currentDeployments());
+    } catch (e) {
+      Message.error((e as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, [api]);
+
+  useEffect(() => {
+    load();
+    const timer = window.setInterval(load, REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [load]);
+
+  const environments = useMemo(() => Array.from(new Set(data.map((r) => r.environment))).sort(), [data]);
+
+  const rows = useMemo(() => {
+    const byProject = new Map<string, MatrixRow>();
+    for (const record of data) {
+      const row = byProject.get(record.projectName) ?? { projectName: record.projectName, cells: {} };
+      row.cells[record.environment] = record;
+      byProject.set(record.projectName, row);
+    }
+    return Array.from(byProject.values());
+  }, [data]);
+
+  const columns = useMemo(
+    () => [
+      {
+        title: "项目",
+        dataIndex: "projectName",
+        fixed: "left" as const,
+        width: 160,
+        render: (name: string) => <ProjectTag name={name} registry={registry} />,
+      },
+      ...environments.map((env) => ({
+        // 任一已登记项目把该环境标为生产时，表头标红
+        title: Array.from(registry.values()).some((p) => isProduction(p, env)) ? <Tag color="red">{env}</Tag> : env,
+        dataIndex: `cells.${env}`,
+        render: (_: unknown, row: MatrixRow) => renderCell(workspace, row.cells[env]),
+      })),
+    ],
+    [workspace, environments, registry],
+  );
+
+  return (
+    <div style={{ maxWidth: 1200, margin: "0 auto", padding: 24 }}>
+      <Space direction="vertical" size={16} style={{ width: "100%" }}>
+        <div>
+          <Typography.Title heading={3} style={{ marginBottom: 0 }}>
+            环境矩阵
+          </Typography.Title>
+          <Space size={16} style={{ marginTop: 4 }}>
+            <Link href={`/${workspace}`}>部署记录</Link>
+            <Link href={`/${workspace}/stats`}>部署统计</Link>
+            <Typography.Text type="secondary">每个环境最近一次成功的部署</Typography.Text>
+            <Button size="mini" onClick={load}>
+              刷新
+            </Button>
+          </Space>
+        </div>
+        {loading ? (
+          <Spin style={{ width: "100%" }} />
+        ) : (
+          <Table rowKey="projectName" columns={columns} data={rows} pagination={false} border scroll={{ x: true }} />
+        )}
+      </Space>
+    </div>
+  );
+}
@@ -0,0 +1,431 @@
+"use client";
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { Select, List, Typography, Tag, Space, Divider, Spin, Message, Progress, Tooltip, Button, Input } from "@arco-design/web-react";
+import dayjs from "dayjs";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { readToken } from "@/lib/browser";
+import type { DeployRecord, DeploySearchResult } from "@/lib/types";
+import { GuardBanners } from "./banners";
+import { ArtifactList, RollbackTag, ViolationTags, formatDuration, statusTag, versionTag } from "./components";
+import { EnvironmentTag, ProjectTag, useProjectRegistry } from "./registry";
+import { UnreadBar, isUnread, useUnread } from "./unread";
+import { WorkspaceSwitcher, useApi, useWorkspace } from "./workspace";
+
+const POLL_MS = 5000; // 实时推送不可用时的轮询间隔
+const MAX_STREAM_FAILURES = 5; // 连续重连失败多少次后退回轮询
+const MAX_SHOW = 100; // 每页条数
+const DEFAULT_FAVICON_PNG = "/images/favicon.png";
+const DEFAULT_FAVICON_ICO = "/images/favicon.ico";
+const NEW_MESSAGE_FAVICON_PNG = "/images/favicon-new-message.png";
+const NEW_MESSAGE_FAVICON_ICO = "/images/favicon-new-message.ico";
+const OFFLINE_FAVICON_PNG = "/images/favicon-off-line.png";
+const OFFLINE_FAVICON_ICO = "/images/favicon-off-line.ico";
+const FAVICONS = {
+  default: { png: DEFAULT_FAVICON_PNG, ico: DEFAULT_FAVICON_ICO },
+  unread: { png: NEW_MESSAGE_FAVICON_PNG, ico: NEW_MESSAGE_FAVICON_ICO },
+  offline: { png: OFFLINE_FAVICON_PNG, ico: OFFLINE_FAVICON_ICO },
+};
+
+type SegValue = string[]; // 多选的项目名数组，空数组表示全部
+
+function buildStreamUrl(workspace: string, seg: SegValue, lastEventId: string | null): string {
+  const params = new URLSearchParams();
+  const token = readToken();
+  if (token) params.set("token", token); // EventSource 无法设置请求头
+  for (const s of seg) params.append("projectName", s);
+  if (lastEventId) params.set("lastEventId", lastEventId);
+  const q = params.toString();
+  const path = `/api/${encodeURIComponent(workspace)}/deploy/stream`;
+  return q ? `${path}?${q}` : path;
+}
+
+// 把 text 中与 words 匹配（不区分大小写）的片段包上 <mark>
+function highlightText(text: string, words: string[]): React.ReactNode {
+  const needles = words.map((w) => w.trim()).filter(Boolean).sort((a, b) => b.length - a.length);
+  if (!text || needles.length === 0) return text;
+  const pattern = new RegExp(`(${needles.map((w) => w.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")).join("|")})`, "gi");
+  return text.split(pattern).map((part, i) => (i % 2 === 1 ? <mark key={i}>{part}</mark> : part));
+}
+
+// 点击条目打开详情；点在链接、按钮、复制图标上或正在选中文字时不跳转
+function isPlainClick(e: React.MouseEvent): boolean {
+  if (e.metaKey || e.ctrlKey || e.shiftKey || e.button !== 0) return false;
+  if ((e.target as HTMLElement).closest("a, button, input, .arco-typography-operation-copy")) return false;
+  return !window.getSelection()?.toString();
+}
+
+// 仅修改现有三条 link 的 href
+function setFavicons(kind: keyof typeof FAVICONS) {
+  if (typeof document === "undefined") return;
+  const { png, ico } = FAVICONS[kind];
+  const shortcut = document.querySelector('link[rel="shortcut icon"]') as HTMLLinkElement | null;
+  const pngLink = document.querySelector('link[rel="icon"][type="image/png"]') as HTMLLinkElement | null;
+  const icoLink = document.querySelector('link[rel="icon"][type="image/x-icon"]') as HTMLLinkElement | null;
+  if (shortcut) shortcut.href = ico;
+  if (pngLink) pngLink.href = png;
+  if (icoLink) icoLink.href = ico;
+}
+
+function sortByDeployedAt(list: DeployRecord[]): DeployRecord[] {
+  return [...list].sort((a, b) => (a.deployedAt < b.deployedAt ? 1 : -1));
+}
+
+export default function WorkspacePage() {
+  const router = useRouter();
+  const workspace = useWorkspace();
+  const api = useApi();
+  const [projects, setProjects] = useState<string[]>([]);
+  const [seg, setSeg] = useState<SegValue>([]);
+  const [list, setList] = useState<DeployRecord[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [polling, setPolling] = useState<boolean>(false);
+  const [transport, setTransport] = useState<"stream" | "poll" | "offline">("stream");
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState<boolean>(false);
+  const [keyword, setKeyword] = useState<string>("");
+  const [submitted, setSubmitted] = useState<string>(""); // 已提交的检索语句，空串表示不在检索
+  const [searchResult, setSearchResult] = useState<DeploySearchResult | null>(null);
+  const [searching, setSearching] = useState<boolean>(false);
+  const loadedMoreRef = useRef<boolean>(false); // 是否已通过“加载更多”追加了更早的记录
+  const notifiedIdRef = useRef<string | null | undefined>(undefined); // 已通知过的最新未读，undefined 表示尚未加载
+  const unread = useUnread(api);
+  const { summary, refresh: refreshUnread } = unread;
+
+  const registry = useProjectRegistry();
+  const selectOptions = useMemo(
+    () => projects.map((p) => ({ label: registry.get(p)?.displayName ? `${registry.get(p)?.displayName}（${p}）` : p, value: p })),
+    [projects, registry],
+  );
+  // 已加载的记录中被回滚过的部署
+  const revertedIds = useMemo(
+    () => new Set(list.flatMap((r) => (r.rollbackOf && r.status !== "canceled" ? [r.rollbackOf] : []))),
+    [list],
+  );
+
+  const query = useCallback(async (cursor?: string | null) => {
+    return api.listDeploys({ limit: MAX_SHOW, projectName: seg, cursor: cursor ?? undefined });
+  }, [api, seg]);
+
+  const refreshProjects = useCallback(async () => {
+    try {
+      setProjects(await api.projects());
+    } catch {
+      // ignore
+    }
+  }, [api]);
+
+  const notifyNew = useCallback(async (record: DeployRecord) => {
+    if ("Notification" in window) {
+      if (Notification.permission === "granted") {
+        new Notification(record.projectName, { body: `${record.commit}` });
+      } else if (Notification.permission !== "denied") {
+        await Notification.requestPermission();
+      }
+    }
+  }, []);
+
+  // 实时推送来的单条记录：合并进列表；是否通知由服务端的未读状态决定
+  const handleIncoming = useCallback((record: DeployRecord) => {
+    setList((prev) => sortByDeployedAt([record, ...prev.filter((x) => x.id !== record.id)]));
+  }, []);
+
+  // 已有记录的状态变更：原地替换，不新增条目也不通知
+  const handleUpdate = useCallback((record: DeployRecord) => {
+    setList((prev) => prev.map((x) => (x.id === record.id ? record : x)));
+  }, []);
+
+  // 拉取一次完整列表，返回最新一条记录的 id（用于实时推送的断点续传）
+  const poll = useCallback(async (): Promise<string | null> => {
+    try {
+      setPolling(true);
+      const page = await query();
+      const data = page.data;
+      if (loadedMoreRef.current) {
+        // 已加载过更早的记录：只替换第一页覆盖的部分，保留其后追加的内容
+        const tail = data[data.length - 1];
+        setList((prev) => sortByDeployedAt([...data, ...prev.filter((x) => tail && x.deployedAt < tail.deployedAt)]));
+      } else {
+        setList(data);
+        setNextCursor(page.nextCursor);
+      }
+      return data[0]?.id ?? null;
+    } catch (e) {
+      Message.error((e as Error).message);
+      return null;
+    } finally {
+      setLoading(false);
+      setTimeout(() => {
+        setPolling(false);
+      }, 200);
+    }
+  }, [query]);
+
+  const runSearch = useCallback(async (q: string) => {
+    if (!q) {
+      setSearchResult(null);
+      return;
+    }
+    try {
+      setSearching(true);
+      setSearchResult(await api.search({ q, projectName: seg, limit: MAX_SHOW }));
+    } catch (e) {
+      Message.error((e as Error).message);
+    } finally {
+      setSearching(false);
+    }
+  }, [api, seg]);
+
+  // 提交检索或变更项目筛选时重新检索
+  useEffect(() => {
+    runSearch(submitted);
+  }, [runSearch, submitted]);
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor) return;
+    try {
+      setLoadingMore(true);
+      const page = await query(nextCursor);
+      loadedMoreRef.current = true;
+      setList((prev) => {
+        const known = new Set(prev.map((x) => x.id));
+        return [...prev, ...page.data.filter((x) => !known.has(x.id))];
+      });
+      setNextCursor(page.nextCursor);
+    } catch (e) {
+      Message.error((e as Error).message);
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [query, nextCursor]);
+
+  useEffect(() => {
+    // 初次加载项目列表
+    refreshProjects()
+      .catch(() => setProjects([]));
+  }, [refreshProjects]);
+
+  // 列表最前面出现新记录时重新拉取未读数
+  const latestId = list[0]?.id;
+  useEffect(() => {
+    refreshUnread();
+  }, [latestId, refreshUnread]);
+
+  // 最新的未读记录变了才通知：首次加载、切换筛选都不会误报，换浏览器也不会重复提醒
+  useEffect(() => {
+    if (!summary) return;
+    const latest = summary.latest;
+    if (latest && notifiedIdRef.current !== undefined && latest.id !== notifiedIdRef.current) notifyNew(latest);
+    notifiedIdRef.current = latest?.id ?? null;
+  }, [summary, notifyNew]);
+
+  // 图标角标：断线优先，其次是服务端统计的未读数
+  useEffect(() => {
+    setFavicons(transport === "offline" ? "offline" : summary && summary.total > 0 ? "unread" : "default");
+  }, [transport, summary]);
+
+  // 先拉取一次列表，再订阅实时推送；浏览器不支持或多次重连失败时退回轮询
+  useEffect(() => {
+    let cancelled = false;
+    let source: EventSource | null = null;
+    let pollTimer: number | null = null;
+
+    const startPolling = () => {
+      setTransport("poll");
+      pollTimer = window.setInterval(() => {
+        poll();
+      }, POLL_MS);
+    };
+
+    setLoading(true);
+    loadedMoreRef.current = false;
+    poll().then((latestId) => {
+      if (cancelled) return;
+      if (typeof EventSource === "undefined") {
+        startPolling();
+        return;
+      }
+      let failures = 0;
+      const es = new EventSource(buildStreamUrl(workspace, seg, latestId));
+      source = es;
+      es.onopen = () => {
+        failures = 0;
+        setTransport("stream");
+      };
+      es.addEventListener("deploy", (ev) => {
+        try {
+          handleIncoming(JSON.parse((ev as MessageEvent<string>).data) as DeployRecord);
+        } catch {
+          // ignore
+        }
+      });
+      es.addEventListener("update", (ev) => {
+        try {
+          handleUpdate(JSON.parse((ev as MessageEvent<string>).data) as DeployRecord);
+        } catch {
+          // ignore
+        }
+      });
+      es.onerror = () => {
+        failures += 1;
+        setTransport("offline");
+        if (es.readyState === EventSource.CLOSED || failures >= MAX_STREAM_FAILURES) {
+          es.close();
+          source = null;
+          startPolling();
+        }
+      };
+    });
+
+    return () => {
+      cancelled = true;
+      if (source) source.close();
+      if (pollTimer !== null) clearInterval(pollTimer);
+    };
+  }, [poll, workspace, seg, handleIncoming, handleUpdate]);
+
+  return (
+    <div style={{ maxWidth: 960, margin: "0 auto", padding: 24 }}>
+      <Space direction="vertical" size={16} style={{ width: "100%" }}>
+        <div>
+          <Typography.Title heading={3} style={{ marginBottom: 0 }}>
+            流水线部署信息
+            <span style={{ marginLeft: 12, verticalAlign: "middle", display: "inline-flex", alignItems: "center", gap: 8 }}>
+              {transport === "stream" ? (
+                <Tooltip content="新记录会实时推送">
+                  <Tag color="green" size="small">实时</Tag>
+                </Tooltip>
+              ) : transport === "poll" ? (
+                <Tooltip content={`实时推送不可用，每 ${POLL_MS / 1000} 秒轮询一次`}>
+                  <Tag color="orange" size="small">轮询</Tag>
+                </Tooltip>
+              ) : (
+                <Tag color="red" size="small">重连中</Tag>
+              )}
+            </span>
+          </Typography.Title>
+          <Space size={16} style={{ marginTop: 4 }}>
+            <Link href={`/${workspace}/matrix`}>环境矩阵</Link>
+            <Link href={`/${workspace}/stats`}>部署统计</Link>
+            <WorkspaceSwitcher />
+          </Space>
+        </div>
+        <GuardBanners projects={seg} />
+        <Select
+          mode="multiple"
+          allowClear
+          placeholder="筛选项目"
+          value={seg}
+          onChange={setSeg}
+          onVisibleChange={(visible: boolean) => {
+            if (visible) {
+              refreshProjects();
+            }
+          }}
+          style={{ width: "100%" }}
+          options={selectOptions}
+        />
+        <UnreadBar unread={unread} options={selectOptions} onPick={(projectName) => setSeg([projectName])} />
+        <Input.Search
+          allowClear
+          searchButton
+          loading={searching}
+          placeholder='检索提交记录、备注、运行人、分支，如 operator:张三 branch:release/* status:failed "payment timeout"'
+          value={keyword}
+          onChange={setKeyword}
+          onSearch={(value) => setSubmitted(value.trim())}
+          onClear={() => setSubmitted("")}
+        />
+        {loading ? (
+          <Spin style={{ width: "100%" }} />
+        ) : (
+          <List
+            bordered
+            size="small"
+            dataSource={searchResult ? searchResult.data : list}
+            render={(item) => {
+              const highlights = searchResult?.highlights ?? [];
+              const isFresh = dayjs().diff(dayjs(item.deployedAt), "minute") < 1;
+              return (
+                <List.Item
+                  key={item.id}
+                  onClick={(e) => {
+                    if (isPlainClick(e)) router.push(`/${workspace}/${item.id}`);
+                  }}
+                  style={{
+                    display: "flex",
+                    flexDirection: "column",
+                    alignItems: "flex-start",
+                    background: isFresh ? "rgba(82,196,26,0.08)" : "#fafafa",
+                    cursor: "pointer",
+                  }}
+                >
+                  <div style={{ width: "100%", display: "flex", flexDirection: "row", gap: 8, alignItems: "center" }}>
+                    <ProjectTag name={item.projectName} environment={item.environment} registry={registry} />
+                    <EnvironmentTag name={item.projectName} environment={item.environment} registry={registry} />
+                    <Tag bordered>{item.branch}分支</Tag>
+                    {versionTag(item.version)}
+                    {statusTag(item.status)}
+                    <RollbackTag record={item} workspace={workspace} />
+                    {revertedIds.has(item.id) ? <Tag color="gray">已回滚</Tag> : null}
+                    {isUnread(unread.state, item) ? <Tag color="red">未读</Tag> : null}
+                    <ViolationTags record={item} />
+                    <Link href={`/${workspace}/${item.id}`}>
+                      <Typography.Text bold>{dayjs(item.deployedAt).format("YYYY-MM-DD HH:mm:ss")}</Typography.Text>
+                    </Link>
+                    {item.durationMs != null ? (
+                      <Typography.Text type="secondary">耗时 {formatDuration(item.durationMs)}</Typography.Text>
+                    ) : null}
+                  </div>
+                  <div style={{ marginTop: 8, opacity: isFresh ? 1 : 0.7 }}>
+                    <Typography.Text type="secondary">运行人：</Typography.Text>
+                    <Typography.Text>{item.operator}</Typography.Text>
+                  </div>
+                  <div style={{ marginTop: 4, opacity: isFresh ? 1 : 0.7 }}>
+                    <Typography.Text type="secondary">代码提交记录：</Typography.Text>
+                    <Typography.Paragraph style={{ display: "inline", marginBottom: 0 }}>{highlightText(item.commit, highlights)}</Typography.Paragraph>
+                  </div>
+                  {item.note ? (
+                    <div style={{ marginTop: 4, opacity: isFresh ? 1 : 0.7 }}>
+                      <Typography.Text type="secondary">备注：</Typography.Text>
+                      <Typography.Paragraph style={{ display: "inline", marginBottom: 0 }}>{highlightText(item.note, highlights)}</Typography.Paragraph>
+                    </div>
+                  ) : null}
+                  {item.artifacts && item.artifacts.length > 0 ? (
+                    <div style={{ marginTop: 8, opacity: isFresh ? 1 : 0.7 }}>
+                      <ArtifactList artifacts={item.artifacts} />
+                    </div>
+                  ) : null}
+                </List.Item>
+              );
+            }}
+            pagination={false}
+            footer={
+              searchResult ? (
+                <div style={{ textAlign: "center" }}>
+                  <Typography.Text type="secondary">
+                    共找到 {searchResult.total} 条
+                    {searchResult.total > searchResult.data.length ? `，显示最近 ${searchResult.data.length} 条` : ""}
+                    {searchResult.capped ? "（匹配的记录过多，只检索了最近的一部分，可加条件缩小范围）" : ""}
+                  </Typography.Text>
+                </div>
+              ) : nextCursor ? (
+                <div style={{ textAlign: "center" }}>
+                  <Button type="text" loading={loadingMore} onClick={loadMore}>
+                    加载更多
+                  </Button>
+                </div>
+              ) : list.length > 0 ? (
+                <div style={{ textAlign: "center" }}>
+                  <Typography.Text type="secondary">没有更多了</Typography.Text>
+                </div>
+              ) : null
+            }
+          />
+        )}
+      </Space>
+    </div>
+  );
+}
+
+
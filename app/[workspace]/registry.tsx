@@ -0,0 +1,57 @@
+"use client";
+import React, { useEffect, useState } from "react";
+import { Tag, Tooltip } from "@arco-design/web-react";
+import type { ProjectInfo } from "@/lib/types";
+import { useApi } from "./workspace";
+
+export type ProjectRegistry = Map<string, ProjectInfo>;
+
+// 项目登记信息，按项目名索引；加载失败时为空，页面按未登记处理
+export function useProjectRegistry(): ProjectRegistry {
+  const api = useApi();
+  const [registry, setRegistry] = useState<ProjectRegistry>(new Map());
+  useEffect(() => {
+    api
+      .projectRegistry()
+      .then((projects) => setRegistry(new Map(projects.map((p) => [p.name, p]))))
+      .catch(() => {
+        // ignore
+      });
+  }, [api]);
+  return registry;
+}
+
+export function isProduction(project: ProjectInfo | undefined, environment: string): boolean {
+  return Boolean(project?.environments.find((e) => e.name === environment)?.production);
+}
+
+// 项目标签：显示登记的显示名，有仓库地址时链接过去；生产环境的记录标红
+export function ProjectTag({ name, environment, registry }: { name: string; environment?: string; registry: ProjectRegistry }) {
+  const project = registry.get(name);
+  const production = environment !== undefined && isProduction(project, environment);
+  const tag = (
+    <Tag color={production ? "red" : project ? "arcoblue" : undefined} bordered>
+      {project?.displayName ?? name}
+    </Tag>
+  );
+  const content = [project?.displayName ? name : "", project && project.owners.length > 0 ? `负责人：${project.owners.join("、")}` : ""]
+    .filter(Boolean)
+    .join(" · ");
+  const linked = project?.repoUrl ? (
+    <a href={project.repoUrl} target="_blank" rel="noreferrer">
+      {tag}
+    </a>
+  ) : (
+    tag
+  );
+  return content ? <Tooltip content={content}>{linked}</Tooltip> : linked;
+}
+
+export function EnvironmentTag({ name, environment, registry }: { name: string; environment: string; registry: ProjectRegistry }) {
+  const production = isProduction(registry.get(name), environment);
+  return (
+    <Tag color={production ? "red" : undefined} bordered>
+      {production ? "生产" : "环境"} {environment}
+    </Tag>
+  );
+}
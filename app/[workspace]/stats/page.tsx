@@ -0,0 +1,182 @@
+"use client";
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { Card, Grid, Message, Radio, Select, Space, Spin, Statistic, Table, Tag, Typography } from "@arco-design/web-react";
+import Link from "next/link";
+import type { DailyDeployCount, DeployStats, DeployStatsGroup } from "@/lib/types";
+import { useApi, useWorkspace } from "../workspace";
+
+const WINDOWS = [7, 14, 30];
+const CHART_HEIGHT = 160;
+
+function formatRate(rate: number | null): string {
+  return rate === null ? "—" : `${(rate * 100).toFixed(1)}%`;
+}
+
+function formatRecovery(ms: number | null): string {
+  if (ms === null) return "—";
+  const minutes = Math.round(ms / 60_000);
+  if (minutes < 60) return `${minutes}分钟`;
+  const hours = minutes / 60;
+  if (hours < 48) return `${hours.toFixed(1)}小时`;
+  return `${(hours / 24).toFixed(1)}天`;
+}
+
+// 每日部署量柱状图：灰色为总数，红色为其中失败的部分
+function DailyChart({ daily }: { daily: DailyDeployCount[] }) {
+  const max = Math.max(1, ...daily.map((d) => d.total));
+  const barWidth = 100 / Math.max(1, daily.length);
+  return (
+    <svg viewBox={`0 0 100 ${CHART_HEIGHT}`} preserveAspectRatio="none" style={{ width: "100%", height: CHART_HEIGHT }}>
+      {daily.map((d, i) => {
+        const h = (d.total / max) * (CHART_HEIGHT - 4);
+        const fh = (d.failed / max) * (CHART_HEIGHT - 4);
+        const x = i * barWidth + barWidth * 0.15;
+        const w = barWidth * 0.7;
+        return (
+          <g key={d.date}>
+            <title>{`${d.date}：${d.total} 次部署，${d.failed} 次失败`}</title>
+            <rect x={x} y={CHART_HEIGHT - h} width={w} height={h} fill="#c9cdd4" />
+            <rect x={x} y={CHART_HEIGHT - fh} width={w} height={fh} fill="#f53f3f" />
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
+
+export default function StatsPage() {
+  const workspace = useWorkspace();
+  const api = useApi();
+  const [days, setDays] = useState<number>(30);
+  const [projects, setProjects] = useState<string[]>([]);
+  const [seg, setSeg] = useState<string[]>([]);
+  const [stats, setStats] = useState<DeployStats | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      setStats(await api.stats({ days, projectName: seg }));
+    } catch (e) {
+      Message.error((e as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, [api, days, seg]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  useEffect(() => {
+    api
+      .projects()
+      .then(setProjects)
+      .catch(() => setProjects([]));
+  }, [api]);
+
+  const columns = useMemo(
+    () => [
+      { title: "项目", dataIndex: "projectName" },
+      { title: "环境", dataIndex: "environment", render: (env: string) => <Tag bordered>{env}</Tag> },
+      { title: "部署次数", dataIndex: "total", sorter: (a: DeployStatsGroup, b: DeployStatsGroup) => a.total - b.total },
+      { title: "每周", dataIndex: "deploysPerWeek", render: (v: number) => v.toFixed(1) },
+      { title: "成功率", dataIndex: "successRate", render: (v: number | null) => formatRate(v) },
+      { title: "失败", dataIndex: "failed" },
+      { title: "恢复时长中位数", dataIndex: "medianRecoveryMs", render: (v: number | null) => formatRecovery(v) },
+      {
+        title: "主要运行人",
+        dataIndex: "topOperators",
+        render: (ops: DeployStatsGroup["topOperators"]) => ops.slice(0, 3).map((o) => `${o.operator}(${o.count})`).join("、"),
+      },
+    ],
+    [],
+  );
+
+  const overall = stats?.overall;
+
+  return (
+    <div style={{ maxWidth: 1200, margin: "0 auto", padding: 24 }}>
+      <Space direction="vertical" size={16} style={{ width: "100%" }}>
+        <div>
+          <Typography.Title heading={3} style={{ marginBottom: 0 }}>
+            部署统计
+          </Typography.Title>
+          <Space size={16} style={{ marginTop: 4 }}>
+            <Link href={`/${workspace}`}>部署记录</Link>
+            <Link href={`/${workspace}/matrix`}>环境矩阵</Link>
+          </Space>
+        </div>
+        <Space size={16} wrap>
+          <Radio.Group type="button" value={days} onChange={(v: number) => setDays(v)}>
+            {WINDOWS.map((d) => (
+              <Radio key={d} value={d}>
+                近{d}天
+              </Radio>
+            ))}
+          </Radio.Group>
+          <Select
+            mode="multiple"
+            allowClear
+            placeholder="筛选项目"
+            value={seg}
+            onChange={setSeg}
+            style={{ width: 420 }}
+            options={projects.map((p) => ({ label: p, value: p }))}
+          />
+        </Space>
+        {loading || !overall ? (
+          <Spin style={{ width: "100%" }} />
+        ) : (
+          <>
+            <Grid.Row gutter={16}>
+              <Grid.Col span={6}>
+                <Card>
+                  <Statistic title="每天部署" value={Number(overall.deploysPerDay.toFixed(1))} />
+                </Card>
+              </Grid.Col>
+              <Grid.Col span={6}>
+                <Card>
+                  <Statistic title="每周部署" value={Number(overall.deploysPerWeek.toFixed(1))} />
+                </Card>
+              </Grid.Col>
+              <Grid.Col span={6}>
+                <Card>
+                  <Statistic title="成功率" value={formatRate(overall.successRate)} />
+                </Card>
+              </Grid.Col>
+              <Grid.Col span={6}>
+                <Card>
+                  <Statistic title="恢复时长中位数" value={formatRecovery(overall.medianRecoveryMs)} />
+                </Card>
+              </Grid.Col>
+            </Grid.Row>
+            <Card title="每日部署量">
+              <DailyChart daily={overall.daily} />
+              <div style={{ display: "flex", justifyContent: "space-between" }}>
+                <Typography.Text type="secondary">{overall.daily[0]?.date}</Typography.Text>
+                <Typography.Text type="secondary">{overall.daily[overall.daily.length - 1]?.date}</Typography.Text>
+              </div>
+            </Card>
+            <Card title="主要运行人">
+              <Space wrap>
+                {overall.topOperators.map((o) => (
+                  <Tag key={o.operator} bordered>
+                    {o.operator} · {o.count}
+                  </Tag>
+                ))}
+              </Space>
+            </Card>
+            <Table
+              rowKey={(row: DeployStatsGroup) => `${row.projectName}/${row.environment}`}
+              columns={columns}
+              data={stats.groups}
+              pagination={false}
+              border
+            />
+          </>
+        )}
+      </Space>
+    </div>
+  );
+}
@@ -0,0 +1,148 @@
+"use client";
+import React, { useCallback, useEffect, useState } from "react";
+import { Button, Input, Select, Space, Tag, Tooltip, Typography } from "@arco-design/web-react";
+import type { DeployClient } from "@/lib/client";
+import { matchAny } from "@/lib/pattern";
+import type { DeployRecord, UnreadSummary, UserState } from "@/lib/types";
+
+const LS_USER_KEY = "deploylist:user"; // 浏览器里只记用户名，订阅与已读位置都在服务端
+
+// 首次访问时生成访客名；换成自己的名字后，其他浏览器用同一个名字即可共用已读状态
+function readUserName(): string {
+  const saved = window.localStorage.getItem(LS_USER_KEY);
+  if (saved) return saved;
+  const guest = `guest-${Math.random().toString(36).slice(2, 8)}`;
+  window.localStorage.setItem(LS_USER_KEY, guest);
+  return guest;
+}
+
+// 与服务端 lib/users.ts 的判断一致：订阅范围内、写入时间晚于该项目已读位置的记录
+export function isUnread(state: UserState | null, record: DeployRecord): boolean {
+  if (!state) return false;
+  const { projects, environments } = state.subscriptions;
+  if (projects.length > 0 && !matchAny(projects, record.projectName)) return false;
+  if (environments.length > 0 && !matchAny(environments, record.environment)) return false;
+  const project = state.readAt[record.projectName];
+  return (record.createdAt ?? record.deployedAt) > (project && project > state.readAllAt ? project : state.readAllAt);
+}
+
+export interface Unread {
+  user: string | null;
+  state: UserState | null;
+  summary: UnreadSummary | null;
+  setUser(name: string): void;
+  refresh(): Promise<void>;
+  markRead(projects?: string[]): Promise<void>;
+  subscribe(projects: string[]): Promise<void>;
+}
+
+export function useUnread(api: DeployClient): Unread {
+  const [user, setUserState] = useState<string | null>(null);
+  const [state, setState] = useState<UserState | null>(null);
+  const [summary, setSummary] = useState<UnreadSummary | null>(null);
+
+  useEffect(() => {
+    setUserState(readUserName());
+  }, []);
+
+  const refresh = useCallback(async () => {
+    if (!user) return;
+    try {
+      const res = await api.unread(user);
+      setSummary(res.data);
+      setState(res.user);
+    } catch {
+      // 未读数只是提示，加载失败时保留上一次的结果
+    }
+  }, [api, user]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const setUser = useCallback((name: string) => {
+    const next = name.trim();
+    if (!next) return;
+    window.localStorage.setItem(LS_USER_KEY, next);
+    setUserState(next);
+  }, []);
+
+  const markRead = useCallback(async (projects?: string[]) => {
+    if (!user) return;
+    setState(await api.markRead(user, projects));
+    await refresh();
+  }, [api, user, refresh]);
+
+  const subscribe = useCallback(async (projects: string[]) => {
+    if (!user || !state) return;
+    setState(await api.saveSubscriptions(user, { ...state.subscriptions, projects }));
+    await refresh();
+  }, [api, user, state, refresh]);
+
+  return { user, state, summary, setUser, refresh, markRead, subscribe };
+}
+
+// 列表上方的用户栏：用户名、订阅的项目、各项目未读数（点击只看该项目，关闭标为已读）与“全部标为已读”
+export function UnreadBar({ unread, options, onPick }: {
+  unread: Unread;
+  options: { label: string; value: string }[];
+  onPick: (projectName: string) => void;
+}) {
+  const { user, state, summary } = unread;
+  const [draft, setDraft] = useState<string>("");
+  useEffect(() => {
+    setDraft(user ?? "");
+  }, [user]);
+  if (!user) return null;
+
+  return (
+    <Space size={8} wrap>
+      <Tooltip content="在其他浏览器使用同一个名字即可共用订阅与已读状态">
+        <Input
+          size="small"
+          style={{ width: 140 }}
+          prefix="用户"
+          value={draft}
+          onChange={setDraft}
+          onBlur={() => unread.setUser(draft)}
+          onPressEnter={() => unread.setUser(draft)}
+        />
+      </Tooltip>
+      <Select
+        mode="multiple"
+        size="small"
+        allowClear
+        placeholder="订阅的项目（默认全部）"
+        style={{ minWidth: 220 }}
+        value={state?.subscriptions.projects ?? []}
+        onChange={(projects: string[]) => unread.subscribe(projects)}
+        options={options}
+      />
+      {summary && summary.total > 0 ? (
+        <>
+          {summary.projects.map((p) => (
+            <Tag
+              key={p.projectName}
+              color="red"
+              closable
+              style={{ cursor: "pointer" }}
+              onClick={() => onPick(p.projectName)}
+              onClose={(e: Event) => {
+                e.stopPropagation(); // 关闭只标为已读，不触发筛选
+                return unread.markRead([p.projectName]);
+              }}
+            >
+              {p.projectName} {p.count}
+            </Tag>
+          ))}
+          <Button size="mini" onClick={() => unread.markRead()}>
+            全部标为已读
+          </Button>
+        </>
+      ) : (
+        <Typography.Text type="secondary">没有未读的部署</Typography.Text>
+      )}
+      {summary?.capped ? <Typography.Text type="secondary">（未读较多，只统计了最近 {summary.total} 条）</Typography.Text> : null}
+    </Space>
+  );
+}
@@ -0,0 +1,44 @@
+"use client";
+import React, { useEffect, useState } from "react";
+import { Select } from "@arco-design/web-react";
+import { useParams, useRouter } from "next/navigation";
+import { workspaceApi } from "@/lib/browser";
+import type { DeployClient } from "@/lib/client";
+import { DEFAULT_WORKSPACE } from "@/lib/contract";
+import type { Workspace } from "@/lib/types";
+
+// 当前页面所属的工作区，取自路由 /[workspace]/...
+export function useWorkspace(): string {
+  return useParams<{ workspace?: string }>().workspace ?? DEFAULT_WORKSPACE;
+}
+
+// 当前工作区的 API 客户端
+export function useApi(): DeployClient {
+  return workspaceApi(useWorkspace());
+}
+
+// 工作区切换器：切换后进入对应工作区的部署记录页
+export function WorkspaceSwitcher() {
+  const workspace = useWorkspace();
+  const router = useRouter();
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  useEffect(() => {
+    workspaceApi(workspace)
+      .workspaces()
+      .then(setWorkspaces)
+      .catch(() => {
+        // 列表加载失败时只显示当前工作区
+      });
+  }, [workspace]);
+
+  const options = workspaces.some((w) => w.slug === workspace) ? workspaces : [...workspaces, { slug: workspace, name: workspace }];
+  return (
+    <Select
+      size="small"
+      style={{ width: 160 }}
+      value={workspace}
+      onChange={(slug: string) => router.push(`/${slug}`)}
+      options={options.map((w) => ({ label: w.name, value: w.slug }))}
+    />
+  );
+}
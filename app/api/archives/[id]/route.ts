@@ -0,0 +1,52 @@
+import { NextRequest } from "next/server";
+import { decodeArchive, getArchive, readArchiveData } from "@/lib/archive";
+import { authorize, canAccessProject } from "@/lib/auth";
+import { ARCHIVE_DOWNLOAD_PARAMS, parseSearchParams } from "@/lib/contract";
+import { bad, invalid } from "@/lib/http";
+import { errorStatus } from "@/lib/store";
+import { CONTENT_TYPES, serializeRecords, toByteStream } from "@/lib/transfer";
+import type { DeployRecord } from "@/lib/types";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+async function* fromList(records: DeployRecord[]): AsyncGenerator<DeployRecord> {
+  yield* records;
+}
+
+// 下载归档快照：?format=ndjson（默认）| json | csv | gzip；ndjson / json 可直接提交给 /api/deploy/import 再导入
+export async function GET(req: NextRequest, { params }: { params: { id: string } }) {
+  const { searchParams } = new URL(req.url);
+  const auth = await authorize(req, "read");
+  if (!auth.ok) return bad(auth.error, auth.status);
+  const query = parseSearchParams(ARCHIVE_DOWNLOAD_PARAMS, searchParams);
+  if (!query.ok) return invalid(query);
+
+  try {
+    const archive = await getArchive(params.id);
+    if (!archive || !canAccessProject(auth.principal, archive.projectName)) return bad(`archive not found: ${params.id}`, 404);
+    const data = await readArchiveData(archive.id);
+    if (!data) return bad(`archive data missing: ${params.id}`, 500);
+
+    const format = query.value.format ?? "ndjson";
+    const filename = `deploylist-archive-${archive.projectName}-${archive.environment}-${archive.from.slice(0, 10)}`;
+    if (format === "gzip") {
+      return new Response(new Uint8Array(data), {
+        headers: {
+          "Content-Type": "application/gzip",
+          "Content-Disposition": `attachment; filename="${encodeURIComponent(filename)}.ndjson.gz"`,
+          "Cache-Control": "no-store",
+        },
+      });
+    }
+    return new Response(toByteStream(serializeRecords(fromList(decodeArchive(data)), format)), {
+      headers: {
+        "Content-Type": CONTENT_TYPES[format],
+        "Content-Disposition": `attachment; filename="${encodeURIComponent(filename)}.${format}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (e) {
+    return bad((e as Error).message || "download failed", errorStatus(e, 500));
+  }
+}
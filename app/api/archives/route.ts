@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { listArchives } from "@/lib/archive";
+import { authorize, scopeProjects } from "@/lib/auth";
+import { DEPLOY_FILTER_PARAMS, parseSearchParams } from "@/lib/contract";
+import { bad, invalid, noStore } from "@/lib/http";
+import { errorStatus } from "@/lib/store";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+// 归档快照列表（不含内容）：支持与 /api/deploy 相同的项目、环境与时间筛选
+export async function GET(req: NextRequest) {
+  const { searchParams } = new URL(req.url);
+  const auth = await authorize(req, "read");
+  if (!auth.ok) return bad(auth.error, auth.status);
+  const params = parseSearchParams(DEPLOY_FILTER_PARAMS, searchParams);
+  if (!params.ok) return invalid(params);
+  const projects = scopeProjects(auth.principal, params.value.projectName);
+  try {
+    const data =
+      projects && projects.length === 0
+        ? []
+        : await listArchives({ projectNames: projects, environments: params.value.environment, from: params.value.from, to: params.value.to });
+    return noStore(NextResponse.json({ data }));
+  } catch (e) {
+    return bad((e as Error).message || "list failed", errorStatus(e, 500));
+  }
+}
@@ -1,10 +1,15 @@
 import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { bad } from "@/lib/http";
 
+// 手动推送一条 Bark 消息（调试用）；部署通知请配置 /api/notify 规则，由服务端发送
 export async function POST(req: NextRequest) {
+  const auth = await authorize(req, "admin");
+  if (!auth.ok) return bad(auth.error, auth.status);
   const { title, body } = (await req.json()) as { title?: string; body?: string };
   const base = process.env.BARK_BASE;
   if (!base) {
-    return NextResponse.json({ error: "BARK_BASE not set" }, { status: 400 });
+    return bad("BARK_BASE not set");
   }
   const url = `${base}${encodeURIComponent(title ?? "通知")}/${encodeURIComponent(body ?? "")}`;
   const res = await fetch(url);
@@ -1,21 +1,38 @@
 import { NextRequest, NextResponse } from "next/server";
-import { clearAllData } from "@/lib/db";
+import { authorize, canAccessProject } from "@/lib/auth";
+import { parseCleanPayload } from "@/lib/contract";
+import { cleanDeployRecords } from "@/lib/db";
+import { bad, invalid } from "@/lib/http";
+import { errorStatus } from "@/lib/store";
 
-function bad(msg: string, code = 400) {
-  return NextResponse.json({ error: msg }, { status: code });
-}
-
-export async function POST(_req: NextRequest) {
+// 按范围清理：{ projects?, environments?, before?, ids?, all?, dryRun? }
+// 至少指定一个范围；清空全部必须显式传 all: true
+// 指定了 projects（且不是 all）时只需这些项目的 admin 权限，其余范围会波及全部项目，需要项目范围为 * 的令牌
+export async function POST(req: NextRequest) {
+  let body: Record<string, unknown>;
+  try {
+    const text = await req.text();
+    body = (text ? JSON.parse(text) : {}) as Record<string, unknown>;
+  } catch {
+    return bad("invalid json");
+  }
+  const parsed = parseCleanPayload(body);
+  if (!parsed.ok) return invalid(parsed);
+  const { dryRun = false, ...scope } = parsed.value;
   try {
-    const result = await clearAllData();
+    const projects = scope.all || !scope.projects?.length ? undefined : scope.projects;
+    const auth = await authorize(req, "admin", projects?.[0]);
+    if (!auth.ok) return bad(auth.error, auth.status);
+    const denied = projects?.find((p) => !canAccessProject(auth.principal, p));
+    if (denied !== undefined) return bad(`token not allowed for project: ${denied}`, 403);
+
+    const result = await cleanDeployRecords(scope, dryRun);
     return NextResponse.json({ ok: true, ...result });
   } catch (e) {
-    return bad((e as Error).message || "clean failed", 500);
+    return bad((e as Error).message || "clean failed", errorStatus(e, 500));
   }
 }
 
 export async function OPTIONS() {
   return NextResponse.json({ ok: true }, { status: 200 });
 }
-
- 
\ No newline at end of file
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { getDeployRecord, getDeployRecordByExternalId, rollbackDeployRecord } from "@/lib/db";
+import { parseRollbackPayload } from "@/lib/contract";
+import { deployVerdict } from "@/lib/freeze";
+import { bad, invalid, noStore } from "@/lib/http";
+import { errorStatus } from "@/lib/store";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+// 回滚 :id 这次部署：新建一条记录，把同一环境指回回滚目标的分支、提交与版本
+// :id 可以是记录 id，也可以是创建时提供的 externalId；同一 externalId 重复提交时返回已有的回滚记录
+export async function POST(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const body = (await req.json().catch(() => ({}))) as Record<string, unknown>;
+    const parsed = parseRollbackPayload({ ...body, externalId: body.externalId || req.headers.get("idempotency-key") || undefined });
+    if (!parsed.ok) return invalid(parsed);
+    const reverted = (await getDeployRecord(params.id)) ?? (await getDeployRecordByExternalId(params.id));
+    if (!reverted) return bad(`record not found: ${params.id}`, 404);
+    const auth = await authorize(req, "ingest", reverted.projectName);
+    if (!auth.ok) return bad(auth.error, auth.status);
+
+    const result = await rollbackDeployRecord(reverted, parsed.value);
+    if (!result.ok) return bad(result.error);
+    const { record, created, target } = result.value;
+    return noStore(NextResponse.json({ data: record, created, target, verdict: deployVerdict(record) }));
+  } catch (e) {
+    return bad((e as Error).message || "invalid json", errorStatus(e));
+  }
+}
+
+export async function OPTIONS() {
+  return NextResponse.json({ ok: true }, { status: 200 });
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { getDeployRecord, getDeployRecordByExternalId, getPreviousDeployRecord, updateDeployRecord } from "@/lib/db";
+import { parseUpdatePayload } from "@/lib/contract";
+import { bad, invalid, noStore } from "@/lib/http";
+import { getProjectInfo } from "@/lib/projects";
+import { buildRepoUrls } from "@/lib/repos";
+import { errorStatus } from "@/lib/store";
+import type { DeployDetail } from "@/lib/types";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+// 记录详情：完整记录、同一 项目 × 环境 的上一次成功部署，以及两者之间的提交对比链接
+// :id 可以是记录 id，也可以是创建时提供的 externalId
+export async function GET(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const record = (await getDeployRecord(params.id)) ?? (await getDeployRecordByExternalId(params.id));
+    // 项目范围外的记录与不存在的记录同样返回 404，不泄露记录是否存在
+    const auth = await authorize(req, "read", record?.projectName);
+    if (!auth.ok && auth.status !== 403) return bad(auth.error, auth.status);
+    if (!record || !auth.ok) return bad(`record not found: ${params.id}`, 404);
+
+    const previous = await getPreviousDeployRecord(record);
+    const project = await getProjectInfo(record.projectName);
+    const detail: DeployDetail = { data: record, previous, ...(await buildRepoUrls(record, previous, project)) };
+    return noStore(NextResponse.json(detail));
+  } catch (e) {
+    return bad((e as Error).message || "load failed", errorStatus(e, 500));
+  }
+}
+
+// 更新部署状态：流水线开始时 POST running，结束时 PATCH success / failed / canceled
+// :id 可以是记录 id，也可以是创建时提供的 externalId
+export async function PATCH(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const parsed = parseUpdatePayload((await req.json()) as Record<string, unknown>);
+    if (!parsed.ok) return invalid(parsed);
+    const patch = parsed.value;
+    if (patch.status === undefined && patch.note === undefined && patch.artifacts === undefined) {
+      return bad("nothing to update: status, note or artifacts required");
+    }
+    const current = (await getDeployRecord(params.id)) ?? (await getDeployRecordByExternalId(params.id));
+    if (!current) return bad(`record not found: ${params.id}`, 404);
+    const auth = await authorize(req, "ingest", current.projectName);
+    if (!auth.ok) return bad(auth.error, auth.status);
+
+    const updated = await updateDeployRecord(current.id, patch);
+    if (!updated) return bad(`record not found: ${params.id}`, 404);
+
+    return noStore(NextResponse.json({ data: updated }));
+  } catch (e) {
+    return bad((e as Error).message || "invalid json", errorStatus(e));
+  }
+}
+
+export async function OPTIONS() {
+  return NextResponse.json({ ok: true }, { status: 200 });
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize, scopeProjects } from "@/lib/auth";
+import { getCurrentDeployments } from "@/lib/db";
+import { CURRENT_DEPLOY_PARAMS, parseSearchParams } from "@/lib/contract";
+import { bad, invalid, noStore } from "@/lib/http";
+import { errorStatus } from "@/lib/store";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+// 每个 项目 × 环境 最近一次成功部署（即当前线上版本），支持与 /api/deploy 相同的项目、环境筛选
+export async function GET(req: NextRequest) {
+  const { searchParams } = new URL(req.url);
+  const auth = await authorize(req, "read");
+  if (!auth.ok) return bad(auth.error, auth.status);
+  const params = parseSearchParams(CURRENT_DEPLOY_PARAMS, searchParams);
+  if (!params.ok) return invalid(params);
+  const projects = scopeProjects(auth.principal, params.value.projectName);
+  try {
+    const data = projects && projects.length === 0 ? [] : await getCurrentDeployments(projects, params.value.environment);
+    return noStore(NextResponse.json({ data }));
+  } catch (e) {
+    return bad((e as Error).message || "load failed", errorStatus(e, 500));
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest } from "next/server";
+import { authorize, scopeProjects } from "@/lib/auth";
+import { iterateDeployRecords } from "@/lib/db";
+import { DEPLOY_EXPORT_PARAMS, parseSearchParams } from "@/lib/contract";
+import { bad, invalid } from "@/lib/http";
+import { errorStatus } from "@/lib/store";
+import { CONTENT_TYPES, serializeRecords, toByteStream } from "@/lib/transfer";
+import type { DeployFilter, DeployRecord } from "@/lib/types";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+async function* nothing(): AsyncGenerator<DeployRecord> {}
+
+// 从已取出的第一条接着迭代
+async function* resume(first: IteratorResult<DeployRecord>, rest: AsyncIterator<DeployRecord>): AsyncGenerator<DeployRecord> {
+  for (let next = first; !next.done; next = await rest.next()) yield next.value;
+}
+
+// 导出保留期内的全部记录：?format=csv|json|ndjson，筛选参数与 GET /api/deploy 相同，按时间倒序流式输出
+export async function GET(req: NextRequest) {
+  const { searchParams } = new URL(req.url);
+  const auth = await authorize(req, "read");
+  if (!auth.ok) return bad(auth.error, auth.status);
+  const params = parseSearchParams(DEPLOY_EXPORT_PARAMS, searchParams);
+  if (!params.ok) return invalid(params);
+  const format = params.value.format ?? "json";
+
+  const projects = scopeProjects(auth.principal, params.value.projectName);
+  const filter: DeployFilter = {
+    projectNames: projects,
+    environments: params.value.environment,
+    from: params.value.from,
+    to: params.value.to,
+  };
+
+  const records = (projects && projects.length === 0 ? nothing() : iterateDeployRecords(filter))[Symbol.asyncIterator]();
+  // 先取出第一条再开始响应，存储不可用时还能返回 503；响应开始后再出错只能中断下载
+  let first: IteratorResult<DeployRecord>;
+  try {
+    first = await records.next();
+  } catch (e) {
+    return bad((e as Error).message || "export failed", errorStatus(e, 500));
+  }
+  const filename = `deploylist-${new Date().toISOString().slice(0, 10)}.${format}`;
+  return new Response(toByteStream(serializeRecords(resume(first, records), format)), {
+    headers: {
+      "Content-Type": CONTENT_TYPES[format],
+      "Content-Disposition": `attachment; filename="${filename}"`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from "next/server";
+import { gunzipSync } from "zlib";
+import { authorize, canAccessProject } from "@/lib/auth";
+import type { Principal } from "@/lib/auth";
+import { importDeployRecord } from "@/lib/db";
+import { bad, noStore } from "@/lib/http";
+import { errorStatus } from "@/lib/store";
+import { parseImportRow, readBody, resolveFormat, splitImportRows } from "@/lib/transfer";
+import type { ImportRow } from "@/lib/transfer";
+import type { ImportReport, ImportRowResult } from "@/lib/types";
+
+const MAX_ROWS = 5000;
+// 请求体与解压后的大小上限
+const MAX_BODY_BYTES = 16 * 1024 * 1024;
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+async function importRow(item: ImportRow, principal: Principal): Promise<ImportRowResult> {
+  const parsed = item.ok ? parseImportRow(item.value) : item;
+  if (!parsed.ok) return { row: item.row, ok: false, error: parsed.error };
+  if (!canAccessProject(principal, parsed.value.projectName)) {
+    return { row: item.row, ok: false, error: `token not allowed for project: ${parsed.value.projectName}` };
+  }
+  const saved = await importDeployRecord(parsed.value);
+  return saved.ok ? { row: item.row, ok: true, id: saved.value.id } : { row: item.row, ok: false, error: saved.error };
+}
+
+// 批量导入历史记录：请求体为 csv / json / ndjson（?format= 或 Content-Type），逐行校验并返回每行的结果
+// 单行失败不影响其余行；导入的记录不触发实时推送与通知
+export async function POST(req: NextRequest) {
+  const auth = await authorize(req, "ingest");
+  if (!auth.ok) return bad(auth.error, auth.status);
+  const { searchParams } = new URL(req.url);
+  // 归档快照（压缩的 NDJSON）可原样提交：Content-Type: application/gzip 或 Content-Encoding: gzip
+  const contentType = req.headers.get("content-type");
+  const gzipped = /gzip/i.test(contentType ?? "") || req.headers.get("content-encoding") === "gzip";
+  const format = resolveFormat(searchParams.get("format"), gzipped ? "application/x-ndjson" : contentType);
+  if (!format) return bad(`invalid format: ${searchParams.get("format")}`);
+
+  const tooLarge = `request body too large: max ${MAX_BODY_BYTES} bytes`;
+  if (Number(req.headers.get("content-length") ?? 0) > MAX_BODY_BYTES) return bad(tooLarge, 413);
+  const raw = await readBody(req, MAX_BODY_BYTES);
+  if (!raw) return bad(tooLarge, 413);
+  let text: string;
+  try {
+    text = (gzipped ? gunzipSync(raw, { maxOutputLength: MAX_BODY_BYTES }) : raw).toString("utf8");
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === "ERR_BUFFER_TOO_LARGE") return bad(tooLarge, 413);
+    return bad("invalid gzip body");
+  }
+  const split = splitImportRows(format, text);
+  if (!split.ok) return bad(split.error);
+  if (split.value.length > MAX_ROWS) return bad(`too many rows: max ${MAX_ROWS} per request`, 413);
+
+  const report: ImportReport = { accepted: 0, rejected: 0, results: [] };
+  for (const item of split.value) {
+    let result: ImportRowResult;
+    try {
+      result = await importRow(item, auth.principal);
+    } catch (e) {
+      // 存储出错时停止导入，返回 503 与已处理各行的结果，已导入的行可以在重试时按 id 跳过
+      return NextResponse.json({ error: (e as Error).message || "import failed", ...report }, { status: errorStatus(e, 500) });
+    }
+    report.results.push(result);
+    if (result.ok) report.accepted++;
+    else report.rejected++;
+  }
+
+  return noStore(NextResponse.json(report));
+}
+
+export async function OPTIONS() {
+  return NextResponse.json({ ok: true }, { status: 200 });
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize, scopeProjects } from "@/lib/auth";
+import { getKnownGoodDeployments } from "@/lib/db";
+import { CURRENT_DEPLOY_PARAMS, parseSearchParams } from "@/lib/contract";
+import { bad, invalid, noStore } from "@/lib/http";
+import { errorStatus } from "@/lib/store";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+// 每个 项目 × 环境 最近一次成功且没有被回滚过的部署（最后已知可用的版本），筛选参数与 /api/deploy/current 相同
+export async function GET(req: NextRequest) {
+  const { searchParams } = new URL(req.url);
+  const auth = await authorize(req, "read");
+  if (!auth.ok) return bad(auth.error, auth.status);
+  const params = parseSearchParams(CURRENT_DEPLOY_PARAMS, searchParams);
+  if (!params.ok) return invalid(params);
+  const projects = scopeProjects(auth.principal, params.value.projectName);
+  try {
+    const data = projects && projects.length === 0 ? [] : await getKnownGoodDeployments(projects, params.value.environment);
+    return noStore(NextResponse.json({ data }));
+  } catch (e) {
+    return bad((e as Error).message || "load failed", errorStatus(e, 500));
+  }
+}
@@ -1,75 +1,74 @@
 import { NextRequest, NextResponse } from "next/server";
-import { addDeployRecord, getLatestDeployRecords } from "@/lib/db";
-import type { CreateDeployPayload } from "@/lib/types";
-import { redis, DEPLOY_KEY, DEPLOY_ZSET_KEY, DEPLOY_RECORD_PREFIX, PROJECT_SET_KEY } from "@/lib/redis";
+import { authorize, canAccessProject, scopeProjects } from "@/lib/auth";
+import { addDeployRecord, InvalidCursorError, queryDeployRecords } from "@/lib/db";
+import { DEPLOY_LIST_PARAMS, parseDeployPayload, parseSearchParams } from "@/lib/contract";
+import { deployVerdict } from "@/lib/freeze";
+import { bad, invalid, noStore } from "@/lib/http";
+import { countIngestError } from "@/lib/metrics";
+import { resolveDeployProject } from "@/lib/projects";
+import { errorStatus, StoreError } from "@/lib/store";
+import type { DeployPage, DeployQuery } from "@/lib/types";
 
-function bad(msg: string, code = 400) {
-  return NextResponse.json({ error: msg }, { status: code });
-}
+const DEFAULT_LIMIT = 20;
 
 export const dynamic = "force-dynamic";
 export const revalidate = 0;
 
 export async function GET(req: NextRequest) {
   const { searchParams } = new URL(req.url);
-  if (searchParams.get("debug") === "1") {
-    const zcard = redis ? ((await redis.zcard(DEPLOY_ZSET_KEY)) as unknown as number) : 0;
-    const ids = redis ? ((await redis.zrange(DEPLOY_ZSET_KEY, 0, 10, { rev: true })) as unknown as string[]) : [];
-    const firstId = ids[0];
-    const firstRecord = firstId && redis ? (await redis.get(`${DEPLOY_RECORD_PREFIX}${firstId}`)) : null;
-    const lcount = redis ? ((await redis.llen(DEPLOY_KEY)) as unknown as number) : 0;
-    const lsample = redis ? ((await redis.lrange(DEPLOY_KEY, 0, 2)) as unknown as string[]) : [];
-    const pcount = redis ? ((await redis.scard(PROJECT_SET_KEY)) as unknown as number) : 0;
-    const limit = Math.max(1, Math.min(50, Number(searchParams.get("limit")) || 20));
-    const multi = searchParams.getAll("projectName");
-    const csv = searchParams.get("projects");
-    const projects = multi.length > 0 ? multi : csv ? csv.split(",").map((s) => s.trim()).filter(Boolean) : undefined;
-    const data = await getLatestDeployRecords(limit, projects);
-    const res = NextResponse.json({ data, debug: { zcard, ids, firstRecord: firstRecord ?? null, lcount, lsample, pcount } });
-    res.headers.set("Cache-Control", "no-store");
-    return res;
+  const auth = await authorize(req, "read");
+  if (!auth.ok) return bad(auth.error, auth.status);
+  // 分页：?limit=&cursor=（上一页的 nextCursor），时间范围：?from=&to=（ISO 或毫秒时间戳）
+  const params = parseSearchParams(DEPLOY_LIST_PARAMS, searchParams);
+  if (!params.ok) return invalid(params);
+  const projects = scopeProjects(auth.principal, params.value.projectName);
+  const query: DeployQuery = {
+    limit: params.value.limit ?? DEFAULT_LIMIT,
+    projectNames: projects,
+    environments: params.value.environment,
+    from: params.value.from,
+    to: params.value.to,
+    cursor: params.value.cursor,
+  };
+  let page: DeployPage;
+  try {
+    page = projects && projects.length === 0 ? { data: [], nextCursor: null } : await queryDeployRecords(query);
+  } catch (e) {
+    if (e instanceof InvalidCursorError) return bad(e.message);
+    if (e instanceof StoreError) return bad(e.message, 503);
+    throw e;
   }
-  const limit = Math.max(1, Math.min(50, Number(searchParams.get("limit")) || 20));
-  // 支持 ?projectName=a&projectName=b 或 ?projects=a,b
-  const multi = searchParams.getAll("projectName");
-  const csv = searchParams.get("projects");
-  const projects = multi.length > 0 ? multi : csv ? csv.split(",").map((s) => s.trim()).filter(Boolean) : undefined;
-  const data = await getLatestDeployRecords(limit, projects);
-  const res = NextResponse.json({ data });
-  res.headers.set("Cache-Control", "no-store, no-cache, must-revalidate, proxy-revalidate");
-  res.headers.set("Pragma", "no-cache");
-  res.headers.set("Expires", "0");
-  return res;
+  return noStore(NextResponse.json(page));
 }
 
+// 上报失败（校验、鉴权、存储）计入 deploylist_ingest_errors_total{source="api"}
 export async function POST(req: NextRequest) {
-  try {
-    const body = (await req.json()) as Partial<CreateDeployPayload>;
-    const required = ["title", "projectName", "operator", "environment", "branch", "commit", "status"] as const;
-    for (const key of required) {
-      if (!body[key]) return bad(`missing field: ${key}`);
-    }
+  const res = await createDeploy(req);
+  if (res.status >= 400) countIngestError("api", res.status);
+  return res;
+}
 
-    const payload: CreateDeployPayload = {
-      title: String(body.title),
-      projectName: String(body.projectName),
-      operator: String(body.operator),
-      environment: String(body.environment),
-      branch: String(body.branch),
-      commit: String(body.commit),
-      note: body.note ? String(body.note) : undefined,
-      deployedAt: body.deployedAt ? new Date(body.deployedAt).toISOString() : undefined,
-      status: body.status as CreateDeployPayload["status"],
-    };
+async function createDeploy(req: NextRequest): Promise<NextResponse> {
+  // 先鉴权：未通过时不读取项目登记，也不暴露别名是否存在；项目范围在解析别名后再检查
+  const auth = await authorize(req, "ingest");
+  if (!auth.ok) return bad(auth.error, auth.status);
+  try {
+    const body = (await req.json()) as Record<string, unknown>;
+    // 幂等键：请求体 externalId 优先，其次 Idempotency-Key 请求头
+    const parsed = parseDeployPayload({ ...body, externalId: body.externalId || req.headers.get("idempotency-key") || undefined });
+    if (!parsed.ok) return invalid(parsed);
+    // 别名换成登记的项目名；严格模式下拒绝未登记的项目与环境
+    const project = await resolveDeployProject(parsed.value.projectName, parsed.value.environment);
+    if (!project.ok) return invalid({ error: project.error, fields: [{ field: "projectName", message: project.error }] });
+    const payload = { ...parsed.value, projectName: project.value };
+    if (!canAccessProject(auth.principal, payload.projectName)) return bad(`token not allowed for project: ${payload.projectName}`, 403);
 
-    const saved = await addDeployRecord(payload);
-    const res = NextResponse.json({ data: saved });
-    res.headers.set("Cache-Control", "no-store, no-cache, must-revalidate, proxy-revalidate");
-    res.headers.set("Pragma", "no-cache");
-    res.headers.set("Expires", "0");
-    return res;
+    // 同一 externalId 重复提交时返回（必要时更新）已有记录，created 为 false
+    // verdict.allowed 为 false 表示命中封版或他人的环境锁，记录已写入并标记，流水线可据此中止
+    const { record, created } = await addDeployRecord(payload);
+    return noStore(NextResponse.json({ data: record, created, verdict: deployVerdict(record) }));
   } catch (e) {
-    return bad((e as Error).message || "invalid json");
+    return bad((e as Error).message || "invalid json", errorStatus(e));
   }
 }
 
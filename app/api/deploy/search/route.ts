@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize, scopeProjects } from "@/lib/auth";
+import { searchDeployRecords } from "@/lib/db";
+import { DEPLOY_SEARCH_PARAMS, parseSearchParams } from "@/lib/contract";
+import { bad, invalid, noStore } from "@/lib/http";
+import { parseSearchQuery } from "@/lib/search";
+import { errorStatus } from "@/lib/store";
+import type { DeploySearchResult } from "@/lib/types";
+
+const DEFAULT_LIMIT = 50;
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+// 全文检索：?q=operator:张三 branch:release/* status:failed "payment timeout"，筛选参数与 GET /api/deploy 相同
+export async function GET(req: NextRequest) {
+  const { searchParams } = new URL(req.url);
+  const auth = await authorize(req, "read");
+  if (!auth.ok) return bad(auth.error, auth.status);
+  const params = parseSearchParams(DEPLOY_SEARCH_PARAMS, searchParams);
+  if (!params.ok) return invalid(params);
+  const query = parseSearchQuery(params.value.q);
+  if (!query.ok) return invalid({ error: query.error, fields: [{ field: "q", message: query.error }] });
+
+  const projects = scopeProjects(auth.principal, params.value.projectName);
+  try {
+    const result: DeploySearchResult =
+      projects && projects.length === 0
+        ? { data: [], total: 0, capped: false, highlights: query.value.highlights }
+        : {
+            ...(await searchDeployRecords(
+              query.value,
+              { projectNames: projects, environments: params.value.environment, from: params.value.from, to: params.value.to },
+              params.value.limit ?? DEFAULT_LIMIT,
+            )),
+            highlights: query.value.highlights,
+          };
+    return noStore(NextResponse.json(result));
+  } catch (e) {
+    return bad((e as Error).message || "search failed", errorStatus(e, 500));
+  }
+}
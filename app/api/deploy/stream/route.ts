@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize, scopeProjects } from "@/lib/auth";
+import { getDeployRecordsSince } from "@/lib/db";
+import { subscribeDeployEvents } from "@/lib/events";
+import { bad } from "@/lib/http";
+import { countStoreError } from "@/lib/metrics";
+import { parseEnvironmentFilter, parseProjectFilter } from "@/lib/query";
+import { getStore, StoreError } from "@/lib/store";
+import type { DeployRecord } from "@/lib/types";
+import { currentWorkspace } from "@/lib/workspace";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+const RETRY_MS = 3000; // 浏览器断线后的重连间隔
+const HEARTBEAT_MS = 15_000; // 心跳，防止代理断开空闲连接
+
+// Server-Sent Events：每写入一条部署记录推送一次 deploy 事件，状态变更推送 update 事件
+// update 事件不带 id，Last-Event-ID 始终指向最后一条新记录
+// 支持 ?projectName= / ?projects= / ?environment= / ?environments= 过滤，断线重连时按 Last-Event-ID（或 ?lastEventId=）补发
+export async function GET(req: NextRequest) {
+  const { searchParams } = new URL(req.url);
+  const auth = await authorize(req, "read");
+  if (!auth.ok) return bad(auth.error, auth.status);
+  const projects = scopeProjects(auth.principal, parseProjectFilter(searchParams));
+  // 令牌可见范围为空时得到空集合，任何记录都不会推送
+  const filter = projects ? new Set(projects) : undefined;
+  const environments = parseEnvironmentFilter(searchParams);
+  const envFilter = environments ? new Set(environments) : undefined;
+  const matches = (record: DeployRecord) =>
+    (!filter || filter.has(record.projectName)) && (!envFilter || envFilter.has(record.environment));
+  const workspace = currentWorkspace();
+  const lastEventId = req.headers.get("last-event-id") || searchParams.get("lastEventId");
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let closed = false;
+      const send = (chunk: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+      const sent = new Set<string>();
+      const sendRecord = (record: DeployRecord) => {
+        if (sent.has(record.id)) return;
+        sent.add(record.id);
+        send(`id: ${record.id}\nevent: deploy\ndata: ${JSON.stringify(record)}\n\n`);
+      };
+
+      // 先订阅再补发，补发期间到达的新记录暂存，避免遗漏
+      let pending: DeployRecord[] | null = [];
+      const unsubscribe = subscribeDeployEvents(({ type, record, workspace: source }) => {
+        if (source !== workspace || !matches(record)) return;
+        if (type === "update") {
+          if (!closed) send(`event: update\ndata: ${JSON.stringify(record)}\n\n`);
+          return;
+        }
+        if (pending) pending.push(record);
+        else sendRecord(record);
+      });
+      const heartbeat = setInterval(() => send(": ping\n\n"), HEARTBEAT_MS);
+      cleanup = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribe();
+        try {
+          controller.close();
+        } catch {
+          // 已关闭
+        }
+      };
+      req.signal.addEventListener("abort", cleanup);
+
+      send(`retry: ${RETRY_MS}\n\n`);
+      if (lastEventId) {
+        try {
+          const missed = await getDeployRecordsSince(lastEventId, projects);
+          for (const record of missed) {
+            if (matches(record)) sendRecord(record);
+          }
+        } catch (e) {
+          // 补发失败时告知客户端并关闭连接，浏览器稍后带着同一个 Last-Event-ID 重连再补发
+          // 存储错误已由 instrumentStore 计数，其余异常在这里计入
+          if (!(e instanceof StoreError)) countStoreError(getStore().kind, "replay");
+          send(`event: error\ndata: ${JSON.stringify({ error: (e as Error).message || "replay failed" })}\n\n`);
+          cleanup();
+          return;
+        }
+      }
+      const queued = pending;
+      pending = null;
+      for (const record of queued) sendRecord(record);
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-store, no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
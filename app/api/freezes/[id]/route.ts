@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { deleteFreezeWindow } from "@/lib/freeze";
+import { bad } from "@/lib/http";
+import { errorStatus } from "@/lib/store";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+// 解除封版
+export async function DELETE(req: NextRequest, { params }: { params: { id: string } }) {
+  const auth = await authorize(req, "admin");
+  if (!auth.ok) return bad(auth.error, auth.status);
+  try {
+    const removed = await deleteFreezeWindow(params.id);
+    if (!removed) return bad(`freeze window not found: ${params.id}`, 404);
+    return NextResponse.json({ ok: true });
+  } catch (e) {
+    return bad((e as Error).message || "delete failed", errorStatus(e, 500));
+  }
+}
+
+export async function OPTIONS() {
+  return NextResponse.json({ ok: true }, { status: 200 });
+}
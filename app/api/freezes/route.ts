@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { parseFreezePayload } from "@/lib/contract";
+import { createFreezeWindow, listFreezeWindows, listUpcomingFreezeWindows } from "@/lib/freeze";
+import { bad, invalid, noStore } from "@/lib/http";
+import { errorStatus } from "@/lib/store";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+// ?active=1 只返回正在生效或尚未开始的窗口（页面横幅用）
+export async function GET(req: NextRequest) {
+  const auth = await authorize(req, "read");
+  if (!auth.ok) return bad(auth.error, auth.status);
+  const active = new URL(req.url).searchParams.get("active") === "1";
+  try {
+    const data = active ? await listUpcomingFreezeWindows() : await listFreezeWindows();
+    return noStore(NextResponse.json({ data }));
+  } catch (e) {
+    return bad((e as Error).message || "list failed", errorStatus(e, 500));
+  }
+}
+
+// 新建封版窗口：{ projects?: ["*"], environments?: ["prod*"], from?, to, reason }
+export async function POST(req: NextRequest) {
+  const auth = await authorize(req, "admin");
+  if (!auth.ok) return bad(auth.error, auth.status);
+  try {
+    const parsed = parseFreezePayload((await req.json()) as Record<string, unknown>);
+    if (!parsed.ok) return invalid(parsed);
+    return NextResponse.json({ data: await createFreezeWindow(parsed.value) });
+  } catch (e) {
+    return bad((e as Error).message || "invalid json", errorStatus(e));
+  }
+}
+
+export async function OPTIONS() {
+  return NextResponse.json({ ok: true }, { status: 200 });
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { noStore } from "@/lib/http";
+import { getSchemaState, LATEST_SCHEMA_VERSION, pendingMigrations } from "@/lib/migrations";
+import { resolveStoreKind } from "@/lib/store";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+// 健康检查：读一次存储结构版本，顺带测出存储的连通性与延迟；不需要令牌，也不返回存储内部信息
+// status：ok；degraded 为有待执行的迁移；down 为存储不可用（503）
+export async function GET() {
+  const start = Date.now();
+  let kind: string | null = null;
+  try {
+    kind = resolveStoreKind();
+    const state = await getSchemaState();
+    const pending = pendingMigrations(state);
+    return noStore(
+      NextResponse.json({
+        status: pending.length > 0 ? "degraded" : "ok",
+        store: { kind, ok: true, latencyMs: Date.now() - start },
+        schema: { version: state.version, latest: LATEST_SCHEMA_VERSION, pending },
+      }),
+    );
+  } catch (e) {
+    return noStore(
+      NextResponse.json(
+        {
+          status: "down",
+          store: { kind, ok: false, latencyMs: Date.now() - start, error: (e as Error).message || "store unavailable" },
+          schema: null,
+        },
+        { status: 503 },
+      ),
+    );
+  }
+}
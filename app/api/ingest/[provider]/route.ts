@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { bad } from "@/lib/http";
+import { getIngestProvider, ingestEvent, verifyIngest } from "@/lib/ingest";
+import type { IngestEvent } from "@/lib/ingest";
+import { countIngestError } from "@/lib/metrics";
+import { errorStatus } from "@/lib/store";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+// CI 平台原生 webhook：/api/ingest/gitlab | github | jenkins
+// 可选 ?project= 与 ?environment= 覆盖从 webhook 中解析出的项目名与环境；其他工作区用 /api/<slug>/ingest/...
+// 启用鉴权后需要该工作区的 ingest 令牌（见 verifyIngest），?project= 同样受令牌的项目范围限制
+// 失败计入 deploylist_ingest_errors_total，source 为平台名（未知平台记为 unknown）
+export async function POST(req: NextRequest, context: { params: { provider: string } }) {
+  const res = await ingest(req, context);
+  const source = getIngestProvider(context.params.provider) ? context.params.provider : "unknown";
+  if (res.status >= 400) countIngestError(source, res.status);
+  return res;
+}
+
+async function ingest(req: NextRequest, { params }: { params: { provider: string } }): Promise<NextResponse> {
+  const provider = getIngestProvider(params.provider);
+  if (!provider) return bad(`unknown provider: ${params.provider}`, 404);
+
+  const rawBody = await req.text();
+  const auth = await verifyIngest(provider, req, rawBody);
+  if (!auth.ok) return bad(auth.error, auth.status);
+
+  let body: unknown;
+  try {
+    body = JSON.parse(rawBody);
+  } catch {
+    return bad("invalid json");
+  }
+
+  // 平台 payload 结构不符合预期时 parse 可能抛错，按请求体错误处理
+  let event: IngestEvent | null;
+  try {
+    event = provider.parse(req, body);
+  } catch (e) {
+    return bad(`invalid ${provider.name} payload: ${(e as Error).message}`);
+  }
+  if (!event) return NextResponse.json({ ok: true, ignored: true });
+
+  const { searchParams } = new URL(req.url);
+  try {
+    const overrides = {
+      projectName: searchParams.get("project") ?? undefined,
+      environment: searchParams.get("environment") ?? undefined,
+    };
+    const result = await ingestEvent(provider, event, overrides, auth.principal);
+    if (!result.ok) return bad(result.error, result.status);
+    const { record, created } = result.value;
+    return NextResponse.json({ ok: true, created, data: record });
+  } catch (e) {
+    return bad((e as Error).message || "ingest failed", errorStatus(e, 500));
+  }
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { getEnvironmentLock, releaseEnvironmentLock } from "@/lib/freeze";
+import { bad } from "@/lib/http";
+import { errorStatus } from "@/lib/store";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+// 释放环境锁；令牌不区分个人，有该项目 ingest 权限即可释放
+export async function DELETE(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const lock = await getEnvironmentLock(params.id);
+    if (!lock) return bad(`lock not found: ${params.id}`, 404);
+    const auth = await authorize(req, "ingest", lock.projectName);
+    if (!auth.ok) return bad(auth.error, auth.status);
+    await releaseEnvironmentLock(lock);
+    return NextResponse.json({ ok: true });
+  } catch (e) {
+    return bad((e as Error).message || "release failed", errorStatus(e, 500));
+  }
+}
+
+export async function OPTIONS() {
+  return NextResponse.json({ ok: true }, { status: 200 });
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize, canAccessProject } from "@/lib/auth";
+import { parseLockPayload } from "@/lib/contract";
+import { claimEnvironmentLock, listEnvironmentLocks, lockFromPayload } from "@/lib/freeze";
+import { bad, invalid, noStore } from "@/lib/http";
+import { errorStatus } from "@/lib/store";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+// 未过期的环境锁，只返回令牌项目范围内的
+export async function GET(req: NextRequest) {
+  const auth = await authorize(req, "read");
+  if (!auth.ok) return bad(auth.error, auth.status);
+  try {
+    const data = (await listEnvironmentLocks()).filter((lock) => canAccessProject(auth.principal, lock.projectName));
+    return noStore(NextResponse.json({ data }));
+  } catch (e) {
+    return bad((e as Error).message || "list failed", errorStatus(e, 500));
+  }
+}
+
+// 占用环境：{ projectName, environment, holder, reason?, minutes?: 120 }
+// 同一占用人重复提交视为续期；已被他人占用时返回 409 与当前的锁
+export async function POST(req: NextRequest) {
+  try {
+    const parsed = parseLockPayload((await req.json()) as Record<string, unknown>);
+    if (!parsed.ok) return invalid(parsed);
+    const auth = await authorize(req, "ingest", parsed.value.projectName);
+    if (!auth.ok) return bad(auth.error, auth.status);
+
+    const result = await claimEnvironmentLock(lockFromPayload(parsed.value));
+    if ("conflict" in result) {
+      const { conflict } = result;
+      const error = `${conflict.projectName}/${conflict.environment} is locked by ${conflict.holder} until ${conflict.expiresAt}`;
+      return NextResponse.json({ error, lock: conflict }, { status: 409 });
+    }
+    return NextResponse.json({ data: result.lock, created: result.created });
+  } catch (e) {
+    return bad((e as Error).message || "invalid json", errorStatus(e));
+  }
+}
+
+export async function OPTIONS() {
+  return NextResponse.json({ ok: true }, { status: 200 });
+}
@@ -0,0 +1,20 @@
+import { NextRequest } from "next/server";
+import { authorize, scopeProjects } from "@/lib/auth";
+import { bad } from "@/lib/http";
+import { renderMetrics } from "@/lib/metrics";
+import { currentWorkspace } from "@/lib/workspace";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+// Prometheus 抓取地址：部署计数（按工作区、项目、环境、状态）、上报失败数、存储操作延迟
+// 与其他读接口一样，DEPLOYLIST_PUBLIC_READ=0 时需要 read 权限的令牌（Prometheus 可配置 bearer token）
+// 工作区签发的令牌只能看到本工作区、令牌项目范围内的序列；全量指标需要环境变量中的管理员令牌或公开读取
+export async function GET(req: NextRequest) {
+  const auth = await authorize(req, "read");
+  if (!auth.ok) return bad(auth.error, auth.status);
+  const scope = auth.principal.tokenId === null ? undefined : { workspace: currentWorkspace(), projects: scopeProjects(auth.principal) };
+  return new Response(renderMetrics(scope), {
+    headers: { "Content-Type": "text/plain; version=0.0.4; charset=utf-8", "Cache-Control": "no-store" },
+  });
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize, isGlobalAdmin } from "@/lib/auth";
+import { bad } from "@/lib/http";
+import { getSchemaState, LATEST_SCHEMA_VERSION, pendingMigrations, runMigrations } from "@/lib/migrations";
+import { errorStatus } from "@/lib/store";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+// 当前存储结构版本、已执行与待执行的迁移
+export async function GET(req: NextRequest) {
+  const auth = await authorize(req, "admin");
+  if (!auth.ok) return bad(auth.error, auth.status);
+  try {
+    const state = await getSchemaState();
+    return NextResponse.json({ version: state.version, latest: LATEST_SCHEMA_VERSION, pending: pendingMigrations(state), applied: state.applied });
+  } catch (e) {
+    return bad((e as Error).message || "load failed", errorStatus(e, 500));
+  }
+}
+
+// 执行待执行的迁移：{ dryRun? }；升级部署后调用一次，重复调用无副作用
+// 迁移作用于全部工作区，只接受环境变量中的管理员令牌
+export async function POST(req: NextRequest) {
+  const auth = await authorize(req, "admin");
+  if (!auth.ok) return bad(auth.error, auth.status);
+  if (!isGlobalAdmin(auth.principal)) return bad("migrations require DEPLOYLIST_ADMIN_TOKEN", 403);
+  let body: Record<string, unknown>;
+  try {
+    const text = await req.text();
+    body = (text ? JSON.parse(text) : {}) as Record<string, unknown>;
+  } catch {
+    return bad("invalid json");
+  }
+  try {
+    const result = await runMigrations(body.dryRun === true);
+    return NextResponse.json({ ok: true, dryRun: body.dryRun === true, ...result });
+  } catch (e) {
+    return bad((e as Error).message || "migration failed", errorStatus(e, 500));
+  }
+}
+
+export async function OPTIONS() {
+  return NextResponse.json({ ok: true }, { status: 200 });
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { parseChannelPayload } from "@/lib/contract";
+import { bad, invalid } from "@/lib/http";
+import { deleteChannel, getChannel, saveChannel } from "@/lib/notify";
+import { errorStatus } from "@/lib/store";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+// 整体替换渠道配置；secret 省略时保留原值
+export async function PUT(req: NextRequest, { params }: { params: { id: string } }) {
+  const auth = await authorize(req, "admin");
+  if (!auth.ok) return bad(auth.error, auth.status);
+  try {
+    if (!(await getChannel(params.id))) return bad(`channel not found: ${params.id}`, 404);
+    const parsed = parseChannelPayload((await req.json()) as Record<string, unknown>);
+    if (!parsed.ok) return invalid(parsed);
+    return NextResponse.json({ data: await saveChannel(parsed.value, params.id) });
+  } catch (e) {
+    return bad((e as Error).message || "invalid json", errorStatus(e));
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: { params: { id: string } }) {
+  const auth = await authorize(req, "admin");
+  if (!auth.ok) return bad(auth.error, auth.status);
+  try {
+    const removed = await deleteChannel(params.id);
+    if (!removed) return bad(`channel not found: ${params.id}`, 404);
+    return NextResponse.json({ ok: true });
+  } catch (e) {
+    return bad((e as Error).message || "delete failed", errorStatus(e, 500));
+  }
+}
+
+export async function OPTIONS() {
+  return NextResponse.json({ ok: true }, { status: 200 });
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { parseChannelPayload } from "@/lib/contract";
+import { bad, invalid } from "@/lib/http";
+import { listChannels, saveChannel } from "@/lib/notify";
+import { errorStatus } from "@/lib/store";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+export async function GET(req: NextRequest) {
+  const auth = await authorize(req, "admin");
+  if (!auth.ok) return bad(auth.error, auth.status);
+  try {
+    return NextResponse.json({ data: await listChannels() });
+  } catch (e) {
+    return bad((e as Error).message || "list failed", errorStatus(e, 500));
+  }
+}
+
+// 新建通知渠道：{ name, type: bark|webhook|dingtalk|feishu|wecom, url, secret?, template?, enabled? }
+export async function POST(req: NextRequest) {
+  const auth = await authorize(req, "admin");
+  if (!auth.ok) return bad(auth.error, auth.status);
+  try {
+    const parsed = parseChannelPayload((await req.json()) as Record<string, unknown>);
+    if (!parsed.ok) return invalid(parsed);
+    return NextResponse.json({ data: await saveChannel(parsed.value) });
+  } catch (e) {
+    return bad((e as Error).message || "invalid json", errorStatus(e));
+  }
+}
+
+export async function OPTIONS() {
+  return NextResponse.json({ ok: true }, { status: 200 });
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { bad } from "@/lib/http";
+import { retryPendingDeliveries } from "@/lib/notify";
+import { errorStatus } from "@/lib/store";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+// 重试到期的失败投递，由定时任务调用（建议每分钟一次）；返回本次发送的条数与发送后的状态
+export async function POST(req: NextRequest) {
+  const auth = await authorize(req, "admin");
+  if (!auth.ok) return bad(auth.error, auth.status);
+  try {
+    return NextResponse.json({ ok: true, ...(await retryPendingDeliveries()) });
+  } catch (e) {
+    return bad((e as Error).message || "retry failed", errorStatus(e, 500));
+  }
+}
+
+export async function OPTIONS() {
+  return NextResponse.json({ ok: true }, { status: 200 });
+}
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { bad, noStore } from "@/lib/http";
+import { listDeliveries } from "@/lib/notify";
+import { errorStatus } from "@/lib/store";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+// 投递日志：最近的通知发送记录（保留 7 天），?limit= 默认 200
+export async function GET(req: NextRequest) {
+  const auth = await authorize(req, "admin");
+  if (!auth.ok) return bad(auth.error, auth.status);
+  const { searchParams } = new URL(req.url);
+  const limit = Math.max(1, Math.min(200, Number(searchParams.get("limit")) || 200));
+  try {
+    return noStore(NextResponse.json({ data: await listDeliveries(limit) }));
+  } catch (e) {
+    return bad((e as Error).message || "list failed", errorStatus(e, 500));
+  }
+}
@@ -0,0 +1,11 @@
+import { NextRequest, NextResponse } from "next/server";
+import { buildOpenApiDocument } from "@/lib/openapi";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+// OpenAPI 文档：由 lib/contract.ts 的字段定义生成，公开可读
+export async function GET(req: NextRequest) {
+  const { origin } = new URL(req.url);
+  return NextResponse.json(buildOpenApiDocument(origin));
+}
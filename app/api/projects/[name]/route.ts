@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { bad, invalid } from "@/lib/http";
+import { deleteProjectInfo, findNameConflict, getProjectInfo, listProjectInfos, parseProjectPayload, saveProjectInfo } from "@/lib/projects";
+import { errorStatus } from "@/lib/store";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+export async function GET(req: NextRequest, { params }: { params: { name: string } }) {
+  // 项目范围外的项目与未登记的同样返回 404
+  const auth = await authorize(req, "read", params.name);
+  if (!auth.ok && auth.status !== 403) return bad(auth.error, auth.status);
+  if (!auth.ok) return bad(`project not registered: ${params.name}`, 404);
+  try {
+    const project = await getProjectInfo(params.name);
+    if (!project) return bad(`project not registered: ${params.name}`, 404);
+    return NextResponse.json({ data: project });
+  } catch (e) {
+    return bad((e as Error).message || "load failed", errorStatus(e, 500));
+  }
+}
+
+// 整体替换登记信息，名称取自路径
+export async function PUT(req: NextRequest, { params }: { params: { name: string } }) {
+  const auth = await authorize(req, "admin", params.name);
+  if (!auth.ok) return bad(auth.error, auth.status);
+  try {
+    if (!(await getProjectInfo(params.name))) return bad(`project not registered: ${params.name}`, 404);
+    const parsed = parseProjectPayload((await req.json()) as Record<string, unknown>, params.name);
+    if (!parsed.ok) return invalid(parsed);
+    const conflict = findNameConflict(await listProjectInfos(), parsed.value);
+    if (conflict) return bad(conflict, 409);
+    return NextResponse.json({ data: await saveProjectInfo(parsed.value) });
+  } catch (e) {
+    return bad((e as Error).message || "invalid json", errorStatus(e));
+  }
+}
+
+// 只删除登记信息，已有记录不受影响
+export async function DELETE(req: NextRequest, { params }: { params: { name: string } }) {
+  const auth = await authorize(req, "admin", params.name);
+  if (!auth.ok) return bad(auth.error, auth.status);
+  try {
+    const removed = await deleteProjectInfo(params.name);
+    if (!removed) return bad(`project not registered: ${params.name}`, 404);
+    return NextResponse.json({ ok: true });
+  } catch (e) {
+    return bad((e as Error).message || "delete failed", errorStatus(e, 500));
+  }
+}
+
+export async function OPTIONS() {
+  return NextResponse.json({ ok: true }, { status: 200 });
+}
@@ -1,19 +1,51 @@
 import { NextRequest, NextResponse } from "next/server";
+import { authorize, canAccessProject } from "@/lib/auth";
 import { getLatestDeployRecords } from "@/lib/db";
+import { bad, invalid, noStore } from "@/lib/http";
+import { findNameConflict, getProjectInfo, listProjectInfos, parseProjectPayload, saveProjectInfo } from "@/lib/projects";
+import { errorStatus } from "@/lib/store";
+import type { DeployRecord, ProjectInfo } from "@/lib/types";
 
 export const dynamic = "force-dynamic";
 export const revalidate = 0;
 
+// data 为项目名（有记录的与已登记的），registry 为登记信息
 export async function GET(req: NextRequest) {
   const { searchParams } = new URL(req.url);
+  const auth = await authorize(req, "read");
+  if (!auth.ok) return bad(auth.error, auth.status);
   const limit = Math.max(1, Math.min(1000, Number(searchParams.get("limit")) || 200));
-  const records = await getLatestDeployRecords(limit);
-  const projects = Array.from(new Set(records.map((r) => r.projectName))).sort();
-  const res = NextResponse.json({ data: projects });
-  res.headers.set("Cache-Control", "no-store, no-cache, must-revalidate, proxy-revalidate");
-  res.headers.set("Pragma", "no-cache");
-  res.headers.set("Expires", "0");
-  return res;
+  let records: DeployRecord[];
+  let registry: ProjectInfo[];
+  try {
+    records = await getLatestDeployRecords(limit);
+    registry = (await listProjectInfos()).filter((p) => canAccessProject(auth.principal, p.name));
+  } catch (e) {
+    // 存储出错时不能返回空列表，否则看起来像是没有项目
+    return bad((e as Error).message, errorStatus(e, 500));
+  }
+  const projects = Array.from(new Set([...records.map((r) => r.projectName), ...registry.map((p) => p.name)]))
+    .filter((p) => canAccessProject(auth.principal, p))
+    .sort();
+  return noStore(NextResponse.json({ data: projects, registry }));
 }
 
+// 登记项目：{ name, displayName?, aliases?, repoUrl?, compareUrl?, commitUrl?, owners?, environments?: [{ name, production }] }
+export async function POST(req: NextRequest) {
+  const auth = await authorize(req, "admin");
+  if (!auth.ok) return bad(auth.error, auth.status);
+  try {
+    const parsed = parseProjectPayload((await req.json()) as Record<string, unknown>);
+    if (!parsed.ok) return invalid(parsed);
+    if (await getProjectInfo(parsed.value.name)) return bad(`project already registered: ${parsed.value.name}`, 409);
+    const conflict = findNameConflict(await listProjectInfos(), parsed.value);
+    if (conflict) return bad(conflict, 409);
+    return NextResponse.json({ data: await saveProjectInfo(parsed.value) });
+  } catch (e) {
+    return bad((e as Error).message || "invalid json", errorStatus(e));
+  }
+}
 
+export async function OPTIONS() {
+  return NextResponse.json({ ok: true }, { status: 200 });
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { bad, invalid } from "@/lib/http";
+import { deleteRepoLink, getRepoLink, parseRepoLinkPayload, saveRepoLink } from "@/lib/repos";
+import { errorStatus } from "@/lib/store";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+// 整体替换模板
+export async function PUT(req: NextRequest, { params }: { params: { id: string } }) {
+  const auth = await authorize(req, "admin");
+  if (!auth.ok) return bad(auth.error, auth.status);
+  try {
+    if (!(await getRepoLink(params.id))) return bad(`repo link not found: ${params.id}`, 404);
+    const parsed = parseRepoLinkPayload((await req.json()) as Record<string, unknown>);
+    if (!parsed.ok) return invalid(parsed);
+    return NextResponse.json({ data: await saveRepoLink(parsed.value, params.id) });
+  } catch (e) {
+    return bad((e as Error).message || "invalid json", errorStatus(e));
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: { params: { id: string } }) {
+  const auth = await authorize(req, "admin");
+  if (!auth.ok) return bad(auth.error, auth.status);
+  try {
+    const removed = await deleteRepoLink(params.id);
+    if (!removed) return bad(`repo link not found: ${params.id}`, 404);
+    return NextResponse.json({ ok: true });
+  } catch (e) {
+    return bad((e as Error).message || "delete failed", errorStatus(e, 500));
+  }
+}
+
+export async function OPTIONS() {
+  return NextResponse.json({ ok: true }, { status: 200 });
+}
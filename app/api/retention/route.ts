@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { parseRetentionPayload } from "@/lib/contract";
+import { bad, invalid } from "@/lib/http";
+import { DEFAULT_RETENTION_DAYS, listRetentionPolicies, saveRetentionPolicy } from "@/lib/retention";
+import { errorStatus } from "@/lib/store";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+export async function GET(req: NextRequest) {
+  const auth = await authorize(req, "admin");
+  if (!auth.ok) return bad(auth.error, auth.status);
+  try {
+    return NextResponse.json({ data: await listRetentionPolicies(), defaultDays: DEFAULT_RETENTION_DAYS });
+  } catch (e) {
+    return bad((e as Error).message || "list failed", errorStatus(e, 500));
+  }
+}
+
+// 新建保留策略：{ name, projects?: ["shop"], environments?: ["prod*"], days: 365, archive?: true }
+// 对之后写入的记录生效；已有记录按新策略由 /api/retention/sweep 清理
+export async function POST(req: NextRequest) {
+  const auth = await authorize(req, "admin");
+  if (!auth.ok) return bad(auth.error, auth.status);
+  try {
+    const parsed = parseRetentionPayload((await req.json()) as Record<string, unknown>);
+    if (!parsed.ok) return invalid(parsed);
+    return NextResponse.json({ data: await saveRetentionPolicy(parsed.value) });
+  } catch (e) {
+    return bad((e as Error).message || "invalid json", errorStatus(e));
+  }
+}
+
+export async function OPTIONS() {
+  return NextResponse.json({ ok: true }, { status: 200 });
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { sweepExpiredRecords } from "@/lib/db";
+import { bad } from "@/lib/http";
+import { errorStatus } from "@/lib/store";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+// 按保留策略清理过期记录（需要归档的先写入归档快照）：{ dryRun? }，适合由定时任务每天调用
+// 清理范围是全部项目，authorize 不传项目时只接受项目范围为 * 的 admin 令牌
+export async function POST(req: NextRequest) {
+  const auth = await authorize(req, "admin");
+  if (!auth.ok) return bad(auth.error, auth.status);
+  let body: Record<string, unknown>;
+  try {
+    const text = await req.text();
+    body = (text ? JSON.parse(text) : {}) as Record<string, unknown>;
+  } catch {
+    return bad("invalid json");
+  }
+  try {
+    const result = await sweepExpiredRecords(body.dryRun === true);
+    return NextResponse.json({ ok: true, ...result });
+  } catch (e) {
+    return bad((e as Error).message || "sweep failed", errorStatus(e, 500));
+  }
+}
+
+export async function OPTIONS() {
+  return NextResponse.json({ ok: true }, { status: 200 });
+}
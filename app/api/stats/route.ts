@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize, scopeProjects } from "@/lib/auth";
+import { DEPLOY_STATS_PARAMS, parseSearchParams } from "@/lib/contract";
+import { bad, invalid, noStore } from "@/lib/http";
+import { computeDeployStats } from "@/lib/stats";
+import { errorStatus } from "@/lib/store";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_DAYS = 30;
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+// 部署统计：?days=7（默认 30）或 ?from=&to=，支持与 /api/deploy 相同的项目、环境筛选
+export async function GET(req: NextRequest) {
+  const { searchParams } = new URL(req.url);
+  const auth = await authorize(req, "read");
+  if (!auth.ok) return bad(auth.error, auth.status);
+
+  const params = parseSearchParams(DEPLOY_STATS_PARAMS, searchParams);
+  if (!params.ok) return invalid(params);
+  const { from, to } = params.value;
+  const days = params.value.days ?? DEFAULT_DAYS;
+  const toIso = to ?? new Date().toISOString();
+  const fromIso = from ?? new Date(new Date(toIso).getTime() - days * DAY_MS).toISOString();
+  if (fromIso > toIso) return bad("from must be earlier than to");
+
+  const projects = scopeProjects(auth.principal, params.value.projectName);
+  if (projects && projects.length === 0) return bad("no visible projects", 403);
+  try {
+    const data = await computeDeployStats({
+      projectNames: projects,
+      environments: params.value.environment,
+      from: fromIso,
+      to: toIso,
+    });
+    return noStore(NextResponse.json({ data }));
+  } catch (e) {
+    return bad((e as Error).message || "stats failed", errorStatus(e, 500));
+  }
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize, revokeToken } from "@/lib/auth";
+import { bad } from "@/lib/http";
+import { errorStatus } from "@/lib/store";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+// 吊销令牌
+export async function DELETE(req: NextRequest, { params }: { params: { id: string } }) {
+  const auth = await authorize(req, "admin");
+  if (!auth.ok) return bad(auth.error, auth.status);
+  try {
+    const data = await revokeToken(params.id);
+    if (!data) return bad(`token not found: ${params.id}`, 404);
+    return NextResponse.json({ data });
+  } catch (e) {
+    return bad((e as Error).message || "revoke failed", errorStatus(e, 500));
+  }
+}
+
+export async function OPTIONS() {
+  return NextResponse.json({ ok: true }, { status: 200 });
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize, createToken, exceedsPrincipal, listTokens } from "@/lib/auth";
+import { parseTokenPayload } from "@/lib/contract";
+import { bad, invalid, noStore } from "@/lib/http";
+import { errorStatus } from "@/lib/store";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+export async function GET(req: NextRequest) {
+  const auth = await authorize(req, "admin");
+  if (!auth.ok) return bad(auth.error, auth.status);
+  try {
+    const data = await listTokens();
+    return noStore(NextResponse.json({ data }));
+  } catch (e) {
+    return bad((e as Error).message || "list failed", errorStatus(e, 500));
+  }
+}
+
+// 创建令牌：{ name, projects: ["a", "b"] | ["*"], permissions: ["ingest", "read", "admin"] }
+// 明文令牌只在本次响应中返回
+export async function POST(req: NextRequest) {
+  const auth = await authorize(req, "admin");
+  if (!auth.ok) return bad(auth.error, auth.status);
+  try {
+    const parsed = parseTokenPayload((await req.json()) as Record<string, unknown>);
+    if (!parsed.ok) return invalid(parsed);
+    const payload = parsed.value;
+    const exceeded = exceedsPrincipal(auth.principal, payload);
+    if (exceeded) return bad(exceeded, 403);
+    const { token, data } = await createToken(payload);
+    return noStore(NextResponse.json({ token, data }));
+  } catch (e) {
+    return bad((e as Error).message || "invalid json", errorStatus(e));
+  }
+}
+
+export async function OPTIONS() {
+  return NextResponse.json({ ok: true }, { status: 200 });
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeUser } from "@/lib/auth";
+import { parseMarkReadPayload } from "@/lib/contract";
+import { bad, invalid } from "@/lib/http";
+import { errorStatus } from "@/lib/store";
+import { markRead, parseUserName, UserLimitError } from "@/lib/users";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+// 标为已读：{ projects?: ["shop"] }，不传 projects 时全部标为已读
+// 需要 ingest 权限或绑定了该用户的令牌
+export async function POST(req: NextRequest, { params }: { params: { name: string } }) {
+  const name = parseUserName(params.name);
+  if (!name.ok) return bad(name.error);
+  const auth = await authorizeUser(req, name.value);
+  if (!auth.ok) return bad(auth.error, auth.status);
+  let body: Record<string, unknown>;
+  try {
+    const text = await req.text();
+    body = (text ? JSON.parse(text) : {}) as Record<string, unknown>;
+  } catch {
+    return bad("invalid json");
+  }
+  const parsed = parseMarkReadPayload(body);
+  if (!parsed.ok) return invalid(parsed);
+  try {
+    return NextResponse.json({ data: await markRead(name.value, parsed.value.projects) });
+  } catch (e) {
+    if (e instanceof UserLimitError) return bad(e.message, 409);
+    return bad((e as Error).message || "update failed", errorStatus(e, 500));
+  }
+}
+
+export async function OPTIONS() {
+  return NextResponse.json({ ok: true }, { status: 200 });
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize, authorizeUser } from "@/lib/auth";
+import { parseSubscriptionPayload } from "@/lib/contract";
+import { bad, invalid } from "@/lib/http";
+import { errorStatus } from "@/lib/store";
+import { getUserState, parseUserName, saveSubscriptions, UserLimitError } from "@/lib/users";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+// 用户的订阅与已读位置：read 权限即可读取，改写需要 ingest 权限或绑定了该用户的令牌
+export async function GET(req: NextRequest, { params }: { params: { name: string } }) {
+  const auth = await authorize(req, "read");
+  if (!auth.ok) return bad(auth.error, auth.status);
+  const name = parseUserName(params.name);
+  if (!name.ok) return bad(name.error);
+  try {
+    const data = await getUserState(name.value);
+    if (!data) return bad(`user not found: ${name.value}`, 404);
+    return NextResponse.json({ data });
+  } catch (e) {
+    return bad((e as Error).message || "load failed", errorStatus(e, 500));
+  }
+}
+
+// 整体替换订阅：{ projects?: ["shop*"], environments?: ["prod"] }，为空表示全部；用户不存在时创建
+export async function PUT(req: NextRequest, { params }: { params: { name: string } }) {
+  const name = parseUserName(params.name);
+  if (!name.ok) return bad(name.error);
+  const auth = await authorizeUser(req, name.value);
+  if (!auth.ok) return bad(auth.error, auth.status);
+  try {
+    const parsed = parseSubscriptionPayload((await req.json()) as Record<string, unknown>);
+    if (!parsed.ok) return invalid(parsed);
+    return NextResponse.json({ data: await saveSubscriptions(name.value, parsed.value) });
+  } catch (e) {
+    if (e instanceof UserLimitError) return bad(e.message, 409);
+    return bad((e as Error).message || "invalid json", errorStatus(e));
+  }
+}
+
+export async function OPTIONS() {
+  return NextResponse.json({ ok: true }, { status: 200 });
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize, authorizeUser, scopeProjects } from "@/lib/auth";
+import { bad, noStore } from "@/lib/http";
+import { errorStatus } from "@/lib/store";
+import { countUnread, getUserState, markRead, parseUserName, UserLimitError } from "@/lib/users";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+// 按项目统计的未读数与最新一条未读记录，只统计令牌可见的项目
+// 用户不存在时创建（与改写一样需要 ingest 权限或绑定了该用户的令牌），此前的记录都算已读
+export async function GET(req: NextRequest, { params }: { params: { name: string } }) {
+  const auth = await authorize(req, "read");
+  if (!auth.ok) return bad(auth.error, auth.status);
+  const name = parseUserName(params.name);
+  if (!name.ok) return bad(name.error);
+  try {
+    let state = await getUserState(name.value);
+    if (!state) {
+      const owner = await authorizeUser(req, name.value);
+      if (!owner.ok) return bad(owner.error, owner.status);
+      state = await markRead(name.value);
+    }
+    const data = await countUnread(state, scopeProjects(auth.principal));
+    return noStore(NextResponse.json({ data, user: state }));
+  } catch (e) {
+    if (e instanceof UserLimitError) return bad(e.message, 409);
+    return bad((e as Error).message || "load failed", errorStatus(e, 500));
+  }
+}
+
+export async function OPTIONS() {
+  return NextResponse.json({ ok: true }, { status: 200 });
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize, isGlobalAdmin } from "@/lib/auth";
+import { parseWorkspacePayload } from "@/lib/contract";
+import { bad, invalid } from "@/lib/http";
+import { errorStatus } from "@/lib/store";
+import { createWorkspace, listWorkspaces } from "@/lib/workspaces";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+// 全部工作区，默认工作区在前；页面的工作区切换器使用
+export async function GET(req: NextRequest) {
+  const auth = await authorize(req, "read");
+  if (!auth.ok) return bad(auth.error, auth.status);
+  try {
+    return NextResponse.json({ data: await listWorkspaces() });
+  } catch (e) {
+    return bad((e as Error).message || "list failed", errorStatus(e, 500));
+  }
+}
+
+// 新建工作区：{ slug, name? }；工作区是全局数据，只接受环境变量中的管理员令牌
+export async function POST(req: NextRequest) {
+  const auth = await authorize(req, "admin");
+  if (!auth.ok) return bad(auth.error, auth.status);
+  if (!isGlobalAdmin(auth.principal)) return bad("creating workspaces requires DEPLOYLIST_ADMIN_TOKEN", 403);
+  let body: Record<string, unknown>;
+  try {
+    body = (await req.json()) as Record<string, unknown>;
+  } catch {
+    return bad("invalid json");
+  }
+  const parsed = parseWorkspacePayload(body);
+  if (!parsed.ok) return invalid(parsed);
+  try {
+    const workspace = await createWorkspace(parsed.value);
+    if (!workspace) return bad(`workspace already exists: ${parsed.value.slug}`, 409);
+    return NextResponse.json({ data: workspace });
+  } catch (e) {
+    return bad((e as Error).message || "create failed", errorStatus(e, 500));
+  }
+}
+
+export async function OPTIONS() {
+  return NextResponse.json({ ok: true }, { status: 200 });
+}
@@ -1,7 +1,6 @@
 import { redirect } from "next/navigation";
+import { DEFAULT_WORKSPACE } from "@/lib/contract";
 
 export default function Home() {
-  redirect("/youpik");
+  redirect(`/${DEFAULT_WORKSPACE}`);
 }
-
-
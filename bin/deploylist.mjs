@@ -0,0 +1,13 @@
+#!/usr/bin/env node
+// deploylist 命令行入口：实现在 lib/cli.ts，与页面共用 lib/client.ts 的类型化客户端
+// 运行前先编译：npm run build:cli（npm install 时由 prepare 自动执行），产物在 dist/cli
+import { existsSync } from "node:fs";
+import { fileURLToPath } from "node:url";
+
+const entry = new URL("../dist/cli/lib/cli.js", import.meta.url);
+if (!existsSync(fileURLToPath(entry))) {
+  process.stderr.write("[deploylist] CLI is not built: run `npm run build:cli` first\n");
+  process.exit(1);
+}
+const { runCli } = await import(entry.href);
+runCli(process.argv.slice(2));
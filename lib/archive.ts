@@ -0,0 +1,78 @@
+import { randomUUID } from "crypto";
+import { gunzipSync, gzipSync } from "zlib";
+import { getStore } from "@/lib/store";
+import type { DeployArchive, DeployFilter, DeployRecord } from "@/lib/types";
+
+// 归档快照：gzip 压缩的 NDJSON（每行一条记录，与导出接口的 ndjson 格式一致），可直接再导入
+// 元信息与内容分两个集合存放，列出快照时不必读出全部内容
+const ARCHIVE_COLLECTION = "archives";
+const ARCHIVE_DATA_COLLECTION = "archive_data";
+const ARCHIVE_CHUNK = 500; // 单个快照的记录数上限，避免单个文档过大
+
+function groupKey(record: DeployRecord): string {
+  return `${record.projectName}\u0000${record.environment}`;
+}
+
+// 按 项目 × 环境 分组写入快照，组内按部署时间正序；返回新建快照的元信息
+export async function archiveRecords(records: DeployRecord[]): Promise<DeployArchive[]> {
+  const store = getStore();
+  const groups = new Map<string, DeployRecord[]>();
+  for (const record of records) {
+    const list = groups.get(groupKey(record)) ?? [];
+    list.push(record);
+    groups.set(groupKey(record), list);
+  }
+
+  const created: DeployArchive[] = [];
+  for (const list of groups.values()) {
+    list.sort((a, b) => new Date(a.deployedAt).getTime() - new Date(b.deployedAt).getTime());
+    for (let i = 0; i < list.length; i += ARCHIVE_CHUNK) {
+      const chunk = list.slice(i, i + ARCHIVE_CHUNK);
+      const data = gzipSync(chunk.map((r) => JSON.stringify(r)).join("\n") + "\n");
+      const archive: DeployArchive = {
+        id: randomUUID(),
+        projectName: chunk[0].projectName,
+        environment: chunk[0].environment,
+        count: chunk.length,
+        from: chunk[0].deployedAt,
+        to: chunk[chunk.length - 1].deployedAt,
+        bytes: data.length,
+        createdAt: new Date().toISOString(),
+      };
+      // 先写内容再写元信息，中途失败不会留下读不出内容的快照
+      await store.putDoc(ARCHIVE_DATA_COLLECTION, archive.id, data.toString("base64"));
+      await store.putDoc(ARCHIVE_COLLECTION, archive.id, archive);
+      created.push(archive);
+    }
+  }
+  return created;
+}
+
+// 按项目、环境与时间区间（与快照的 from~to 有交集即命中）筛选，最新的在前
+export async function listArchives(filter: DeployFilter): Promise<DeployArchive[]> {
+  const archives = await getStore().listDocs<DeployArchive>(ARCHIVE_COLLECTION);
+  return archives
+    .filter((a) => !filter.projectNames || filter.projectNames.includes(a.projectName))
+    .filter((a) => !filter.environments || filter.environments.includes(a.environment))
+    .filter((a) => !filter.from || a.to >= filter.from)
+    .filter((a) => !filter.to || a.from <= filter.to)
+    .sort((a, b) => b.to.localeCompare(a.to));
+}
+
+export async function getArchive(id: string): Promise<DeployArchive | null> {
+  return getStore().getDoc<DeployArchive>(ARCHIVE_COLLECTION, id);
+}
+
+// 读取快照的压缩内容
+export async function readArchiveData(id: string): Promise<Buffer | null> {
+  const data = await getStore().getDoc<string>(ARCHIVE_DATA_COLLECTION, id);
+  return data ? Buffer.from(data, "base64") : null;
+}
+
+export function decodeArchive(data: Buffer): DeployRecord[] {
+  return gunzipSync(data)
+    .toString("utf8")
+    .split("\n")
+    .filter((line) => line.trim() !== "")
+    .map((line) => JSON.parse(line) as DeployRecord);
+}
@@ -0,0 +1,53 @@
+import type { ArtifactType, DeployArtifact } from "@/lib/types";
+
+// 从备注里识别构建产物：旧记录与不支持 artifacts 字段的上报方只会把下载链接写进 note
+
+export const ARTIFACT_LABELS: Record<ArtifactType, string> = {
+  pgyer: "蒲公英",
+  testflight: "TestFlight",
+  apk: "APK",
+  ipa: "IPA",
+  docker: "镜像",
+  link: "链接",
+};
+
+const URL_PATTERN = /https?:\/\/[^\s"'<>，。；）)]+/gi;
+const DOCKER_PATTERN = /(?:docker\s+pull|image\s*[:=])\s*([a-z0-9][\w.-]*(?::\d+)?(?:\/[\w.-]+)+(?::[\w.-]+|@sha256:[0-9a-f]{64})?)/gi;
+
+function fileName(url: URL): string {
+  return decodeURIComponent(url.pathname.split("/").pop() ?? "");
+}
+
+function classify(raw: string): DeployArtifact | null {
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    return null;
+  }
+  const host = url.hostname.toLowerCase();
+  const path = url.pathname.toLowerCase();
+  if (host === "pgyer.com" || host.endsWith(".pgyer.com")) {
+    return url.pathname.length > 1 ? { type: "pgyer", label: ARTIFACT_LABELS.pgyer, value: raw } : null;
+  }
+  if (host === "testflight.apple.com") return { type: "testflight", label: ARTIFACT_LABELS.testflight, value: raw };
+  if (path.endsWith(".apk")) return { type: "apk", label: fileName(url) || ARTIFACT_LABELS.apk, value: raw };
+  if (path.endsWith(".ipa")) return { type: "ipa", label: fileName(url) || ARTIFACT_LABELS.ipa, value: raw };
+  // 普通链接（流水线详情页等）不算产物
+  return null;
+}
+
+// 按出现顺序返回识别到的产物，同一地址只保留一次
+export function extractArtifacts(note: string | undefined): DeployArtifact[] {
+  if (!note) return [];
+  const found: DeployArtifact[] = [];
+  const seen = new Set<string>();
+  const add = (artifact: DeployArtifact | null) => {
+    if (!artifact || seen.has(artifact.value)) return;
+    seen.add(artifact.value);
+    found.push(artifact);
+  };
+  for (const match of note.matchAll(URL_PATTERN)) add(classify(match[0]));
+  for (const match of note.matchAll(DOCKER_PATTERN)) add({ type: "docker", label: ARTIFACT_LABELS.docker, value: match[1] });
+  return found;
+}
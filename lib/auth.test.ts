@@ -0,0 +1,38 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { authorizeUser, createToken } from "@/lib/auth";
+import { getStore } from "@/lib/store";
+
+function request(token?: string): Request {
+  return new Request("https://deploylist.example.com/api/users/alice", {
+    method: "PUT",
+    headers: token ? { authorization: `Bearer ${token}` } : {},
+  });
+}
+
+beforeEach(async () => {
+  await getStore().clear();
+  vi.stubEnv("DEPLOYLIST_ADMIN_TOKEN", "admin-token");
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("authorizeUser", () => {
+  it("requires a token even when reads are public", async () => {
+    expect(await authorizeUser(request(), "alice")).toMatchObject({ ok: false, status: 401 });
+  });
+
+  it("accepts ingest tokens for any user", async () => {
+    const { token } = await createToken({ name: "ci", projects: ["*"], permissions: ["ingest"] });
+    expect(await authorizeUser(request(token), "alice")).toMatchObject({ ok: true });
+  });
+
+  it("accepts a read token only for the user it is bound to", async () => {
+    const { token } = await createToken({ name: "alice", projects: ["*"], permissions: ["read"], user: "alice" });
+    expect(await authorizeUser(request(token), "alice")).toMatchObject({ ok: true, principal: { user: "alice" } });
+    expect(await authorizeUser(request(token), "bob")).toMatchObject({ ok: false, status: 403 });
+    const unbound = await createToken({ name: "viewer", projects: ["*"], permissions: ["read"] });
+    expect(await authorizeUser(request(unbound.token), "alice")).toMatchObject({ ok: false, status: 403 });
+  });
+});
@@ -0,0 +1,184 @@
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+import { TOKEN_PERMISSIONS } from "@/lib/contract";
+import { getStore, StoreError } from "@/lib/store";
+import type { ApiToken, CreateTokenPayload, TokenPermission } from "@/lib/types";
+import { currentWorkspace } from "@/lib/workspace";
+import { workspaceExists } from "@/lib/workspaces";
+
+// 鉴权开关：设置了 DEPLOYLIST_ADMIN_TOKEN 才启用；未设置时保持旧行为（全部放行）
+// 读接口默认公开，DEPLOYLIST_PUBLIC_READ=0 时同样需要 read 权限的令牌
+// 令牌按工作区存放，只在签发它的工作区内有效；环境变量中的管理员令牌对所有工作区有效
+
+const TOKEN_COLLECTION = "tokens";
+const TOKEN_PREFIX = "dl_";
+
+export interface Principal {
+  tokenId: string | null; // null 表示未启用鉴权或使用环境变量中的管理员令牌
+  projects: string[];
+  permissions: TokenPermission[];
+  user?: string; // 令牌绑定的用户名
+}
+
+export type AuthResult = { ok: true; principal: Principal } | { ok: false; status: 401 | 403 | 404 | 503; error: string };
+
+const OPEN_PRINCIPAL: Principal = { tokenId: null, projects: ["*"], permissions: [...TOKEN_PERMISSIONS] };
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+function sameHash(a: string, b: string): boolean {
+  const left = Buffer.from(a, "hex");
+  const right = Buffer.from(b, "hex");
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+export function isAuthEnabled(): boolean {
+  return Boolean(process.env.DEPLOYLIST_ADMIN_TOKEN);
+}
+
+function isPublicRead(): boolean {
+  return process.env.DEPLOYLIST_PUBLIC_READ !== "0";
+}
+
+// 依次读取 Authorization: Bearer、X-Deploylist-Token 与 ?token=（EventSource 无法设置请求头）
+function readToken(req: Request): string | null {
+  const header = req.headers.get("authorization") ?? "";
+  const match = /^Bearer\s+(.+)$/i.exec(header.trim());
+  if (match) return match[1].trim();
+  const custom = req.headers.get("x-deploylist-token");
+  if (custom) return custom.trim();
+  return new URL(req.url).searchParams.get("token");
+}
+
+async function resolvePrincipal(token: string): Promise<Principal | null> {
+  const admin = process.env.DEPLOYLIST_ADMIN_TOKEN;
+  if (admin && sameHash(hashToken(token), hashToken(admin))) return OPEN_PRINCIPAL;
+  // 令牌格式：dl_<id>_<secret>
+  const match = /^dl_([a-f0-9]+)_[A-Za-z0-9_-]+$/.exec(token);
+  if (!match) return null;
+  const stored = await getStore().getDoc<ApiToken>(TOKEN_COLLECTION, match[1]);
+  if (!stored || stored.revokedAt) return null;
+  if (!sameHash(hashToken(token), stored.tokenHash)) return null;
+  return { tokenId: stored.id, projects: stored.projects, permissions: stored.permissions, user: stored.user };
+}
+
+// 环境变量中的管理员令牌（或未启用鉴权）：可以管理工作区等全局数据
+export function isGlobalAdmin(principal: Principal): boolean {
+  return principal.tokenId === null && principal.permissions.includes("admin");
+}
+
+export function canAccessProject(principal: Principal, projectName: string): boolean {
+  return principal.projects.includes("*") || principal.projects.includes(projectName);
+}
+
+// 校验请求是否具备 permission；传入 projectName 时同时校验项目范围。admin 隐含其余权限
+// 不针对单个项目的 admin 操作（令牌、通知、保留策略等）只接受项目范围为 * 的令牌
+// 请求的工作区不存在时返回 404；读取工作区或令牌时存储出错返回 503，不当作令牌无效
+export async function authorize(req: Request, permission: TokenPermission, projectName?: string): Promise<AuthResult> {
+  return authorizeToken(readToken(req), permission, projectName);
+}
+
+// 同 authorize，令牌由调用方从请求中取出（如 CI webhook 的 X-Gitlab-Token）
+export async function authorizeToken(
+  token: string | null,
+  permission: TokenPermission,
+  projectName?: string,
+): Promise<AuthResult> {
+  try {
+    return await checkAccess(token, permission, projectName);
+  } catch (e) {
+    if (e instanceof StoreError) return { ok: false, status: 503, error: e.message };
+    throw e;
+  }
+}
+
+async function checkAccess(token: string | null, permission: TokenPermission, projectName?: string): Promise<AuthResult> {
+  const workspace = currentWorkspace();
+  if (!(await workspaceExists(workspace))) return { ok: false, status: 404, error: `workspace not found: ${workspace}` };
+  if (!isAuthEnabled()) return { ok: true, principal: OPEN_PRINCIPAL };
+  if (permission === "read" && isPublicRead()) return { ok: true, principal: OPEN_PRINCIPAL };
+
+  if (!token) return { ok: false, status: 401, error: "missing api token" };
+  const principal = await resolvePrincipal(token);
+  if (!principal) return { ok: false, status: 401, error: "invalid api token" };
+  if (!principal.permissions.includes("admin") && !principal.permissions.includes(permission)) {
+    return { ok: false, status: 403, error: `token lacks permission: ${permission}` };
+  }
+  if (projectName !== undefined && !canAccessProject(principal, projectName)) {
+    return { ok: false, status: 403, error: `token not allowed for project: ${projectName}` };
+  }
+  if (permission === "admin" && projectName === undefined && !principal.projects.includes("*")) {
+    return { ok: false, status: 403, error: "admin action requires a token scoped to all projects (*)" };
+  }
+  return { ok: true, principal };
+}
+
+// 改写用户的订阅与已读位置：需要 ingest 权限，或绑定了该用户的有效令牌；读接口公开时也不例外
+export async function authorizeUser(req: Request, name: string): Promise<AuthResult> {
+  const auth = await authorize(req, "ingest");
+  if (auth.ok || auth.status !== 403) return auth;
+  // 403 说明令牌有效但缺少 ingest 权限，再看它是否绑定了该用户
+  try {
+    const principal = await resolvePrincipal(readToken(req) ?? "");
+    if (principal?.user === name) return { ok: true, principal };
+  } catch (e) {
+    if (e instanceof StoreError) return { ok: false, status: 503, error: e.message };
+    throw e;
+  }
+  return { ok: false, status: 403, error: `token not bound to user: ${name}` };
+}
+
+// 签发令牌时新令牌的项目与权限不能超出签发者自己的范围；返回越权的说明，没有越权时返回 null
+export function exceedsPrincipal(principal: Principal, payload: CreateTokenPayload): string | null {
+  const project = payload.projects.find((p) => !canAccessProject(principal, p));
+  if (project !== undefined) return `token not allowed for project: ${project}`;
+  if (principal.permissions.includes("admin")) return null;
+  const permission = payload.permissions.find((p) => !principal.permissions.includes(p));
+  return permission !== undefined ? `token lacks permission: ${permission}` : null;
+}
+
+// 把请求的项目筛选收窄到令牌可见范围；返回空数组表示没有任何可见项目
+export function scopeProjects(principal: Principal, requested?: string[]): string[] | undefined {
+  if (principal.projects.includes("*")) return requested;
+  if (!requested || requested.length === 0) return [...principal.projects];
+  return requested.filter((p) => principal.projects.includes(p));
+}
+
+// 不含哈希的令牌信息，用于列表接口
+export type PublicToken = Omit<ApiToken, "tokenHash">;
+
+function toPublic({ tokenHash: _hash, ...rest }: ApiToken): PublicToken {
+  return rest;
+}
+
+export async function createToken(payload: CreateTokenPayload): Promise<{ token: string; data: PublicToken }> {
+  const id = randomBytes(6).toString("hex");
+  const token = `${TOKEN_PREFIX}${id}_${randomBytes(24).toString("base64url")}`;
+  const record: ApiToken = {
+    id,
+    name: payload.name,
+    tokenHash: hashToken(token),
+    projects: payload.projects,
+    permissions: payload.permissions,
+    ...(payload.user ? { user: payload.user } : {}),
+    createdAt: new Date().toISOString(),
+  };
+  await getStore().putDoc(TOKEN_COLLECTION, id, record);
+  return { token, data: toPublic(record) };
+}
+
+export async function listTokens(): Promise<PublicToken[]> {
+  const tokens = await getStore().listDocs<ApiToken>(TOKEN_COLLECTION);
+  return tokens.map(toPublic).sort((a, b) => (a.createdAt < b.createdAt ? 1 : -1));
+}
+
+// 吊销：保留记录以便审计，只标记 revokedAt
+export async function revokeToken(id: string): Promise<PublicToken | null> {
+  const store = getStore();
+  const stored = await store.getDoc<ApiToken>(TOKEN_COLLECTION, id);
+  if (!stored) return null;
+  const next: ApiToken = { ...stored, revokedAt: stored.revokedAt ?? new Date().toISOString() };
+  await store.putDoc(TOKEN_COLLECTION, id, next);
+  return toPublic(next);
+}
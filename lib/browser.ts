@@ -0,0 +1,23 @@
+import { createDeployClient } from "@/lib/client";
+import type { DeployClient } from "@/lib/client";
+
+// 浏览器端页面共用的请求工具
+
+const LS_TOKEN_KEY = "deploylist:token"; // 服务端关闭公开读取时，在此保存 read 令牌
+
+export function readToken(): string | null {
+  if (typeof window === "undefined") return null;
+  return window.localStorage.getItem(LS_TOKEN_KEY);
+}
+
+const clients = new Map<string, DeployClient>();
+
+// 同源 API 客户端，请求发往 /api/<workspace>/...，每次请求读取最新令牌
+export function workspaceApi(workspace: string): DeployClient {
+  let client = clients.get(workspace);
+  if (!client) {
+    client = createDeployClient({ token: readToken, workspace });
+    clients.set(workspace, client);
+  }
+  return client;
+}
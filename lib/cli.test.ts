@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { createTail } from "@/lib/cli";
+
+describe("createTail", () => {
+  it("keeps only the last lines and appends the exit summary", () => {
+    const tail = createTail(2);
+    tail.push(Buffer.from("one\ntwo\n"));
+    tail.push(Buffer.from("three\n"));
+    expect(tail.text("exit code 1")).toBe("two\nthree\nexit code 1");
+  });
+
+  it("strips terminal colors and turns progress carriage returns into lines", () => {
+    const tail = createTail(2);
+    tail.push(Buffer.from("\u001b[32mok\u001b[0m\r50%\r100%\n"));
+    expect(tail.text("")).toBe("50%\n100%");
+  });
+
+  it("truncates from the front to the note length limit", () => {
+    const tail = createTail(1);
+    tail.push(Buffer.from("x".repeat(5000)));
+    const note = tail.text("exit code 0") ?? "";
+    expect(note).toHaveLength(2000);
+    expect(note.startsWith("…")).toBe(true);
+    expect(note.endsWith("x\nexit code 0")).toBe(true);
+  });
+
+  it("attaches only the summary when no lines are kept", () => {
+    const tail = createTail(0);
+    tail.push(Buffer.from("noise\n"));
+    expect(tail.text("terminated by SIGINT")).toBe("terminated by SIGINT");
+    expect(createTail(0).text("")).toBeUndefined();
+  });
+});
@@ -0,0 +1,337 @@
+// deploylist 命令行：包裹部署命令并上报其生命周期（running → success / failed / canceled），或一次性上报一条记录
+// 请求经 lib/client.ts 的类型化客户端发出；npm run build:cli 编译到 dist/cli，bin/deploylist.mjs 只是入口
+// 编译产物由 Node 直接运行，tsc 不改写 @/lib 别名：运行时用到的导入写成带 .js 后缀的相对路径，只导入类型时照常用别名
+import { execFileSync, spawn } from "node:child_process";
+import { randomUUID } from "node:crypto";
+import { existsSync, readFileSync } from "node:fs";
+import { constants } from "node:os";
+import { dirname, join, resolve } from "node:path";
+import { parseArgs } from "node:util";
+import type { DeployClient } from "@/lib/client";
+import type { CreateDeployPayload, DeployRecord, DeployStatus, DeployVerdict } from "@/lib/types";
+import { createDeployClient, DeployApiError } from "./client.js";
+
+const CONFIG_FILE = ".deploylistrc.json";
+const STATUSES: DeployStatus[] = ["success", "failed", "running", "canceled"];
+const NOTE_MAX = 2000; // 与 lib/contract.ts 中 note 的长度上限一致
+const DEFAULT_TAIL_LINES = 30;
+const TAIL_BUFFER = 64 * 1024; // 只保留最近的输出，避免长时间部署占满内存
+const REQUEST_TIMEOUT_MS = 10_000;
+
+const USAGE = `Usage:
+  deploylist run [options] -- <command> [args...]   run a deploy command and report its lifecycle
+  deploylist report --status <status> [options]     report a single record
+
+Options:
+  -c, --config <file>       config file (default: nearest ${CONFIG_FILE})
+      --server <url>        server URL              (env DEPLOYLIST_SERVER)
+      --token <token>       API token with ingest   (env DEPLOYLIST_TOKEN)
+  -w, --workspace <slug>    workspace               (env DEPLOYLIST_WORKSPACE; default: youpik)
+  -p, --project <name>      project name            (env DEPLOYLIST_PROJECT)
+  -e, --environment <name>  environment             (env DEPLOYLIST_ENVIRONMENT)
+  -t, --title <text>        record title (default: "<project> → <environment>")
+      --branch <name>       override detected branch
+      --commit <text>       override detected commit message
+      --revision <sha>      override detected commit SHA
+      --version <name>      release version (default: tag of a tag pipeline or of HEAD)
+      --operator <name>     override detected author
+  -s, --status <status>     report only: ${STATUSES.join(" | ")}
+      --note <text>         report only: note
+      --external-id <id>    idempotency key (run: default cli:<uuid>)
+      --tail <lines>        run only: output lines attached as note (default ${DEFAULT_TAIL_LINES})
+      --force               run only: run even inside a freeze window or an environment locked by someone else
+      --strict              run only: exit non-zero when reporting fails
+  -h, --help
+
+A run inside a deploy freeze or an environment locked by someone else is reported
+as canceled without running the command and exits with code 3.
+
+Config file (JSON): { "server", "workspace", "project", "environment", "title", "tail" }
+Keep the token in DEPLOYLIST_TOKEN rather than in the config file.`;
+
+const OPTIONS = {
+  config: { type: "string", short: "c" },
+  server: { type: "string" },
+  token: { type: "string" },
+  workspace: { type: "string", short: "w" },
+  project: { type: "string", short: "p" },
+  environment: { type: "string", short: "e" },
+  title: { type: "string", short: "t" },
+  branch: { type: "string" },
+  commit: { type: "string" },
+  revision: { type: "string" },
+  version: { type: "string" },
+  operator: { type: "string" },
+  status: { type: "string", short: "s" },
+  note: { type: "string" },
+  "external-id": { type: "string" },
+  tail: { type: "string" },
+  strict: { type: "boolean" },
+  force: { type: "boolean" },
+  help: { type: "boolean", short: "h" },
+} as const;
+
+type CliValues = ReturnType<typeof parseArgs<{ options: typeof OPTIONS; allowPositionals: true }>>["values"];
+
+interface CliConfig {
+  server?: string;
+  workspace?: string;
+  project?: string;
+  environment?: string;
+  title?: string;
+  tail?: number | string;
+  token?: string;
+}
+
+interface Settings {
+  client: DeployClient;
+  tail: number;
+  strict: boolean;
+  force: boolean;
+  payload: Omit<CreateDeployPayload, "status">;
+}
+
+type DeployResult = { data: DeployRecord; created: boolean; verdict: DeployVerdict };
+
+function log(message: string): void {
+  process.stderr.write(`[deploylist] ${message}\n`);
+}
+
+class UsageError extends Error {}
+
+// 从当前目录向上查找配置文件
+function findConfig(start: string): string | null {
+  let dir = resolve(start);
+  for (;;) {
+    const file = join(dir, CONFIG_FILE);
+    if (existsSync(file)) return file;
+    const parent = dirname(dir);
+    if (parent === dir) return null;
+    dir = parent;
+  }
+}
+
+function loadConfig(path: string | undefined): CliConfig {
+  const file = path ?? process.env.DEPLOYLIST_CONFIG ?? findConfig(process.cwd());
+  if (!file) return {};
+  try {
+    return JSON.parse(readFileSync(file, "utf8")) as CliConfig;
+  } catch (e) {
+    throw new UsageError(`cannot read config ${file}: ${(e as Error).message}`);
+  }
+}
+
+function git(...args: string[]): string {
+  try {
+    return execFileSync("git", args, { encoding: "utf8", stdio: ["ignore", "pipe", "ignore"] }).trim();
+  } catch {
+    return "";
+  }
+}
+
+// 分支：优先 CI 变量（CI 中常为 detached HEAD），其次本地仓库
+function detectBranch(): string {
+  const env = process.env;
+  const fromCi = env.GITHUB_HEAD_REF || env.GITHUB_REF_NAME || env.CI_COMMIT_REF_NAME || env.BRANCH_NAME || env.GIT_BRANCH;
+  if (fromCi) return fromCi.replace(/^origin\//, "");
+  const local = git("rev-parse", "--abbrev-ref", "HEAD");
+  return local && local !== "HEAD" ? local : "unknown";
+}
+
+// 提交记录：与 webhook 接入一致，取提交信息首行，拿不到时退回短 sha
+function detectCommit(): string {
+  const env = process.env;
+  const subject = git("log", "-1", "--format=%s") || env.CI_COMMIT_TITLE;
+  if (subject) return subject;
+  const sha = git("rev-parse", "HEAD") || env.GITHUB_SHA || env.CI_COMMIT_SHA || env.GIT_COMMIT || "";
+  return sha.slice(0, 8) || "unknown";
+}
+
+// 提交 SHA：用于在详情页生成与上次部署的对比链接
+function detectRevision(): string | undefined {
+  const env = process.env;
+  return git("rev-parse", "HEAD") || env.GITHUB_SHA || env.CI_COMMIT_SHA || env.GIT_COMMIT || undefined;
+}
+
+// 版本：只有标签构建才能确定版本号，其余情况留空
+function detectVersion(): string | undefined {
+  const env = process.env;
+  const fromCi = env.CI_COMMIT_TAG || (env.GITHUB_REF_TYPE === "tag" ? env.GITHUB_REF_NAME : "") || env.TAG_NAME;
+  return fromCi || git("describe", "--tags", "--exact-match", "HEAD") || undefined;
+}
+
+function detectOperator(): string {
+  const env = process.env;
+  return env.GITLAB_USER_NAME || env.GITHUB_ACTOR || env.BUILD_USER || git("log", "-1", "--format=%an") || env.USER || "unknown";
+}
+
+// 参数优先级：命令行 > 环境变量 > 配置文件
+function resolveSettings(values: CliValues): Settings {
+  const config = loadConfig(values.config);
+  const env = process.env;
+  const server = values.server || env.DEPLOYLIST_SERVER || config.server;
+  const workspace = values.workspace || env.DEPLOYLIST_WORKSPACE || config.workspace;
+  const project = values.project || env.DEPLOYLIST_PROJECT || config.project;
+  const environment = values.environment || env.DEPLOYLIST_ENVIRONMENT || config.environment;
+  if (!server) throw new UsageError("missing server: use --server, DEPLOYLIST_SERVER or config.server");
+  if (!project) throw new UsageError("missing project: use --project, DEPLOYLIST_PROJECT or config.project");
+  if (!environment) throw new UsageError("missing environment: use --environment, DEPLOYLIST_ENVIRONMENT or config.environment");
+  const tail = Number(values.tail ?? config.tail ?? DEFAULT_TAIL_LINES);
+  if (!Number.isInteger(tail) || tail < 0) throw new UsageError(`invalid --tail: ${values.tail ?? config.tail}`);
+  return {
+    client: createDeployClient({
+      baseUrl: server,
+      token: values.token || env.DEPLOYLIST_TOKEN || config.token,
+      workspace, // 未指定时为默认工作区
+      fetch: (input, init) => fetch(input, { ...init, signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) }),
+    }),
+    tail,
+    strict: Boolean(values.strict),
+    force: Boolean(values.force),
+    payload: {
+      title: values.title || config.title || `${project} → ${environment}`,
+      projectName: project,
+      operator: values.operator || detectOperator(),
+      environment,
+      branch: values.branch || detectBranch(),
+      commit: values.commit || detectCommit(),
+      revision: values.revision || detectRevision(),
+      version: values.version || detectVersion(),
+    },
+  };
+}
+
+// 带 externalId 的重复提交只会更新同一条记录
+async function postDeploy(settings: Settings, payload: CreateDeployPayload): Promise<DeployResult> {
+  try {
+    return await settings.client.createDeploy(payload);
+  } catch (e) {
+    if (e instanceof DeployApiError) throw new Error(`POST /api/deploy ${e.status}: ${e.message}`);
+    throw e;
+  }
+}
+
+// 封版与环境锁的判定说明，每条一行
+function describeViolations(verdict: DeployVerdict | undefined): string[] {
+  return (verdict?.violations ?? []).map((v) =>
+    v.type === "freeze"
+      ? `deploy freeze until ${v.to}: ${v.reason}`
+      : `environment locked by ${v.holder} until ${v.expiresAt}${v.reason ? `: ${v.reason}` : ""}`,
+  );
+}
+
+// 去掉终端颜色控制符，只保留最后 lines 行，并截断到 note 长度上限
+export function createTail(lines: number) {
+  let buffer = "";
+  return {
+    push(chunk: Buffer) {
+      buffer = (buffer + chunk.toString("utf8")).slice(-TAIL_BUFFER);
+    },
+    text(extra: string): string | undefined {
+      // eslint-disable-next-line no-control-regex
+      const clean = buffer.replace(/\u001b\[[0-9;?]*[A-Za-z]/g, "").replace(/\r(?!\n)/g, "\n");
+      const kept = lines > 0 ? clean.trimEnd().split("\n").slice(-lines).join("\n") : "";
+      const note = [kept, extra].filter(Boolean).join("\n");
+      return note.length > NOTE_MAX ? `…${note.slice(-(NOTE_MAX - 1))}` : note || undefined;
+    },
+  };
+}
+
+async function runCommand(settings: Settings, command: string[], externalId: string): Promise<void> {
+  if (command.length === 0) throw new UsageError("missing command: deploylist run -- <command> [args...]");
+  const reportAs = async (status: DeployStatus, note?: string): Promise<DeployResult | null> => {
+    try {
+      return await postDeploy(settings, { ...settings.payload, status, note, externalId });
+    } catch (e) {
+      log(`report ${status} failed: ${(e as Error).message}`);
+      if (settings.strict) process.exitCode = 1;
+      return null;
+    }
+  };
+
+  const started = await reportAs("running");
+  if (started) log(`reported running: ${started.data.id}`);
+  const violations = describeViolations(started?.verdict);
+  for (const line of violations) log(line);
+  if (violations.length > 0 && !settings.force) {
+    // 不执行部署命令，记录标记为取消；--force 时照常执行
+    await reportAs("canceled", `aborted: ${violations.join("; ")}`);
+    log("aborted: use --force to deploy anyway");
+    process.exitCode = 3;
+    return;
+  }
+
+  const tail = createTail(settings.tail);
+  const child = spawn(command[0], command.slice(1), { stdio: ["inherit", "pipe", "pipe"] });
+  child.stdout.on("data", (chunk: Buffer) => {
+    process.stdout.write(chunk);
+    tail.push(chunk);
+  });
+  child.stderr.on("data", (chunk: Buffer) => {
+    process.stderr.write(chunk);
+    tail.push(chunk);
+  });
+
+  // 收到中断信号时转发给子进程，并按 canceled 上报
+  let interrupted: NodeJS.Signals | null = null;
+  const forward = (signal: NodeJS.Signals) => {
+    interrupted = signal;
+    child.kill(signal);
+  };
+  const signals: NodeJS.Signals[] = ["SIGINT", "SIGTERM", "SIGHUP"];
+  for (const signal of signals) process.on(signal, forward);
+
+  const result = await new Promise<{ code: number | null; signal: NodeJS.Signals | null; error: Error | null }>((done) => {
+    child.on("error", (error) => done({ code: 127, signal: null, error }));
+    child.on("close", (code, signal) => done({ code, signal, error: null }));
+  });
+  for (const signal of signals) process.off(signal, forward);
+
+  const signal = result.signal ?? interrupted;
+  const status: DeployStatus = signal ? "canceled" : result.code === 0 ? "success" : "failed";
+  const summary = result.error
+    ? `failed to start: ${result.error.message}`
+    : signal
+      ? `terminated by ${signal}`
+      : `exit code ${result.code}`;
+  const finished = await reportAs(status, tail.text(summary));
+  if (finished) log(`reported ${status}: ${finished.data.id}`);
+
+  const exitCode = signal ? 128 + (constants.signals[signal] ?? 1) : result.code ?? 1;
+  if (exitCode !== 0) process.exitCode = exitCode;
+}
+
+async function reportOnce(settings: Settings, values: CliValues): Promise<void> {
+  const status = values.status as DeployStatus;
+  if (!STATUSES.includes(status)) throw new UsageError(`invalid --status: ${values.status} (expected ${STATUSES.join(", ")})`);
+  const { data: record, verdict } = await postDeploy(settings, {
+    ...settings.payload,
+    status,
+    note: values.note,
+    externalId: values["external-id"],
+  });
+  log(`reported ${record.status}: ${record.id}`);
+  for (const line of describeViolations(verdict)) log(`flagged: ${line}`);
+}
+
+async function main(args: string[]): Promise<void> {
+  const { values, positionals } = parseArgs({ args, options: OPTIONS, allowPositionals: true });
+  const [mode, ...command] = positionals;
+  if (values.help || !mode) {
+    process.stdout.write(`${USAGE}\n`);
+    return;
+  }
+  if (mode !== "run" && mode !== "report") throw new UsageError(`unknown command: ${mode}`);
+  const settings = resolveSettings(values);
+  if (mode === "run") await runCommand(settings, command, values["external-id"] || `cli:${randomUUID()}`);
+  else await reportOnce(settings, values);
+}
+
+// 退出码：用法错误 2，其余错误 1；部署命令自身的退出码由 runCommand 设置
+export function runCli(args: string[]): void {
+  main(args).catch((e: Error) => {
+    log(e.message);
+    if (e instanceof UsageError) process.stderr.write(`\n${USAGE}\n`);
+    process.exitCode = e instanceof UsageError ? 2 : 1;
+  });
+}
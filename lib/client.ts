@@ -0,0 +1,177 @@
+import type {
+  CreateDeployPayload,
+  CurrentDeployParams,
+  DeployDetail,
+  DeployListParams,
+  DeployPage,
+  DeployRecord,
+  DeployRollbackResult,
+  DeploySearchParams,
+  DeploySearchResult,
+  DeployStats,
+  DeployStatsParams,
+  DeployVerdict,
+  EnvironmentLock,
+  FreezeWindow,
+  ProjectInfo,
+  RollbackPayload,
+  UnreadSummary,
+  UpdateDeployPayload,
+  UserState,
+  UserSubscriptions,
+  Workspace,
+} from "@/lib/types";
+import type { FieldError } from "@/lib/schema";
+
+// 类型化的 API 客户端：浏览器页面与流水线脚本共用，请求/响应类型与 lib/contract.ts 保持一致
+
+export class DeployApiError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+    readonly fields: FieldError[] = [],
+  ) {
+    super(message);
+    this.name = "DeployApiError";
+  }
+}
+
+export interface DeployClientOptions {
+  baseUrl?: string; // 浏览器内留空即同源，脚本中传 https://deploy.example.com
+  token?: string | null | (() => string | null); // 传函数时每次请求前读取，便于页面中途更换令牌
+  workspace?: string; // 工作区 slug，请求发往 /api/<slug>/...；留空为默认工作区
+  fetch?: typeof fetch;
+}
+
+type QueryValue = string | number | string[] | undefined;
+
+function toSearch(params: Record<string, QueryValue> = {}): string {
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value === undefined) continue;
+    for (const item of Array.isArray(value) ? value : [value]) search.append(key, String(item));
+  }
+  const text = search.toString();
+  return text ? `?${text}` : "";
+}
+
+export function createDeployClient(options: DeployClientOptions = {}) {
+  const baseUrl = (options.baseUrl ?? "").replace(/\/+$/, "");
+  const doFetch = options.fetch ?? ((input: RequestInfo | URL, init?: RequestInit) => fetch(input, init));
+
+  // 工作区列表是全局接口，不加工作区前缀
+  const scoped = (path: string) =>
+    options.workspace && !path.startsWith("/api/workspaces") ? `/api/${encodeURIComponent(options.workspace)}${path.slice(4)}` : path;
+
+  async function request<T>(method: string, path: string, body?: unknown, headers: Record<string, string> = {}): Promise<T> {
+    const token = typeof options.token === "function" ? options.token() : options.token;
+    const res = await doFetch(`${baseUrl}${scoped(path)}`, {
+      method,
+      cache: "no-store",
+      headers: {
+        ...(body !== undefined ? { "Content-Type": "application/json" } : {}),
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        ...headers,
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+    const data = await res.json().catch(() => null);
+    if (!res.ok) {
+      const err = data as { error?: string; fields?: FieldError[] } | null;
+      throw new DeployApiError(res.status, err?.error || `${method} ${path} failed: ${res.status}`, err?.fields);
+    }
+    return data as T;
+  }
+
+  return {
+    listDeploys(params: DeployListParams = {}): Promise<DeployPage> {
+      return request("GET", `/api/deploy${toSearch({ ...params })}`);
+    },
+    search(params: DeploySearchParams): Promise<DeploySearchResult> {
+      return request("GET", `/api/deploy/search${toSearch({ ...params })}`);
+    },
+    // 带 externalId（或 idempotencyKey）时重复调用是安全的，created 表示是否新建
+    // verdict.allowed 为 false 时命中了封版或他人的环境锁，调用方应中止部署
+    createDeploy(
+      payload: CreateDeployPayload,
+      idempotencyKey?: string,
+    ): Promise<{ data: DeployRecord; created: boolean; verdict: DeployVerdict }> {
+      return request("POST", "/api/deploy", payload, idempotencyKey ? { "Idempotency-Key": idempotencyKey } : {});
+    },
+    // id 可以是记录 id 或 externalId
+    getDeploy(id: string): Promise<DeployDetail> {
+      return request("GET", `/api/deploy/${encodeURIComponent(id)}`);
+    },
+    // id 可以是记录 id 或 externalId
+    async updateDeploy(id: string, patch: UpdateDeployPayload): Promise<DeployRecord> {
+      const res = await request<{ data: DeployRecord }>("PATCH", `/api/deploy/${encodeURIComponent(id)}`, patch);
+      return res.data;
+    },
+    // 回滚 id 这次部署，缺省回滚到它之前最近一次没有被回滚过的成功部署
+    rollbackDeploy(id: string, payload: RollbackPayload): Promise<DeployRollbackResult> {
+      return request("POST", `/api/deploy/${encodeURIComponent(id)}/rollback`, payload);
+    },
+    async currentDeployments(params: CurrentDeployParams = {}): Promise<DeployRecord[]> {
+      const res = await request<{ data: DeployRecord[] }>("GET", `/api/deploy/current${toSearch({ ...params })}`);
+      return res.data;
+    },
+    async knownGoodDeployments(params: CurrentDeployParams = {}): Promise<DeployRecord[]> {
+      const res = await request<{ data: DeployRecord[] }>("GET", `/api/deploy/known-good${toSearch({ ...params })}`);
+      return res.data;
+    },
+    // active 为 true 时只返回正在生效或尚未开始的封版窗口
+    async freezeWindows(active = false): Promise<FreezeWindow[]> {
+      const res = await request<{ data: FreezeWindow[] }>("GET", `/api/freezes${active ? "?active=1" : ""}`);
+      return res.data;
+    },
+    async environmentLocks(): Promise<EnvironmentLock[]> {
+      const res = await request<{ data: EnvironmentLock[] }>("GET", "/api/locks");
+      return res.data;
+    },
+    // 占用人相同时为续期；被他人占用时抛出 409 的 DeployApiError
+    claimEnvironmentLock(input: {
+      projectName: string;
+      environment: string;
+      holder: string;
+      reason?: string;
+      minutes?: number;
+    }): Promise<{ data: EnvironmentLock; created: boolean }> {
+      return request("POST", "/api/locks", input);
+    },
+    async releaseEnvironmentLock(id: string): Promise<void> {
+      await request("DELETE", `/api/locks/${encodeURIComponent(id)}`);
+    },
+    async stats(params: DeployStatsParams = {}): Promise<DeployStats> {
+      const res = await request<{ data: DeployStats }>("GET", `/api/stats${toSearch({ ...params })}`);
+      return res.data;
+    },
+    async projects(): Promise<string[]> {
+      const res = await request<{ data: string[] }>("GET", "/api/projects");
+      return res.data;
+    },
+    // 已登记项目的显示名、负责人与环境定义
+    async projectRegistry(): Promise<ProjectInfo[]> {
+      const res = await request<{ registry: ProjectInfo[] }>("GET", "/api/projects");
+      return res.registry;
+    },
+    // 未读数：用户不存在时服务端创建，此前的记录都算已读
+    unread(user: string): Promise<{ data: UnreadSummary; user: UserState }> {
+      return request("GET", `/api/users/${encodeURIComponent(user)}/unread`);
+    },
+    // 不传 projects 时全部标为已读
+    async markRead(user: string, projects?: string[]): Promise<UserState> {
+      const res = await request<{ data: UserState }>("POST", `/api/users/${encodeURIComponent(user)}/read`, projects ? { projects } : {});
+      return res.data;
+    },
+    async saveSubscriptions(user: string, subscriptions: UserSubscriptions): Promise<UserState> {
+      const res = await request<{ data: UserState }>("PUT", `/api/users/${encodeURIComponent(user)}`, subscriptions);
+      return res.data;
+    },
+    async workspaces(): Promise<Workspace[]> {
+      const res = await request<{ data: Workspace[] }>("GET", "/api/workspaces");
+      return res.data;
+    },
+  };
+}
+
+export type DeployClient = ReturnType<typeof createDeployClient>;
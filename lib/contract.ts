@@ -0,0 +1,428 @@
+import { readSearchParams, validateObject } from "@/lib/schema";
+import type { ObjectSchema, Validated } from "@/lib/schema";
+import type {
+  ArchiveDownloadParams,
+  ArtifactType,
+  ClaimLockPayload,
+  CleanPayload,
+  CreateDeployPayload,
+  CreateFreezePayload,
+  CreateTokenPayload,
+  CreateWorkspacePayload,
+  CurrentDeployParams,
+  DeployArtifact,
+  DeployExportParams,
+  DeployFilterParams,
+  DeployListParams,
+  DeploySearchParams,
+  DeployStatsParams,
+  DeployStatus,
+  FreezeWindow,
+  MarkReadPayload,
+  ImportDeployPayload,
+  NotifyChannelPayload,
+  NotifyChannelType,
+  NotifyRulePayload,
+  ProjectInfoPayload,
+  RepoLinkPayload,
+  RetentionPolicyPayload,
+  RollbackPayload,
+  TokenPermission,
+  TransferFormat,
+  UpdateDeployPayload,
+  UserSubscriptions,
+} from "@/lib/types";
+
+// API 契约：请求体与查询参数的唯一定义，路由校验、OpenAPI 文档与 lib/client.ts 共用
+
+export const DEPLOY_STATUSES: DeployStatus[] = ["success", "failed", "running", "canceled"];
+export const TRANSFER_FORMATS: TransferFormat[] = ["csv", "json", "ndjson"];
+export const MAX_EXTERNAL_ID = 200;
+export const MAX_LIST_LIMIT = 100;
+export const MAX_STATS_DAYS = 365;
+export const ARTIFACT_TYPES: ArtifactType[] = ["pgyer", "testflight", "apk", "ipa", "docker", "link"];
+export const MAX_ARTIFACTS = 20;
+export const TOKEN_PERMISSIONS: TokenPermission[] = ["ingest", "read", "admin"];
+export const CHANNEL_TYPES: NotifyChannelType[] = ["bark", "webhook", "dingtalk", "feishu", "wecom"];
+export const MAX_PATTERNS = 100; // 项目、环境等名称列表的条数上限
+export const MAX_USER_NAME = 50;
+export const MAX_RETENTION_DAYS = 3650;
+export const DEFAULT_LOCK_MINUTES = 120;
+export const MAX_LOCK_MINUTES = 7 * 24 * 60;
+
+// 工作区：页面 /<slug>，接口 /api/<slug>/...；不带工作区前缀的旧接口地址属于默认工作区
+export const DEFAULT_WORKSPACE = "youpik";
+export const WORKSPACE_HEADER = "x-deploylist-workspace"; // middleware 改写 /api/<slug>/... 时写入，路由内由 lib/workspace.ts 读取
+export const WORKSPACE_SLUG_PATTERN = /^[a-z0-9](?:[a-z0-9-]{0,38}[a-z0-9])?$/;
+// app/api 下的顶级路由，middleware 据此区分 /api/<slug>/...；新增顶级路由时需同步追加，它们也不能用作 slug
+export const API_ROUTES = [
+  "archives",
+  "bark",
+  "clean",
+  "deploy",
+  "freezes",
+  "health",
+  "ingest",
+  "locks",
+  "metrics",
+  "migrations",
+  "notify",
+  "openapi.json",
+  "projects",
+  "repos",
+  "retention",
+  "stats",
+  "tokens",
+  "users",
+  "workspaces",
+];
+
+export const ARTIFACT_SCHEMA: ObjectSchema<DeployArtifact> = {
+  type: { type: "enum", required: true, values: ARTIFACT_TYPES, description: "产物类型" },
+  label: { type: "string", required: true, maxLength: 100, description: "显示名称" },
+  value: {
+    type: "string",
+    required: true,
+    maxLength: 1000,
+    description: "下载地址（http/https）；docker 为镜像引用，如 registry.example.com/app:1.2.3",
+  },
+};
+
+const ARTIFACTS_FIELD = {
+  type: "objects",
+  item: ARTIFACT_SCHEMA,
+  maxItems: MAX_ARTIFACTS,
+  description: "构建产物：安装包、镜像或下载页；未提供时从 note 中识别",
+} as const;
+
+export const CREATE_DEPLOY_SCHEMA: ObjectSchema<CreateDeployPayload> = {
+  title: { type: "string", required: true, maxLength: 200, description: "部署标题" },
+  projectName: { type: "string", required: true, maxLength: 100, description: "唯一项目名" },
+  operator: { type: "string", required: true, maxLength: 100, description: "运行人" },
+  environment: { type: "string", required: true, maxLength: 50, description: "部署环境" },
+  branch: { type: "string", required: true, maxLength: 200, description: "代码分支" },
+  commit: { type: "string", required: true, maxLength: 100, description: "代码提交记录" },
+  revision: { type: "string", maxLength: 64, description: "提交 SHA，用于生成与上次部署的对比链接" },
+  version: { type: "string", maxLength: 100, description: "版本号或标签，如 v1.2.3" },
+  rollbackOf: { type: "string", maxLength: 100, description: "本次是回滚时，被回滚的那次部署的记录 id" },
+  note: { type: "string", maxLength: 2000, description: "备注" },
+  deployedAt: { type: "datetime", description: "部署时间，缺省为服务器当前时间" },
+  status: { type: "enum", required: true, values: DEPLOY_STATUSES, description: "部署状态" },
+  externalId: {
+    type: "string",
+    maxLength: MAX_EXTERNAL_ID,
+    description: "幂等键，同一键只对应一条记录；也可用 Idempotency-Key 请求头",
+  },
+  artifacts: ARTIFACTS_FIELD,
+};
+
+export const UPDATE_DEPLOY_SCHEMA: ObjectSchema<UpdateDeployPayload> = {
+  status: { type: "enum", values: DEPLOY_STATUSES, description: "新的部署状态" },
+  note: CREATE_DEPLOY_SCHEMA.note,
+  finishedAt: { type: "datetime", description: "结束时间，缺省为服务器当前时间" },
+  artifacts: { ...ARTIFACTS_FIELD, description: "构建产物，整体替换已有产物" },
+};
+
+// 项目名与环境名列表，支持 * 通配
+const PROJECT_PATTERNS = { type: "strings", maxItems: MAX_PATTERNS, maxLength: 100, description: "项目名，支持 * 通配" } as const;
+const ENVIRONMENT_PATTERNS = { type: "strings", maxItems: MAX_PATTERNS, maxLength: 50, description: "环境名，支持 * 通配" } as const;
+
+export const TOKEN_SCHEMA: ObjectSchema<CreateTokenPayload> = {
+  name: { type: "string", required: true, maxLength: 100, description: "令牌名称" },
+  projects: { ...PROJECT_PATTERNS, required: true, description: "可操作的项目，[\"*\"] 表示全部" },
+  permissions: {
+    type: "strings",
+    required: true,
+    maxItems: 3,
+    maxLength: 10,
+    values: TOKEN_PERMISSIONS,
+    description: "权限；admin 隐含其余权限",
+  },
+  user: { type: "string", maxLength: MAX_USER_NAME, description: "绑定的用户名：持有该令牌可以改写这个用户的订阅与已读位置" },
+};
+
+export const CLEAN_SCHEMA: ObjectSchema<CleanPayload> = {
+  projects: { ...PROJECT_PATTERNS, description: "只清理这些项目（精确匹配）" },
+  environments: { ...ENVIRONMENT_PATTERNS, description: "只清理这些环境（精确匹配）" },
+  before: { type: "datetime", description: "只清理早于该时间部署的记录" },
+  ids: { type: "strings", maxItems: 1000, maxLength: 100, description: "只清理这些记录" },
+  all: { type: "boolean", description: "为 true 时清空全部记录，忽略其余范围" },
+  dryRun: { type: "boolean", description: "为 true 时只统计，不删除" },
+};
+
+export const NOTIFY_CHANNEL_SCHEMA: ObjectSchema<NotifyChannelPayload> = {
+  name: { type: "string", required: true, maxLength: 100, description: "渠道名称" },
+  type: { type: "enum", required: true, values: CHANNEL_TYPES, description: "渠道类型" },
+  url: {
+    type: "string",
+    required: true,
+    maxLength: 1000,
+    format: "url",
+    description: "bark 为 https://api.day.app/<key>/，其余为 webhook 地址",
+  },
+  secret: { type: "string", maxLength: 200, description: "webhook 的 HMAC 密钥，或钉钉/飞书机器人的加签密钥" },
+  template: {
+    type: "object",
+    item: {
+      title: {
+        type: "string",
+        required: true,
+        maxLength: 200,
+        description: "标题模板，支持 {{projectName}} {{environment}} {{status}} 等占位符",
+      },
+      body: { type: "string", required: true, maxLength: 2000, description: "正文模板，占位符同上" },
+    },
+    description: "自定义消息模板，缺省使用内置模板",
+  },
+  enabled: { type: "boolean", default: true, description: "是否启用" },
+};
+
+export const NOTIFY_RULE_SCHEMA: ObjectSchema<NotifyRulePayload> = {
+  name: { type: "string", required: true, maxLength: 100, description: "规则名称" },
+  projects: { ...PROJECT_PATTERNS, default: ["*"] },
+  environments: { ...ENVIRONMENT_PATTERNS, default: ["*"] },
+  statuses: {
+    type: "strings",
+    maxItems: 4,
+    maxLength: 10,
+    values: DEPLOY_STATUSES,
+    default: [],
+    description: "匹配的部署状态，为空表示任意状态",
+  },
+  events: {
+    type: "strings",
+    maxItems: 2,
+    maxLength: 10,
+    values: ["deploy", "update"],
+    default: ["deploy", "update"],
+    description: "deploy：新记录；update：状态变更",
+  },
+  channelIds: { type: "strings", required: true, maxItems: 20, maxLength: 100, description: "发送到的渠道 id" },
+  enabled: { type: "boolean", default: true, description: "是否启用" },
+};
+
+// 占位符 {project} {from} {to} {sha} 的检查在 lib/repos.ts 的 parseRepoLinkPayload 中
+export const REPO_LINK_SCHEMA: ObjectSchema<RepoLinkPayload> = {
+  name: { type: "string", required: true, maxLength: 100, description: "名称" },
+  projects: { ...PROJECT_PATTERNS, default: ["*"], description: "适用的项目名模式，支持 * 通配，越具体越优先" },
+  compareUrl: {
+    type: "string",
+    required: true,
+    maxLength: 500,
+    format: "url",
+    description: "对比链接模板，需包含 {from} 与 {to}，如 https://git.example.com/{project}/-/compare/{from}...{to}",
+  },
+  commitUrl: { type: "string", maxLength: 500, format: "url", description: "提交链接模板，需包含 {sha}" },
+};
+
+export const RETENTION_SCHEMA: ObjectSchema<RetentionPolicyPayload> = {
+  name: { type: "string", required: true, maxLength: 100, description: "策略名称" },
+  projects: { ...PROJECT_PATTERNS, default: ["*"] },
+  environments: { ...ENVIRONMENT_PATTERNS, default: ["*"] },
+  days: { type: "integer", required: true, min: 1, max: MAX_RETENTION_DAYS, description: "记录保留天数，从 deployedAt 起算" },
+  archive: { type: "boolean", default: false, description: "为 true 时删除前归档为压缩的 NDJSON 快照" },
+};
+
+export const ROLLBACK_SCHEMA: ObjectSchema<RollbackPayload> = {
+  operator: CREATE_DEPLOY_SCHEMA.operator,
+  to: { type: "string", maxLength: 100, description: "回滚目标的记录 id；缺省为被回滚记录之前最近一次没有被回滚过的成功部署" },
+  status: { ...CREATE_DEPLOY_SCHEMA.status, required: false, description: "回滚记录的状态，缺省 success" },
+  title: { ...CREATE_DEPLOY_SCHEMA.title, required: false, description: "缺省为“回滚：<目标记录标题>”" },
+  note: CREATE_DEPLOY_SCHEMA.note,
+  externalId: CREATE_DEPLOY_SCHEMA.externalId,
+};
+
+export const FREEZE_SCHEMA: ObjectSchema<CreateFreezePayload> = {
+  projects: { ...PROJECT_PATTERNS, default: ["*"] },
+  environments: { ...ENVIRONMENT_PATTERNS, default: ["*"] },
+  from: { type: "datetime", description: "开始时间，缺省为现在" },
+  to: { type: "datetime", required: true, description: "结束时间，须晚于 from" },
+  reason: { type: "string", required: true, maxLength: 500, description: "封版原因，显示在页面横幅中" },
+};
+
+export const LOCK_SCHEMA: ObjectSchema<ClaimLockPayload> = {
+  projectName: { type: "string", required: true, maxLength: 100, description: "项目名" },
+  environment: { type: "string", required: true, maxLength: 50, description: "环境名" },
+  holder: { type: "string", required: true, maxLength: 100, description: "占用人，与部署记录的 operator 比较（不区分大小写）" },
+  reason: { type: "string", maxLength: 500, description: "占用原因" },
+  minutes: { type: "integer", min: 1, max: MAX_LOCK_MINUTES, default: DEFAULT_LOCK_MINUTES, description: "占用时长（分钟）" },
+};
+
+// 环境也可写成字符串，由 lib/projects.ts 的 parseProjectPayload 换成 { name }；占位符与重复环境的检查也在那里
+export const PROJECT_SCHEMA: ObjectSchema<ProjectInfoPayload> = {
+  name: { type: "string", required: true, maxLength: 100, description: "记录中的 projectName" },
+  displayName: { type: "string", maxLength: 100, description: "页面显示名称" },
+  aliases: { type: "strings", maxItems: MAX_PATTERNS, maxLength: 100, default: [], description: "上报时可用的其他项目名，写入时换成 name" },
+  repoUrl: { type: "string", maxLength: 500, format: "url", description: "仓库地址" },
+  compareUrl: { type: "string", maxLength: 500, format: "url", description: "提交对比链接模板，需包含 {from} 与 {to}，覆盖 /api/repos 的配置" },
+  commitUrl: { type: "string", maxLength: 500, format: "url", description: "提交链接模板，需包含 {sha}" },
+  owners: { type: "strings", maxItems: 50, maxLength: 100, default: [], description: "负责人" },
+  environments: {
+    type: "objects",
+    maxItems: 50,
+    item: {
+      name: { type: "string", required: true, maxLength: 50, description: "环境名" },
+      production: { type: "boolean", default: false, description: "是否为生产环境" },
+    },
+    default: [],
+    description: "允许的环境，为空表示不限制；可写成 [\"test\", { \"name\": \"prod\", \"production\": true }]",
+  },
+};
+
+export const WORKSPACE_SCHEMA: ObjectSchema<CreateWorkspacePayload> = {
+  slug: { type: "string", required: true, maxLength: 40, description: "小写字母、数字与连字符，用于页面与接口地址" },
+  name: { type: "string", maxLength: 100, description: "显示名称，缺省为 slug" },
+};
+
+export const SUBSCRIPTION_SCHEMA: ObjectSchema<UserSubscriptions> = {
+  projects: { ...PROJECT_PATTERNS, default: [], description: "订阅的项目名模式，支持 *，为空表示全部" },
+  environments: { ...ENVIRONMENT_PATTERNS, default: [], description: "订阅的环境名模式，支持 *，为空表示全部" },
+};
+
+export const MARK_READ_SCHEMA: ObjectSchema<MarkReadPayload> = {
+  projects: { type: "strings", maxItems: MAX_PATTERNS, maxLength: 100, description: "只把这些项目标为已读，不传时全部标为已读" },
+};
+
+// 批量导入的一行；history 为嵌套数组，由 lib/transfer.ts 单独校验
+export const IMPORT_DEPLOY_SCHEMA: ObjectSchema<Omit<ImportDeployPayload, "history">> = {
+  ...CREATE_DEPLOY_SCHEMA,
+  id: { type: "string", maxLength: 100, description: "原记录 id，缺省时生成新 id" },
+  finishedAt: UPDATE_DEPLOY_SCHEMA.finishedAt,
+};
+
+export const DEPLOY_FILTER_PARAMS: ObjectSchema<DeployFilterParams> = {
+  projectName: { type: "list", plural: "projects", maxLength: 100, description: "按项目筛选" },
+  environment: { type: "list", plural: "environments", maxLength: 50, description: "按环境筛选" },
+  from: { type: "datetime", description: "部署时间下界（含），ISO 或毫秒时间戳" },
+  to: { type: "datetime", description: "部署时间上界（含），ISO 或毫秒时间戳" },
+};
+
+export const DEPLOY_LIST_PARAMS: ObjectSchema<DeployListParams> = {
+  ...DEPLOY_FILTER_PARAMS,
+  limit: { type: "integer", min: 1, max: MAX_LIST_LIMIT, description: "每页条数，默认 20" },
+  cursor: { type: "string", maxLength: 500, description: "上一页返回的 nextCursor" },
+};
+
+export const DEPLOY_SEARCH_PARAMS: ObjectSchema<DeploySearchParams> = {
+  ...DEPLOY_FILTER_PARAMS,
+  q: {
+    type: "string",
+    required: true,
+    maxLength: 500,
+    description: '检索语句：空格分隔的条件同时满足，支持 "短语" 与 operator: branch: status: project: env: commit: version: note: title: 前缀',
+  },
+  limit: { type: "integer", min: 1, max: MAX_LIST_LIMIT, description: "返回条数，默认 50" },
+};
+
+export const DEPLOY_EXPORT_PARAMS: ObjectSchema<DeployExportParams> = {
+  ...DEPLOY_FILTER_PARAMS,
+  format: { type: "enum", values: TRANSFER_FORMATS, description: "导出格式，默认 json" },
+};
+
+export const ARCHIVE_DOWNLOAD_PARAMS: ObjectSchema<ArchiveDownloadParams> = {
+  format: { type: "enum", values: [...TRANSFER_FORMATS, "gzip"], description: "下载格式，默认 ndjson；gzip 为原始压缩快照" },
+};
+
+export const DEPLOY_STATS_PARAMS: ObjectSchema<DeployStatsParams> = {
+  ...DEPLOY_FILTER_PARAMS,
+  days: { type: "integer", min: 1, max: MAX_STATS_DAYS, description: "统计最近多少天，默认 30；与 from/to 二选一" },
+};
+
+export const CURRENT_DEPLOY_PARAMS: ObjectSchema<CurrentDeployParams> = {
+  projectName: DEPLOY_FILTER_PARAMS.projectName,
+  environment: DEPLOY_FILTER_PARAMS.environment,
+};
+
+// 下载地址只接受 http(s)，页面会把它渲染成链接与二维码
+export function checkArtifacts<T extends { artifacts?: DeployArtifact[] }>(result: Validated<T>): Validated<T> {
+  if (!result.ok) return result;
+  const fields = (result.value.artifacts ?? []).flatMap((artifact, i) =>
+    artifact.type !== "docker" && !/^https?:\/\/\S+$/i.test(artifact.value)
+      ? [{ field: `artifacts[${i}].value`, message: `invalid artifacts[${i}].value: expected an http(s) URL` }]
+      : [],
+  );
+  return fields.length > 0 ? { ok: false, error: fields.map((f) => f.message).join("; "), fields } : result;
+}
+
+export function parseDeployPayload(body: Record<string, unknown>): Validated<CreateDeployPayload> {
+  return checkArtifacts(validateObject(CREATE_DEPLOY_SCHEMA, body));
+}
+
+export function parseUpdatePayload(body: Record<string, unknown>): Validated<UpdateDeployPayload> {
+  return checkArtifacts(validateObject(UPDATE_DEPLOY_SCHEMA, body));
+}
+
+export function parseTokenPayload(body: Record<string, unknown>): Validated<CreateTokenPayload> {
+  return validateObject(TOKEN_SCHEMA, body);
+}
+
+// 兼容单数写法 projectName / environment；至少指定一个范围，清空全部必须显式传 all: true
+export function parseCleanPayload(body: Record<string, unknown>): Validated<CleanPayload> {
+  const result = validateObject(CLEAN_SCHEMA, {
+    ...body,
+    projects: body.projects ?? body.projectName,
+    environments: body.environments ?? body.environment,
+  });
+  if (!result.ok) return result;
+  const { all, projects, environments, ids, before } = result.value;
+  if (!all && !projects?.length && !environments?.length && !ids?.length && !before) {
+    const message = "missing scope: projects, environments, before, ids or all";
+    return { ok: false, error: message, fields: [{ field: "projects", message }] };
+  }
+  return result;
+}
+
+export function parseChannelPayload(body: Record<string, unknown>): Validated<NotifyChannelPayload> {
+  return validateObject(NOTIFY_CHANNEL_SCHEMA, body);
+}
+
+export function parseRulePayload(body: Record<string, unknown>): Validated<NotifyRulePayload> {
+  return validateObject(NOTIFY_RULE_SCHEMA, body);
+}
+
+export function parseRetentionPayload(body: Record<string, unknown>): Validated<RetentionPolicyPayload> {
+  return validateObject(RETENTION_SCHEMA, body);
+}
+
+export function parseRollbackPayload(body: Record<string, unknown>): Validated<RollbackPayload> {
+  return validateObject(ROLLBACK_SCHEMA, body);
+}
+
+// from 缺省为现在，to 须晚于 from
+export function parseFreezePayload(body: Record<string, unknown>): Validated<Omit<FreezeWindow, "id" | "createdAt">> {
+  const result = validateObject(FREEZE_SCHEMA, body);
+  if (!result.ok) return result;
+  const { from = new Date().toISOString(), ...rest } = result.value;
+  if (rest.to <= from) {
+    const message = "invalid to: must be later than from";
+    return { ok: false, error: message, fields: [{ field: "to", message }] };
+  }
+  return { ok: true, value: { ...rest, from } };
+}
+
+export function parseLockPayload(body: Record<string, unknown>): Validated<ClaimLockPayload> {
+  return validateObject(LOCK_SCHEMA, body);
+}
+
+export function parseWorkspacePayload(body: Record<string, unknown>): Validated<CreateWorkspacePayload> {
+  const result = validateObject(WORKSPACE_SCHEMA, body);
+  if (!result.ok) return result;
+  const { slug } = result.value;
+  if (!WORKSPACE_SLUG_PATTERN.test(slug) || API_ROUTES.includes(slug) || slug === "api") {
+    const message = `invalid slug: ${slug} (lowercase letters, digits and dashes; not a reserved api route name)`;
+    return { ok: false, error: message, fields: [{ field: "slug", message }] };
+  }
+  return result;
+}
+
+export function parseSubscriptionPayload(body: Record<string, unknown>): Validated<UserSubscriptions> {
+  return validateObject(SUBSCRIPTION_SCHEMA, body);
+}
+
+export function parseMarkReadPayload(body: Record<string, unknown>): Validated<MarkReadPayload> {
+  return validateObject(MARK_READ_SCHEMA, body);
+}
+
+export function parseSearchParams<T>(schema: ObjectSchema<T>, searchParams: URLSearchParams): Validated<T> {
+  return validateObject(schema, readSearchParams(schema, searchParams));
+}
@@ -0,0 +1,166 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  addDeployRecord,
+  decodeCursor,
+  encodeCursor,
+  importDeployRecord,
+  InvalidCursorError,
+  queryDeployRecords,
+  sweepExpiredRecords,
+  updateDeployRecord,
+} from "@/lib/db";
+import { deleteRetentionPolicy, listRetentionPolicies, saveRetentionPolicy } from "@/lib/retention";
+import { getStore } from "@/lib/store";
+import type { DeployRecord } from "@/lib/types";
+
+// 使用内存存储（见 vitest.config.ts），每个用例前清空
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function seedRecord(fields: Partial<DeployRecord> = {}): DeployRecord {
+  const deployedAt = new Date(Date.now() - HOUR_MS).toISOString();
+  return {
+    id: "r1",
+    title: "release",
+    projectName: "shop",
+    operator: "ci",
+    environment: "prod",
+    branch: "main",
+    commit: "fix checkout",
+    deployedAt,
+    status: "running",
+    history: [{ status: "running", at: deployedAt }],
+    ...fields,
+  };
+}
+
+async function seed(fields: Partial<DeployRecord> = {}): Promise<DeployRecord> {
+  const record = seedRecord(fields);
+  await getStore().putRecord(record, HOUR_MS * 24);
+  return record;
+}
+
+beforeEach(async () => {
+  await getStore().clear();
+});
+
+describe("updateDeployRecord", () => {
+  it("records finishedAt, duration and history when a running deploy finishes", async () => {
+    const record = await seed();
+    const finishedAt = new Date(new Date(record.deployedAt).getTime() + 90_000).toISOString();
+    const next = await updateDeployRecord(record.id, { status: "success", finishedAt });
+    expect(next?.status).toBe("success");
+    expect(next?.finishedAt).toBe(finishedAt);
+    expect(next?.durationMs).toBe(90_000);
+    expect(next?.history?.map((h) => [h.status, h.at])).toEqual([
+      ["running", record.deployedAt],
+      ["success", finishedAt],
+    ]);
+    expect((await getStore().getRecord(record.id))?.status).toBe("success");
+  });
+
+  it("clears the finish time when a deploy is moved back to running", async () => {
+    const record = await seed();
+    await updateDeployRecord(record.id, { status: "failed" });
+    const next = await updateDeployRecord(record.id, { status: "running" });
+    expect(next?.finishedAt).toBeUndefined();
+    expect(next?.durationMs).toBeUndefined();
+    expect(next?.history).toHaveLength(3);
+  });
+
+  it("keeps the status when only the note changes", async () => {
+    const record = await seed();
+    const next = await updateDeployRecord(record.id, { note: "waiting for approval" });
+    expect(next?.status).toBe("running");
+    expect(next?.note).toBe("waiting for approval");
+    expect(next?.finishedAt).toBeUndefined();
+  });
+
+  it("returns null for an unknown record", async () => {
+    expect(await updateDeployRecord("missing", { status: "success" })).toBeNull();
+  });
+});
+
+describe("addDeployRecord with externalId", () => {
+  const payload = { title: "release", projectName: "shop", operator: "ci", environment: "prod", branch: "main", commit: "abc", externalId: "gh:1" };
+
+  it("returns the existing record for a repeated externalId", async () => {
+    const first = await addDeployRecord({ ...payload, status: "running" });
+    const again = await addDeployRecord({ ...payload, status: "running" });
+    expect(again.created).toBe(false);
+    expect(again.record.id).toBe(first.record.id);
+  });
+
+  it("ignores a late running event for a finished deploy", async () => {
+    const first = await addDeployRecord({ ...payload, status: "running" });
+    const done = await addDeployRecord({ ...payload, status: "success" });
+    expect(done.record.status).toBe("success");
+    const late = await addDeployRecord({ ...payload, status: "running", note: "retried delivery" });
+    expect(late.record.id).toBe(first.record.id);
+    expect(late.record.status).toBe("success");
+    expect(late.record.finishedAt).toBe(done.record.finishedAt);
+    expect(late.record.durationMs).toBe(done.record.durationMs);
+  });
+});
+
+describe("retention", () => {
+  const payload = { title: "release", projectName: "shop", operator: "ci", environment: "prod", branch: "main", commit: "abc", status: "success" as const };
+  const DAY_MS = 24 * HOUR_MS;
+
+  afterEach(async () => {
+    for (const policy of await listRetentionPolicies()) await deleteRetentionPolicy(policy.id);
+  });
+
+  it("does not expire records whose policy requires archiving", async () => {
+    await saveRetentionPolicy({ name: "keep", projects: ["shop"], environments: ["*"], days: 30, archive: true });
+    const { record } = await addDeployRecord(payload);
+    expect(record.expiresAt).toBeNull();
+  });
+
+  it("restarts the retention period for imported rows that are already past it", async () => {
+    await saveRetentionPolicy({ name: "short", projects: ["*"], environments: ["*"], days: 1, archive: false });
+    const deployedAt = new Date(Date.now() - 10 * DAY_MS).toISOString();
+    const saved = await importDeployRecord({ ...payload, deployedAt });
+    expect(saved.ok).toBe(true);
+    if (!saved.ok) return;
+    expect(saved.value.restoredAt).toBe(saved.value.createdAt);
+    expect(Date.parse(saved.value.expiresAt ?? "")).toBe(Date.parse(saved.value.createdAt ?? "") + DAY_MS);
+    expect((await sweepExpiredRecords(false)).expired).toBe(0);
+  });
+
+  it("rewrites only records whose expiry differs from the current policy", async () => {
+    await addDeployRecord(payload);
+    await addDeployRecord({ ...payload, projectName: "billing" });
+    expect((await sweepExpiredRecords(false)).reapplied).toBe(0);
+    await saveRetentionPolicy({ name: "shop", projects: ["shop"], environments: ["*"], days: 90, archive: false });
+    expect((await sweepExpiredRecords(false)).reapplied).toBe(1);
+    expect((await sweepExpiredRecords(false)).reapplied).toBe(0);
+  });
+});
+
+describe("cursors", () => {
+  it("round-trips the deploy time and id of the last record", () => {
+    const record = seedRecord({ id: "a:b", deployedAt: "2024-05-01T08:00:00.000Z" });
+    expect(decodeCursor(encodeCursor(record))).toEqual({ score: Date.parse("2024-05-01T08:00:00.000Z"), id: "a:b" });
+  });
+
+  it("rejects cursors that were not issued by the server", () => {
+    expect(() => decodeCursor("not-a-cursor")).toThrow(InvalidCursorError);
+    expect(() => decodeCursor(Buffer.from("12:").toString("base64url"))).toThrow(InvalidCursorError);
+    expect(() => decodeCursor(Buffer.from("x:r1").toString("base64url"))).toThrow(InvalidCursorError);
+  });
+
+  it("pages through records deployed in the same millisecond without gaps or repeats", async () => {
+    const deployedAt = new Date(Date.now() - 2 * HOUR_MS).toISOString();
+    for (const id of ["r1", "r2", "r3", "r4", "r5"]) await seed({ id, deployedAt });
+    await seed({ id: "r0", deployedAt: new Date(Date.now() - HOUR_MS).toISOString() });
+    const seen: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await queryDeployRecords({ limit: 2, cursor });
+      seen.push(...page.data.map((r) => r.id));
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+    expect(seen).toEqual(["r0", "r5", "r4", "r3", "r2", "r1"]);
+  });
+});
@@ -1,33 +1,44 @@
-import { redis, DEPLOY_KEY, PROJECT_SET_KEY, DEPLOY_ZSET_KEY, DEPLOY_RECORD_PREFIX } from "@/lib/redis";
 import { randomUUID } from "crypto";
-import type { CreateDeployPayload, DeployRecord } from "@/lib/types";
-// 仅使用 Redis（无文件/内存兜底）
+import { archiveRecords } from "@/lib/archive";
+import { extractArtifacts } from "@/lib/artifacts";
+import { publishDeployEvent } from "@/lib/events";
+import { checkDeployViolations } from "@/lib/freeze";
+import { countDeploy } from "@/lib/metrics";
+import { triggerDeployNotifications } from "@/lib/notify";
+import { listRetentionPolicies, pickRetention, resolveRetention, retentionExpiry, retentionMs } from "@/lib/retention";
+import type { ResolvedRetention } from "@/lib/retention";
+import { matchesSearch } from "@/lib/search";
+import type { SearchQuery } from "@/lib/search";
+import { getStore } from "@/lib/store";
+import type { StoreKind } from "@/lib/store";
+import type {
+  CleanResult,
+  CleanScope,
+  CreateDeployPayload,
+  DeployArtifact,
+  DeployFilter,
+  DeployPage,
+  DeployQuery,
+  DeployRecord,
+  DeploySearchResult,
+  ImportDeployPayload,
+  Parsed,
+  RollbackPayload,
+  SweepResult,
+  UpdateDeployPayload,
+} from "@/lib/types";
+// 具体存储由 lib/store 按 DEPLOYLIST_STORE 选择（redis / file / memory）
 
-const MAX_ITEMS = 200; // 存储上限，页面只取最近20
+const MAX_ITEMS = 200; // 断线补发时回看的条数上限
+const SCAN_BATCH = 100; // 从存储分批读取的批大小
+const MAX_SEARCH_CANDIDATES = 2000; // 单次检索最多校验的候选记录数
 
-// 文件/内存持久化相关逻辑已删除
-const THIRTY_DAYS_MS = 30 * 24 * 60 * 60 * 1000;
-
-function coerceRecord(raw: unknown): DeployRecord | null {
-  try {
-    if (raw == null) return null;
-    if (typeof raw === "string") {
-      const parsed = JSON.parse(raw) as Partial<DeployRecord>;
-      if (parsed && parsed.id && parsed.deployedAt) return parsed as DeployRecord;
-      return null;
-    }
-    if (typeof raw === "object") {
-      const obj = raw as Partial<DeployRecord>;
-      if (obj && obj.id && obj.deployedAt) return obj as DeployRecord;
-      return null;
-    }
-    return null;
-  } catch {
-    return null;
-  }
+// 未显式提供产物时从备注中识别；都没有则不写该字段
+function resolveArtifacts(artifacts: DeployArtifact[] | undefined, note: string | undefined): DeployArtifact[] | undefined {
+  const list = artifacts ?? extractArtifacts(note);
+  return list.length > 0 ? list : undefined;
 }
 
-
 function resolveDeployedAt(input?: string): string {
   const raw = (input ?? "").trim();
   if (!raw) return new Date().toISOString();
@@ -36,108 +47,462 @@ function resolveDeployedAt(input?: string): string {
   return dt.toISOString();
 }
 
-export async function addDeployRecord(payload: CreateDeployPayload): Promise<DeployRecord> {
-  if (!redis) {
-    throw new Error("Redis 未配置：请设置 UPSTASH_REDIS_REST_URL 与 UPSTASH_REDIS_REST_TOKEN");
+// 同一 externalId 的重复提交：状态或备注有变化时按状态变更处理，否则原样返回已有记录
+// 已结束的记录不会退回 running：CI 重试投递或乱序到达的 running 回调晚于结束回调时只忽略其状态
+async function applyRepeatedPayload(existing: DeployRecord, payload: CreateDeployPayload): Promise<DeployRecord> {
+  const patch: UpdateDeployPayload = {};
+  const reopened = existing.status !== "running" && payload.status === "running";
+  if (payload.status !== existing.status && !reopened) patch.status = payload.status;
+  if (payload.note !== undefined && payload.note !== existing.note) patch.note = payload.note;
+  if (payload.artifacts !== undefined && JSON.stringify(payload.artifacts) !== JSON.stringify(existing.artifacts)) {
+    patch.artifacts = payload.artifacts;
   }
+  if (patch.status === undefined && patch.note === undefined && patch.artifacts === undefined) return existing;
+  return (await updateDeployRecord(existing.id, patch)) ?? existing;
+}
+
+// 新建记录；带 externalId 且已存在对应记录时不再新建，created 为 false
+// 落在封版窗口内或环境被他人锁定的记录照常写入，带上 violations 标记
+export async function addDeployRecord(payload: CreateDeployPayload): Promise<{ record: DeployRecord; created: boolean }> {
+  const store = getStore();
+  if (payload.externalId) {
+    const existing = await getDeployRecordByExternalId(payload.externalId);
+    if (existing) return { record: await applyRepeatedPayload(existing, payload), created: false };
+  }
+
+  const deployedAt = resolveDeployedAt(payload.deployedAt);
   const record: DeployRecord = {
     id: randomUUID(),
     ...payload,
-    deployedAt: resolveDeployedAt(payload.deployedAt),
+    deployedAt,
+    createdAt: new Date().toISOString(),
+    history: [{ status: payload.status, at: deployedAt, note: payload.note }],
   };
+  const artifacts = resolveArtifacts(payload.artifacts, payload.note);
+  if (artifacts) record.artifacts = artifacts;
+  const violations = await checkDeployViolations(record);
+  if (violations.length > 0) record.violations = violations;
+  const ttlMs = applyRetention(record, await resolveRetention(record.projectName, record.environment));
+  if (payload.externalId) {
+    // 先占住映射，并发重试时只有一个请求能新建记录
+    const claimed = await store.linkExternalId(payload.externalId, record.id, ttlMs, true);
+    if (!claimed) {
+      const existing = await getDeployRecordByExternalId(payload.externalId);
+      if (existing) return { record: await applyRepeatedPayload(existing, payload), created: false };
+      // 映射指向的记录已被清理，改为指向新记录
+      await store.linkExternalId(payload.externalId, record.id, ttlMs, false);
+    }
+  }
+  await store.putRecord(record, ttlMs);
+  countDeploy(record);
+  publishDeployEvent("deploy", record);
+  await triggerDeployNotifications("deploy", record);
+  return { record, created: true };
+}
 
-  // 新：按单条键 + ZSET 排序索引，并设置30天过期
-  const key = `${DEPLOY_RECORD_PREFIX}${record.id}`;
-  const score = new Date(record.deployedAt).getTime();
-  await redis.set(key, JSON.stringify(record), { ex: Math.floor(THIRTY_DAYS_MS / 1000) });
-  await redis.zadd(DEPLOY_ZSET_KEY, { score, member: record.id });
-  // 移除超过30天的索引
-  await redis.zremrangebyscore(DEPLOY_ZSET_KEY, 0, score - THIRTY_DAYS_MS - 1);
-  // 兼容：旧 List 保留写入以便之前页面还能读取（可选）
-  await redis.lpush(DEPLOY_KEY, JSON.stringify(record));
-  await redis.ltrim(DEPLOY_KEY, 0, MAX_ITEMS - 1);
-  // 同步项目集合，供 /api/projects 读取
-  await redis.sadd(PROJECT_SET_KEY, record.projectName);
+// 保留期的起点：一般为 deployedAt，写入时已超出保留期的记录为 restoredAt
+function retentionStart(record: DeployRecord): number {
+  return new Date(record.restoredAt ?? record.deployedAt).getTime();
+}
 
-  // 文件持久化已移除
+// 新建与导入共用：写入时已超出保留期的记录记下 restoredAt，从写入时起重新保留一个周期
+// 设置 record.expiresAt，返回写入存储的 ttlMs；需要归档的记录返回 undefined，不设过期
+function applyRetention(record: DeployRecord, retention: ResolvedRetention): number | undefined {
+  if (new Date(record.deployedAt).getTime() < Date.now() - retentionMs(retention)) {
+    record.restoredAt = record.createdAt ?? new Date().toISOString();
+  }
+  record.expiresAt = retentionExpiry(retention, retentionStart(record));
+  return ttlUntil(record.expiresAt);
+}
 
-  return record;
+// 过期时间换算为存储层的 ttlMs；null（不过期）为 undefined
+function ttlUntil(expiresAt: string | null): number | undefined {
+  return expiresAt === null ? undefined : Math.max(1, new Date(expiresAt).getTime() - Date.now());
 }
 
-export async function getLatestDeployRecords(limit: number, projectNames?: string[] | undefined): Promise<DeployRecord[]> {
-  const min = Date.now() - THIRTY_DAYS_MS;
-
-  if (!redis) {
-    throw new Error("Redis 未配置：请设置 UPSTASH_REDIS_REST_URL 与 UPSTASH_REDIS_REST_TOKEN");
-  }
-
-  // 同时读取 ZSET 与旧 List，合并去重
-  try {
-      const ids = (await redis.zrange(DEPLOY_ZSET_KEY, 0, MAX_ITEMS - 1, { rev: true })) as unknown as string[];
-      const zsetKeys = (ids ?? []).map((id) => `${DEPLOY_RECORD_PREFIX}${id}`);
-      const zsetValues = zsetKeys.length > 0 ? ((await redis.mget(...(zsetKeys as [string, ...string[]]))) as unknown as unknown[]) : [];
-      const fromZset: DeployRecord[] = (zsetValues ?? []).map((v) => coerceRecord(v)).filter(Boolean) as DeployRecord[];
-
-      const listItems = (await redis.lrange(DEPLOY_KEY, 0, MAX_ITEMS - 1)) as unknown as unknown[];
-      const fromList: DeployRecord[] = (listItems ?? []).map((v) => coerceRecord(v)).filter(Boolean) as DeployRecord[];
-
-      const byId = new Map<string, DeployRecord>();
-      for (const r of fromList) byId.set(r.id, r);
-      for (const r of fromZset) byId.set(r.id, r);
-      let list = Array.from(byId.values()).filter((r) => new Date(r.deployedAt).getTime() >= min);
-      const normalized = projectNames && projectNames.length > 0 ? new Set(projectNames) : undefined;
-      if (normalized) list = list.filter((x) => normalized.has(x.projectName));
-      list.sort((a, b) => (a.deployedAt < b.deployedAt ? 1 : -1));
-      // 当 Redis 返回为空（例如新部署或空库）时，继续回退到文件
-      if (list.length > 0) return list.slice(0, limit);
-    } catch {
-      // ignore
+// 导入历史记录：保留原 deployedAt 与 id，保留期从 deployedAt 起算；不广播、不触发通知
+// 已超出保留期的行（如从归档快照恢复）照常导入并记下 restoredAt，从导入时起重新保留一个周期
+// id 或 externalId 已被占用的行拒绝导入
+export async function importDeployRecord(payload: ImportDeployPayload): Promise<Parsed<DeployRecord>> {
+  const store = getStore();
+  const { id, finishedAt, history, ...fields } = payload;
+  const deployedAt = resolveDeployedAt(fields.deployedAt);
+  const retention = await resolveRetention(fields.projectName, fields.environment);
+  if (id && (await store.getRecord(id))) return { ok: false, error: `record already exists: ${id}` };
+
+  const record: DeployRecord = {
+    id: id ?? randomUUID(),
+    ...fields,
+    deployedAt,
+    createdAt: new Date().toISOString(), // 导入也是一次写入，订阅者会看到未读
+    history: history ?? [{ status: fields.status, at: finishedAt ?? deployedAt, note: fields.note }],
+  };
+  const ttlMs = applyRetention(record, retention);
+  const artifacts = resolveArtifacts(fields.artifacts, fields.note);
+  if (artifacts) record.artifacts = artifacts;
+  if (finishedAt && fields.status !== "running") {
+    record.finishedAt = finishedAt;
+    record.durationMs = Math.max(0, new Date(finishedAt).getTime() - new Date(deployedAt).getTime());
+  }
+  if (fields.externalId && !(await store.linkExternalId(fields.externalId, record.id, ttlMs, true))) {
+    if (await getDeployRecordByExternalId(fields.externalId)) {
+      return { ok: false, error: `externalId already exists: ${fields.externalId}` };
     }
+    await store.linkExternalId(fields.externalId, record.id, ttlMs, false);
+  }
+  await store.putRecord(record, ttlMs);
+  return { ok: true, value: record };
+}
 
-  // Redis 没数据
-  return [];
+export async function getDeployRecord(id: string): Promise<DeployRecord | null> {
+  return getStore().getRecord(id);
 }
 
-export async function getAllProjects(): Promise<string[]> {
-  if (!redis) {
-    throw new Error("Redis 未配置：请设置 UPSTASH_REDIS_REST_URL 与 UPSTASH_REDIS_REST_TOKEN");
-  }
-  try {
-    const members = (await redis.smembers(PROJECT_SET_KEY)) as unknown as string[];
-    const set: string[] = Array.isArray(members) ? members : [];
-    if (set.length > 0) {
-      return [...new Set(set)].sort();
+export async function getDeployRecordByExternalId(externalId: string): Promise<DeployRecord | null> {
+  const store = getStore();
+  const id = await store.resolveExternalId(externalId);
+  return id ? store.getRecord(id) : null;
+}
+
+// 更新已有记录的状态/备注；状态离开 running 时记录结束时间与耗时。记录不存在时返回 null
+export async function updateDeployRecord(id: string, patch: UpdateDeployPayload): Promise<DeployRecord | null> {
+  const store = getStore();
+  const current = await store.getRecord(id);
+  if (!current) return null;
+
+  const now = new Date().toISOString();
+  const history = current.history ? [...current.history] : [{ status: current.status, at: current.deployedAt, note: current.note }];
+  const next: DeployRecord = { ...current, history };
+  if (patch.note !== undefined) next.note = patch.note;
+  if (patch.artifacts !== undefined) {
+    if (patch.artifacts.length > 0) next.artifacts = patch.artifacts;
+    else delete next.artifacts;
+  } else if (patch.note !== undefined && !current.artifacts) {
+    // 没有产物的记录改了备注（如流水线结束时补上下载链接），重新识别
+    const artifacts = resolveArtifacts(undefined, patch.note);
+    if (artifacts) next.artifacts = artifacts;
+  }
+  if (patch.status !== undefined) {
+    next.status = patch.status;
+    if (patch.status === "running") {
+      delete next.finishedAt;
+      delete next.durationMs;
+    } else {
+      const finishedAt = patch.finishedAt ? resolveDeployedAt(patch.finishedAt) : now;
+      next.finishedAt = finishedAt;
+      next.durationMs = Math.max(0, new Date(finishedAt).getTime() - new Date(current.deployedAt).getTime());
+    }
+  }
+  if (patch.status !== undefined || patch.note !== undefined) {
+    const at = patch.status !== undefined && next.finishedAt ? next.finishedAt : now;
+    history.push({ status: next.status, at, note: patch.note });
+  }
+
+  const saved = await store.updateRecord(next);
+  if (!saved) return null;
+  publishDeployEvent("update", next);
+  // 只有状态变化才计数、触发通知，单纯改备注不打扰
+  if (patch.status !== undefined && patch.status !== current.status) {
+    countDeploy(next);
+    await triggerDeployNotifications("update", next);
+  }
+  return next;
+}
+
+export class InvalidCursorError extends Error {
+  constructor(cursor: string) {
+    super(`invalid cursor: ${cursor}`);
+    this.name = "InvalidCursorError";
+  }
+}
+
+// 游标：最后一条记录的 score 与 id，base64url 编码后对调用方不透明
+export function encodeCursor(record: DeployRecord): string {
+  return Buffer.from(`${new Date(record.deployedAt).getTime()}:${record.id}`).toString("base64url");
+}
+
+export function decodeCursor(cursor: string): { score: number; id: string } {
+  const raw = Buffer.from(cursor, "base64url").toString("utf8");
+  const idx = raw.indexOf(":");
+  const score = Number(raw.slice(0, idx));
+  const id = raw.slice(idx + 1);
+  if (idx <= 0 || !Number.isFinite(score) || !id) throw new InvalidCursorError(cursor);
+  return { score, id };
+}
+
+// 按时间倒序逐条遍历满足筛选条件的记录；after 为游标位置（不含）
+export async function* iterateDeployRecords(
+  filter: DeployFilter,
+  after?: { score: number; id: string } | null,
+): AsyncGenerator<DeployRecord> {
+  const store = getStore();
+  // 过期记录由存储层按各自的保留时长剔除，这里不再统一设下界
+  const min = filter.from ? new Date(filter.from).getTime() : 0;
+  let max = filter.to ? new Date(filter.to).getTime() : Number.MAX_SAFE_INTEGER;
+  if (after) max = Math.min(max, after.score);
+  if (min > max) return;
+
+  const projects = filter.projectNames && filter.projectNames.length > 0 ? new Set(filter.projectNames) : undefined;
+  const environments = filter.environments && filter.environments.length > 0 ? new Set(filter.environments) : undefined;
+  for await (const batch of store.scanRecords({ min, max }, SCAN_BATCH)) {
+    for (const record of batch) {
+      // 与游标同一毫秒的记录按 id 倒序排列，跳过游标及其之前的部分
+      if (after && new Date(record.deployedAt).getTime() === after.score && record.id >= after.id) continue;
+      if (projects && !projects.has(record.projectName)) continue;
+      if (environments && !environments.has(record.environment)) continue;
+      yield record;
+    }
+  }
+}
+
+// 按写入时间倒序遍历 since（ISO 时间，不含）之后写入的记录，部署时间较早的补录、导入记录也在其中
+export async function* iterateWrittenRecords(since: string, projectNames?: string[]): AsyncGenerator<DeployRecord> {
+  const projects = projectNames ? new Set(projectNames) : undefined;
+  for await (const batch of getStore().scanWrittenSince(new Date(since).getTime(), SCAN_BATCH)) {
+    for (const record of batch) {
+      if (!projects || projects.has(record.projectName)) yield record;
+    }
+  }
+}
+
+// 按时间倒序分页查询；过滤条件在扫描过程中应用，保证每页尽量填满 limit 条
+export async function queryDeployRecords(query: DeployQuery): Promise<DeployPage> {
+  const after = query.cursor ? decodeCursor(query.cursor) : null;
+  const data: DeployRecord[] = [];
+  let hasMore = false;
+  for await (const record of iterateDeployRecords(query, after)) {
+    if (data.length === query.limit) {
+      hasMore = true;
+      break;
     }
-    // 兜底：从旧 List 中推断
-    const items = (await redis.lrange(DEPLOY_KEY, 0, MAX_ITEMS - 1)) as unknown as unknown[];
-    const parsed: DeployRecord[] = (items ?? []).map((v) => coerceRecord(v)).filter(Boolean) as DeployRecord[];
-    const inferred = Array.from(new Set(parsed.map((r) => r.projectName)));
-    if (inferred.length > 0) return inferred.sort();
-  } catch {
-    // ignore
-  }
-  return [];
-}
-
-// 清空所有数据：
-// - Redis：删除当前数据库下的所有键（keys("*") + del）
-// - 文件：删除 .data/deploy.json
-export async function clearAllData(): Promise<{ cleared: number; mode: "redis|file" | "file" | "redis" }> {
-  let removedRedis = 0;
-  if (redis) {
-    const keys = await redis.keys("*");
-    if (keys.length > 0) {
-      removedRedis = await redis.del(...(keys as [string, ...string[]]));
+    data.push(record);
+  }
+  const last = data[data.length - 1];
+  return { data, nextCursor: hasMore && last ? encodeCursor(last) : null };
+}
+
+// 全文检索：由倒排索引按时间倒序分批取候选记录，逐条校验查询条件与筛选范围，返回最新的 limit 条与命中总数
+// 常见词的候选可能很多：最多校验 MAX_SEARCH_CANDIDATES 条，超出时 capped 为 true，total 只是已校验部分的命中数
+export async function searchDeployRecords(
+  query: SearchQuery,
+  filter: DeployFilter,
+  limit: number,
+): Promise<Omit<DeploySearchResult, "highlights">> {
+  const from = filter.from ? new Date(filter.from).getTime() : 0;
+  const to = filter.to ? new Date(filter.to).getTime() : Number.MAX_SAFE_INTEGER;
+  const data: DeployRecord[] = [];
+  let total = 0;
+  let scanned = 0;
+  for await (const batch of getStore().searchRecords(query.terms, SCAN_BATCH)) {
+    for (const record of batch) {
+      if (scanned === MAX_SEARCH_CANDIDATES) return { data, total, capped: true };
+      scanned += 1;
+      const at = new Date(record.deployedAt).getTime();
+      if (at < from || at > to) continue;
+      if (filter.projectNames && filter.projectNames.length > 0 && !filter.projectNames.includes(record.projectName)) continue;
+      if (filter.environments && filter.environments.length > 0 && !filter.environments.includes(record.environment)) continue;
+      if (!matchesSearch(record, query)) continue;
+      total += 1;
+      if (data.length < limit) data.push(record);
     }
   }
+  return { data, total, capped: false };
+}
 
-  // 文件模式已移除
-  const removedFile = 0;
+// 存储出错时抛出 StoreError，不能当作没有记录
+export async function getLatestDeployRecords(limit: number, projectNames?: string[] | undefined): Promise<DeployRecord[]> {
+  const page = await queryDeployRecords({ limit, projectNames });
+  return page.data;
+}
 
-  const cleared = removedRedis + removedFile;
-  const usedRedis = !!redis;
-  const usedFile = false;
-  const mode = usedRedis && usedFile ? ("redis|file" as const) : usedRedis ? ("redis" as const) : ("file" as const);
-  return { cleared, mode };
+// 断线重连：返回 lastId 之后写入的记录（按时间正序），找不到 lastId 时返回空
+export async function getDeployRecordsSince(lastId: string, projectNames?: string[] | undefined): Promise<DeployRecord[]> {
+  const list = await getLatestDeployRecords(MAX_ITEMS, projectNames);
+  const idx = list.findIndex((r) => r.id === lastId);
+  if (idx < 0) return [];
+  return list.slice(0, idx).reverse();
 }
 
+// 同一 项目 × 环境 在 record 之前最近一次成功的部署，即本次部署替换掉的版本
+export async function getPreviousDeployRecord(record: DeployRecord): Promise<DeployRecord | null> {
+  const filter = { projectNames: [record.projectName], environments: [record.environment] };
+  const after = { score: new Date(record.deployedAt).getTime(), id: record.id };
+  for await (const candidate of iterateDeployRecords(filter, after)) {
+    if (candidate.status === "success") return candidate;
+  }
+  return null;
+}
+
+// 回滚记录标记其 rollbackOf 为坏版本；取消的回滚不算
+function revertedId(record: DeployRecord): string | undefined {
+  return record.status !== "canceled" ? record.rollbackOf : undefined;
+}
+
+// 每个 项目 × 环境 最近一次成功且没有被回滚过的部署，即线上出问题时可以放心回滚到的版本
+// 回滚总在被回滚的部署之后发生，按时间倒序遍历时先见到回滚记录，再见到它撤下的那次部署
+export async function getKnownGoodDeployments(projectNames?: string[], environments?: string[]): Promise<DeployRecord[]> {
+  const reverted = new Set<string>();
+  const good = new Map<string, DeployRecord>();
+  for await (const record of iterateDeployRecords({ projectNames, environments })) {
+    const id = revertedId(record);
+    if (id) reverted.add(id);
+    const key = `${record.projectName}\u0000${record.environment}`;
+    if (record.status !== "success" || reverted.has(record.id) || good.has(key)) continue;
+    good.set(key, record);
+  }
+  return Array.from(good.values()).sort(
+    (a, b) => a.projectName.localeCompare(b.projectName) || a.environment.localeCompare(b.environment),
+  );
+}
+
+// 回滚 record 时缺省的目标：它之前最近一次成功且没有被回滚过的部署
+async function getRollbackTarget(record: DeployRecord): Promise<DeployRecord | null> {
+  const reverted = new Set<string>([record.id]);
+  let passed = false;
+  for await (const candidate of iterateDeployRecords({ projectNames: [record.projectName], environments: [record.environment] })) {
+    const id = revertedId(candidate);
+    if (id) reverted.add(id);
+    if (!passed) {
+      passed = candidate.id === record.id;
+      continue;
+    }
+    if (candidate.status === "success" && !reverted.has(candidate.id)) return candidate;
+  }
+  return null;
+}
+
+// 回滚 reverted：新建一条 rollbackOf 指向它的记录，分支、提交、版本与产物取自回滚目标
+// 目标须是同一 项目 × 环境 的另一次成功部署
+export async function rollbackDeployRecord(
+  reverted: DeployRecord,
+  payload: RollbackPayload,
+): Promise<Parsed<{ record: DeployRecord; created: boolean; target: DeployRecord }>> {
+  const target = payload.to ? await getDeployRecord(payload.to) : await getRollbackTarget(reverted);
+  if (!target) {
+    return { ok: false, error: payload.to ? `rollback target not found: ${payload.to}` : "no earlier successful deploy to roll back to" };
+  }
+  if (target.id === reverted.id) return { ok: false, error: "cannot roll back a deploy to itself" };
+  if (target.projectName !== reverted.projectName || target.environment !== reverted.environment) {
+    return { ok: false, error: `rollback target must be a deploy of ${reverted.projectName} in ${reverted.environment}` };
+  }
+  if (target.status !== "success") return { ok: false, error: `rollback target did not succeed: ${target.id} (${target.status})` };
+
+  const { record, created } = await addDeployRecord({
+    title: payload.title ?? `回滚：${target.title}`.slice(0, 200),
+    projectName: target.projectName,
+    operator: payload.operator,
+    environment: target.environment,
+    branch: target.branch,
+    commit: target.commit,
+    revision: target.revision,
+    version: target.version,
+    rollbackOf: reverted.id,
+    note: payload.note,
+    status: payload.status ?? "success",
+    externalId: payload.externalId,
+    artifacts: target.artifacts,
+  });
+  return { ok: true, value: { record, created, target } };
+}
+
+// 每个 项目 × 环境 当前在跑的版本：保留期内最近一次成功的部署，按项目、环境排序
+export async function getCurrentDeployments(projectNames?: string[], environments?: string[]): Promise<DeployRecord[]> {
+  const current = new Map<string, DeployRecord>();
+  for await (const record of iterateDeployRecords({ projectNames, environments })) {
+    if (record.status !== "success") continue;
+    const key = `${record.projectName}\u0000${record.environment}`;
+    // 遍历按时间倒序，先出现的即最新
+    if (!current.has(key)) current.set(key, record);
+  }
+  return Array.from(current.values()).sort(
+    (a, b) => a.projectName.localeCompare(b.projectName) || a.environment.localeCompare(b.environment),
+  );
+}
+
+export async function getAllProjects(): Promise<string[]> {
+  return getStore().listProjects();
+}
+
+function matchesScope(record: DeployRecord, scope: CleanScope): boolean {
+  if (scope.ids && scope.ids.length > 0 && !scope.ids.includes(record.id)) return false;
+  if (scope.projects && scope.projects.length > 0 && !scope.projects.includes(record.projectName)) return false;
+  if (scope.environments && scope.environments.length > 0 && !scope.environments.includes(record.environment)) return false;
+  if (scope.before && new Date(record.deployedAt).getTime() >= new Date(scope.before).getTime()) return false;
+  return true;
+}
+
+// 按范围清理记录：同时移除排序索引，并把清理后不再有记录的项目移出项目集合
+// dryRun 时只返回将被删除的记录
+export async function cleanDeployRecords(scope: CleanScope, dryRun: boolean): Promise<CleanResult & { mode: StoreKind }> {
+  const store = getStore();
+  const all = await loadAllDeployRecords();
+  const matched = scope.all ? all : all.filter((r) => matchesScope(r, scope));
+  const records = matched.map(({ id, projectName, environment, deployedAt }) => ({ id, projectName, environment, deployedAt }));
+  if (dryRun || matched.length === 0) {
+    return { dryRun, matched: matched.length, deleted: 0, records, mode: store.kind };
+  }
+
+  if (scope.all) {
+    await store.clear();
+    return { dryRun, matched: matched.length, deleted: matched.length, records, mode: store.kind };
+  }
+
+  const deleted = await purgeDeployRecords(all, matched);
+  return { dryRun, matched: matched.length, deleted, records, mode: store.kind };
+}
+
+async function loadAllDeployRecords(): Promise<DeployRecord[]> {
+  const all: DeployRecord[] = [];
+  for await (const batch of getStore().scanRecords({ min: 0, max: Number.MAX_SAFE_INTEGER }, SCAN_BATCH)) {
+    all.push(...batch);
+  }
+  return all;
+}
+
+// 删除 matched 中的记录及其外部 id 映射，并把不再有记录的项目移出项目集合；all 为删除前的全部记录
+async function purgeDeployRecords(all: DeployRecord[], matched: DeployRecord[]): Promise<number> {
+  const store = getStore();
+  const deleted = await store.deleteRecords(matched.map((r) => r.id));
+  await store.unlinkExternalIds(matched.map((r) => r.externalId).filter((x): x is string => Boolean(x)));
+  const removedIds = new Set(matched.map((r) => r.id));
+  const remaining = new Set(all.filter((r) => !removedIds.has(r.id)).map((r) => r.projectName));
+  const orphaned = [...new Set(matched.map((r) => r.projectName))].filter((p) => !remaining.has(p));
+  await store.removeProjects(orphaned);
+  return deleted;
+}
+
+// 按保留策略清理超出保留期的记录；策略要求归档的记录先写入归档快照再删除
+// 由 POST /api/retention/sweep 触发，建议每天定时调用一次
+// 存储层的过期时间在写入时按当时的策略设定（expiresAt）：与当前策略不一致的未过期记录在这里重写，修改策略后调用一次即可生效
+// 只能作用于存储中仍在的记录：延长保留期之前已被存储层过期删除的记录找不回来，需要从归档重新导入
+export async function sweepExpiredRecords(dryRun: boolean): Promise<SweepResult & { mode: StoreKind }> {
+  const store = getStore();
+  const policies = await listRetentionPolicies();
+  const all = await loadAllDeployRecords();
+  const now = Date.now();
+  const expired: DeployRecord[] = [];
+  const toArchive: DeployRecord[] = [];
+  const changed: { record: DeployRecord; ttlMs: number | undefined }[] = [];
+  for (const record of all) {
+    const retention = pickRetention(policies, record.projectName, record.environment);
+    if (retentionStart(record) >= now - retentionMs(retention)) {
+      const expiresAt = retentionExpiry(retention, retentionStart(record));
+      if (record.expiresAt === expiresAt) continue;
+      changed.push({ record: { ...record, expiresAt }, ttlMs: ttlUntil(expiresAt) });
+      continue;
+    }
+    expired.push(record);
+    if (retention.archive) toArchive.push(record);
+  }
+  if (dryRun) {
+    return { dryRun, expired: expired.length, archived: toArchive.length, deleted: 0, reapplied: changed.length, archives: [], mode: store.kind };
+  }
+
+  for (const { record, ttlMs } of changed) {
+    await store.putRecord(record, ttlMs);
+    if (record.externalId) await store.linkExternalId(record.externalId, record.id, ttlMs, false);
+  }
+  const archives = toArchive.length > 0 ? await archiveRecords(toArchive) : [];
+  const deleted = expired.length > 0 ? await purgeDeployRecords(all, expired) : 0;
+  return { dryRun, expired: expired.length, archived: toArchive.length, deleted, reapplied: changed.length, archives, mode: store.kind };
+}
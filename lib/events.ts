@@ -0,0 +1,38 @@
+import { EventEmitter } from "events";
+import type { DeployRecord } from "@/lib/types";
+import { currentWorkspace } from "@/lib/workspace";
+
+// 进程内事件总线：addDeployRecord / updateDeployRecord 写入后广播，/api/deploy/stream 订阅后推送给浏览器
+// 挂在 globalThis 上，保证 dev 模式下各路由模块拿到的是同一个实例
+const globalForEvents = globalThis as unknown as { __deploylistEvents?: EventEmitter };
+
+// deploy：新记录；update：已有记录状态/备注变更
+export type DeployEventType = "deploy" | "update";
+
+export interface DeployEvent {
+  type: DeployEventType;
+  record: DeployRecord;
+  workspace: string; // 订阅方只推送自己工作区的事件
+}
+
+function bus(): EventEmitter {
+  if (!globalForEvents.__deploylistEvents) {
+    const emitter = new EventEmitter();
+    emitter.setMaxListeners(0); // 每个 SSE 连接一个监听者，不设上限
+    globalForEvents.__deploylistEvents = emitter;
+  }
+  return globalForEvents.__deploylistEvents;
+}
+
+export function publishDeployEvent(type: DeployEventType, record: DeployRecord): void {
+  const event: DeployEvent = { type, record, workspace: currentWorkspace() };
+  bus().emit("event", event);
+}
+
+export function subscribeDeployEvents(listener: (event: DeployEvent) => void): () => void {
+  const emitter = bus();
+  emitter.on("event", listener);
+  return () => {
+    emitter.off("event", listener);
+  };
+}
@@ -0,0 +1,121 @@
+import { randomUUID } from "crypto";
+import { matchAny } from "@/lib/pattern";
+import { getStore } from "@/lib/store";
+import type { ClaimLockPayload, DeployRecord, DeployVerdict, DeployViolation, EnvironmentLock, FreezeWindow } from "@/lib/types";
+
+// 封版窗口与环境锁：新建部署记录时逐条检查，命中的写入记录的 violations
+
+const FREEZE_COLLECTION = "freezes";
+const LOCK_COLLECTION = "env_locks";
+const MINUTE_MS = 60_000;
+
+export async function listFreezeWindows(): Promise<FreezeWindow[]> {
+  const windows = await getStore().listDocs<FreezeWindow>(FREEZE_COLLECTION);
+  return windows.sort((a, b) => a.from.localeCompare(b.from));
+}
+
+// 正在生效或尚未开始的窗口
+export async function listUpcomingFreezeWindows(now = new Date().toISOString()): Promise<FreezeWindow[]> {
+  return (await listFreezeWindows()).filter((w) => w.to >= now);
+}
+
+export async function createFreezeWindow(input: Omit<FreezeWindow, "id" | "createdAt">): Promise<FreezeWindow> {
+  const window: FreezeWindow = { ...input, id: randomUUID(), createdAt: new Date().toISOString() };
+  await getStore().putDoc(FREEZE_COLLECTION, window.id, window);
+  return window;
+}
+
+// 解除封版：直接删除窗口，已标记的记录保留原有标记
+export async function deleteFreezeWindow(id: string): Promise<boolean> {
+  return getStore().deleteDoc(FREEZE_COLLECTION, id);
+}
+
+// 未过期的锁；过期的锁由存储层按 TTL 清理，这里再按 expiresAt 过滤一次
+export async function listEnvironmentLocks(): Promise<EnvironmentLock[]> {
+  const now = new Date().toISOString();
+  const locks = await getStore().listDocs<EnvironmentLock>(LOCK_COLLECTION);
+  return locks
+    .filter((lock) => lock.expiresAt > now)
+    .sort((a, b) => a.projectName.localeCompare(b.projectName) || a.environment.localeCompare(b.environment));
+}
+
+// 锁文档以 项目 × 环境 为 id，占用时靠存储的条件写入保证同一环境只有一把锁；对外的 lock.id 仍是随机 id
+function lockDocId(projectName: string, environment: string): string {
+  return `${encodeURIComponent(projectName)}:${encodeURIComponent(environment)}`;
+}
+
+function isActive(lock: EnvironmentLock | null): lock is EnvironmentLock {
+  return lock !== null && lock.expiresAt > new Date().toISOString();
+}
+
+export async function getEnvironmentLock(id: string): Promise<EnvironmentLock | null> {
+  return (await listEnvironmentLocks()).find((lock) => lock.id === id) ?? null;
+}
+
+function sameHolder(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+// 占用环境：同一 项目 × 环境 只能有一把锁；占用人相同时视为续期，被他人占用时返回 conflict
+// 新占用用条件写入（redis SET NX），并发占用时只有一个成功，其余重新读取后按续期或 conflict 处理
+export async function claimEnvironmentLock(
+  input: Omit<EnvironmentLock, "id" | "createdAt">,
+  retries = 2,
+): Promise<{ lock: EnvironmentLock; created: boolean } | { conflict: EnvironmentLock }> {
+  const store = getStore();
+  const docId = lockDocId(input.projectName, input.environment);
+  const ttlMs = new Date(input.expiresAt).getTime() - Date.now();
+  const current = async () => {
+    const keyed = await store.getDoc<EnvironmentLock>(LOCK_COLLECTION, docId);
+    return isActive(keyed) ? keyed : undefined;
+  };
+
+  let existing = await current();
+  if (!existing) {
+    const lock: EnvironmentLock = { ...input, id: randomUUID(), createdAt: new Date().toISOString() };
+    if (await store.createDoc(LOCK_COLLECTION, docId, lock, ttlMs)) return { lock, created: true };
+    existing = await current();
+    if (!existing) {
+      // 抢到锁的请求随即释放了锁，重试
+      if (retries > 0) return claimEnvironmentLock(input, retries - 1);
+      throw new Error(`lock for ${input.projectName}/${input.environment} changed concurrently, please retry`);
+    }
+  }
+  if (!sameHolder(existing.holder, input.holder)) return { conflict: existing };
+  const lock: EnvironmentLock = { ...input, reason: input.reason ?? existing.reason, id: existing.id, createdAt: existing.createdAt };
+  await store.putDoc(LOCK_COLLECTION, docId, lock, ttlMs);
+  return { lock, created: false };
+}
+
+export async function releaseEnvironmentLock(lock: EnvironmentLock): Promise<boolean> {
+  return getStore().deleteDoc(LOCK_COLLECTION, lockDocId(lock.projectName, lock.environment));
+}
+
+// 封版按部署时间判断（补报的历史部署同样适用）；回滚用于止损，不受封版限制
+// 环境锁只看当前仍有效的锁，占用人自己的部署不算违规
+export async function checkDeployViolations(record: DeployRecord): Promise<DeployViolation[]> {
+  const violations: DeployViolation[] = [];
+  if (!record.rollbackOf) {
+    for (const window of await listFreezeWindows()) {
+      if (record.deployedAt < window.from || record.deployedAt > window.to) continue;
+      if (!matchAny(window.projects, record.projectName) || !matchAny(window.environments, record.environment)) continue;
+      violations.push({ type: "freeze", id: window.id, reason: window.reason, to: window.to });
+    }
+  }
+  for (const lock of await listEnvironmentLocks()) {
+    if (lock.projectName !== record.projectName || lock.environment !== record.environment) continue;
+    if (sameHolder(lock.holder, record.operator)) continue;
+    violations.push({ type: "lock", id: lock.id, holder: lock.holder, reason: lock.reason, expiresAt: lock.expiresAt });
+  }
+  return violations;
+}
+
+// 占用请求体换算为锁：从现在起占用 minutes 分钟
+export function lockFromPayload({ minutes, ...input }: ClaimLockPayload): Omit<EnvironmentLock, "id" | "createdAt"> {
+  return { ...input, expiresAt: new Date(Date.now() + minutes * MINUTE_MS).toISOString() };
+}
+
+export function deployVerdict(record: DeployRecord): DeployVerdict {
+  const violations = record.violations ?? [];
+  return { allowed: violations.length === 0, violations };
+}
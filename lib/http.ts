@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import type { FieldError } from "@/lib/schema";
+
+// 路由共用的响应：错误统一为 { error, fields? }，读接口的结果不允许任何一层缓存
+
+export function bad(msg: string, code = 400): NextResponse {
+  return NextResponse.json({ error: msg }, { status: code });
+}
+
+// 字段级校验错误：error 为汇总信息，fields 逐个列出出错字段
+export function invalid(result: { error: string; fields: FieldError[] }): NextResponse {
+  return NextResponse.json({ error: result.error, fields: result.fields }, { status: 400 });
+}
+
+export function noStore<T extends Response>(res: T): T {
+  res.headers.set("Cache-Control", "no-store, no-cache, must-revalidate, proxy-revalidate");
+  res.headers.set("Pragma", "no-cache");
+  res.headers.set("Expires", "0");
+  return res;
+}
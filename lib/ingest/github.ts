@@ -0,0 +1,92 @@
+import { createHmac } from "crypto";
+import type { IngestProvider } from "@/lib/ingest/types";
+import { firstLine, safeEqual, shortSha } from "@/lib/ingest/shared";
+import type { DeployStatus } from "@/lib/types";
+
+// GitHub Actions：workflow_run 事件，通过 X-Hub-Signature-256 校验（DEPLOYLIST_GITHUB_SECRET）
+// 启用鉴权后 ingest 令牌放在 webhook 地址的 ?token= 中（GitHub 不支持自定义请求头），配置了密钥时仍校验签名
+
+interface WorkflowRunEvent {
+  action: "requested" | "in_progress" | "completed";
+  workflow_run: {
+    id: number;
+    name: string;
+    run_number: number;
+    status: string;
+    conclusion: string | null;
+    head_branch: string;
+    head_sha: string;
+    html_url: string;
+    run_started_at?: string;
+    head_commit?: { message?: string };
+    actor?: { login?: string };
+    triggering_actor?: { login?: string };
+  };
+  repository: { full_name: string };
+}
+
+function checkSignature(req: Request, rawBody: string, secret: string): string | null {
+  const signature = req.headers.get("x-hub-signature-256") ?? "";
+  const expected = `sha256=${createHmac("sha256", secret).update(rawBody).digest("hex")}`;
+  return signature && safeEqual(signature, expected) ? null : "invalid X-Hub-Signature-256";
+}
+
+function mapStatus(run: WorkflowRunEvent["workflow_run"]): DeployStatus | null {
+  if (run.status !== "completed") {
+    return ["requested", "queued", "pending", "waiting", "in_progress"].includes(run.status) ? "running" : null;
+  }
+  switch (run.conclusion) {
+    case "success":
+      return "success";
+    case "failure":
+    case "timed_out":
+    case "startup_failure":
+      return "failed";
+    case "cancelled":
+    case "skipped":
+    case "stale":
+      return "canceled";
+    default:
+      return null; // neutral / action_required 不视为部署结果
+  }
+}
+
+export const githubProvider: IngestProvider = {
+  name: "github",
+
+  verify(req, rawBody) {
+    const secret = process.env.DEPLOYLIST_GITHUB_SECRET;
+    if (!secret) return "github ingestion not configured: set DEPLOYLIST_GITHUB_SECRET";
+    return checkSignature(req, rawBody, secret);
+  },
+
+  readToken(req) {
+    return new URL(req.url).searchParams.get("token");
+  },
+
+  verifyPayload(req, rawBody) {
+    const secret = process.env.DEPLOYLIST_GITHUB_SECRET;
+    return secret ? checkSignature(req, rawBody, secret) : null;
+  },
+
+  parse(req, body) {
+    if (req.headers.get("x-github-event") !== "workflow_run") return null;
+    const event = body as WorkflowRunEvent;
+    const run = event.workflow_run;
+    if (!run) return null;
+    const status = mapStatus(run);
+    if (!status) return null;
+    return {
+      ref: `${event.repository.full_name}:${run.id}`,
+      title: `${run.name} #${run.run_number}`,
+      projectName: event.repository.full_name,
+      operator: run.triggering_actor?.login ?? run.actor?.login ?? "github",
+      branch: run.head_branch,
+      commit: firstLine(run.head_commit?.message) || shortSha(run.head_sha),
+      revision: run.head_sha,
+      status,
+      note: run.html_url,
+      startedAt: run.run_started_at,
+    };
+  },
+};
@@ -0,0 +1,107 @@
+import type { IngestProvider } from "@/lib/ingest/types";
+import { firstLine, safeEqual, shortSha } from "@/lib/ingest/shared";
+import type { DeployStatus } from "@/lib/types";
+
+// GitLab：Pipeline Hook 与 Deployment Hook，通过 X-Gitlab-Token 校验（DEPLOYLIST_GITLAB_TOKEN）
+// 启用鉴权后 X-Gitlab-Token 填写工作区内签发的 ingest 令牌
+
+interface GitlabUser {
+  name?: string;
+  username?: string;
+}
+
+interface GitlabPipelineHook {
+  object_kind: "pipeline";
+  object_attributes: { id: number; ref: string; tag?: boolean; sha: string; status: string; url?: string; name?: string };
+  project: { path_with_namespace: string; name?: string; web_url?: string };
+  commit?: { message?: string; title?: string };
+  user?: GitlabUser;
+}
+
+interface GitlabDeploymentHook {
+  object_kind: "deployment";
+  status: string;
+  deployment_id: number;
+  deployable_url?: string;
+  environment: string;
+  project: { path_with_namespace: string; name?: string };
+  short_sha?: string;
+  ref: string;
+  commit_title?: string;
+  user?: GitlabUser;
+}
+
+function readToken(req: Request): string | null {
+  return req.headers.get("x-gitlab-token");
+}
+
+function mapStatus(status: string): DeployStatus | null {
+  switch (status) {
+    case "created":
+    case "waiting_for_resource":
+    case "preparing":
+    case "pending":
+    case "running":
+      return "running";
+    case "success":
+      return "success";
+    case "failed":
+      return "failed";
+    case "canceled":
+    case "skipped":
+      return "canceled";
+    default:
+      return null; // manual / scheduled 等不视为部署状态
+  }
+}
+
+export const gitlabProvider: IngestProvider = {
+  name: "gitlab",
+
+  verify(req) {
+    const secret = process.env.DEPLOYLIST_GITLAB_TOKEN;
+    if (!secret) return "gitlab ingestion not configured: set DEPLOYLIST_GITLAB_TOKEN";
+    const token = readToken(req);
+    return token && safeEqual(token, secret) ? null : "invalid X-Gitlab-Token";
+  },
+
+  readToken,
+
+  parse(_req, body) {
+    const hook = body as GitlabPipelineHook | GitlabDeploymentHook;
+    if (hook?.object_kind === "pipeline") {
+      const status = mapStatus(hook.object_attributes.status);
+      if (!status) return null;
+      const attrs = hook.object_attributes;
+      return {
+        ref: `pipeline:${hook.project.path_with_namespace}:${attrs.id}`,
+        title: `${hook.project.name ?? hook.project.path_with_namespace} pipeline #${attrs.id}`,
+        projectName: hook.project.path_with_namespace,
+        operator: hook.user?.name ?? hook.user?.username ?? "gitlab",
+        branch: attrs.ref,
+        commit: firstLine(hook.commit?.title ?? hook.commit?.message) || shortSha(attrs.sha),
+        revision: attrs.sha,
+        version: attrs.tag ? attrs.ref : undefined,
+        status,
+        note: attrs.url,
+      };
+    }
+    if (hook?.object_kind === "deployment") {
+      const status = mapStatus(hook.status);
+      if (!status) return null;
+      return {
+        ref: `deployment:${hook.project.path_with_namespace}:${hook.deployment_id}`,
+        title: `${hook.project.name ?? hook.project.path_with_namespace} → ${hook.environment}`,
+        projectName: hook.project.path_with_namespace,
+        environment: hook.environment,
+        operator: hook.user?.name ?? hook.user?.username ?? "gitlab",
+        branch: hook.ref,
+        commit: firstLine(hook.commit_title) || shortSha(hook.short_sha),
+        revision: hook.short_sha,
+        status,
+        note: hook.deployable_url,
+      };
+    }
+    return null;
+  },
+};
@@ -0,0 +1,120 @@
+import { createHmac } from "crypto";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createToken } from "@/lib/auth";
+import { getIngestProvider, ingestEvent, verifyIngest } from "@/lib/ingest";
+import type { IngestEvent, IngestProvider } from "@/lib/ingest";
+import { getStore } from "@/lib/store";
+
+const BODY = JSON.stringify({ action: "completed" });
+
+function provider(name: string): IngestProvider {
+  const found = getIngestProvider(name);
+  if (!found) throw new Error(`missing provider ${name}`);
+  return found;
+}
+
+function request(path: string, headers: Record<string, string> = {}): Request {
+  return new Request(`https://deploylist.example.com${path}`, { method: "POST", headers });
+}
+
+function sign(body: string, secret: string): string {
+  return `sha256=${createHmac("sha256", secret).update(body).digest("hex")}`;
+}
+
+const event: IngestEvent = {
+  ref: "shop:42",
+  title: "deploy #42",
+  projectName: "shop",
+  operator: "ci",
+  branch: "main",
+  commit: "fix checkout",
+  status: "running",
+};
+
+beforeEach(async () => {
+  await getStore().clear();
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("shared-secret verification", () => {
+  it("checks the GitHub HMAC signature over the raw body", () => {
+    vi.stubEnv("DEPLOYLIST_GITHUB_SECRET", "s3cret");
+    const github = provider("github");
+    expect(github.verify(request("/api/ingest/github", { "x-hub-signature-256": sign(BODY, "s3cret") }), BODY)).toBeNull();
+    expect(github.verify(request("/api/ingest/github", { "x-hub-signature-256": sign(BODY, "other") }), BODY)).toMatch(/invalid/);
+    expect(github.verify(request("/api/ingest/github"), BODY)).toMatch(/invalid/);
+  });
+
+  it("rejects callbacks for providers without a configured secret", () => {
+    vi.stubEnv("DEPLOYLIST_GITLAB_TOKEN", "");
+    expect(provider("gitlab").verify(request("/api/ingest/gitlab", { "x-gitlab-token": "anything" }), BODY)).toMatch(/not configured/);
+  });
+
+  it("compares the GitLab and Jenkins tokens", () => {
+    vi.stubEnv("DEPLOYLIST_GITLAB_TOKEN", "gl-token");
+    vi.stubEnv("DEPLOYLIST_JENKINS_TOKEN", "jk-token");
+    expect(provider("gitlab").verify(request("/api/ingest/gitlab", { "x-gitlab-token": "gl-token" }), BODY)).toBeNull();
+    expect(provider("gitlab").verify(request("/api/ingest/gitlab", { "x-gitlab-token": "gl-tokenx" }), BODY)).not.toBeNull();
+    expect(provider("jenkins").verify(request("/api/ingest/jenkins?token=jk-token"), BODY)).toBeNull();
+    expect(provider("jenkins").verify(request("/api/ingest/jenkins", { "x-deploylist-token": "jk-token" }), BODY)).toBeNull();
+    expect(provider("jenkins").verify(request("/api/ingest/jenkins?token=nope"), BODY)).not.toBeNull();
+  });
+});
+
+describe("verifyIngest with auth enabled", () => {
+  beforeEach(() => {
+    vi.stubEnv("DEPLOYLIST_ADMIN_TOKEN", "admin-token");
+    vi.stubEnv("DEPLOYLIST_GITLAB_TOKEN", "gl-token");
+  });
+
+  it("no longer accepts the shared secret", async () => {
+    const result = await verifyIngest(provider("gitlab"), request("/api/ingest/gitlab", { "x-gitlab-token": "gl-token" }), BODY);
+    expect(result).toMatchObject({ ok: false, status: 401 });
+  });
+
+  it("accepts an ingest token and rejects a read-only one", async () => {
+    const ingest = await createToken({ name: "ci", projects: ["shop"], permissions: ["ingest"] });
+    const read = await createToken({ name: "viewer", projects: ["*"], permissions: ["read"] });
+    const gitlab = provider("gitlab");
+    expect(await verifyIngest(gitlab, request("/api/ingest/gitlab", { "x-gitlab-token": ingest.token }), BODY)).toMatchObject({ ok: true });
+    expect(await verifyIngest(gitlab, request("/api/ingest/gitlab", { "x-gitlab-token": read.token }), BODY)).toMatchObject({
+      ok: false,
+      status: 403,
+    });
+  });
+
+  it("still checks the GitHub signature when a secret is configured", async () => {
+    vi.stubEnv("DEPLOYLIST_GITHUB_SECRET", "s3cret");
+    const { token } = await createToken({ name: "ci", projects: ["*"], permissions: ["ingest"] });
+    const github = provider("github");
+    const signed = request(`/api/ingest/github?token=${token}`, { "x-hub-signature-256": sign(BODY, "s3cret") });
+    expect(await verifyIngest(github, signed, BODY)).toMatchObject({ ok: true });
+    expect(await verifyIngest(github, request(`/api/ingest/github?token=${token}`), BODY)).toMatchObject({ ok: false, status: 401 });
+  });
+});
+
+describe("ingestEvent", () => {
+  const scoped = { tokenId: "t1", projects: ["shop"], permissions: ["ingest" as const] };
+
+  it("creates the record for a project inside the token scope", async () => {
+    const result = await ingestEvent(provider("jenkins"), event, {}, scoped);
+    expect(result.ok && result.value.record.externalId).toBe("jenkins:shop:42");
+  });
+
+  it("keeps a finished deploy finished when a late running callback arrives", async () => {
+    const jenkins = provider("jenkins");
+    const first = await ingestEvent(jenkins, event, {}, scoped);
+    await ingestEvent(jenkins, { ...event, status: "success" }, {}, scoped);
+    const late = await ingestEvent(jenkins, event, {}, scoped);
+    expect(late.ok && late.value).toMatchObject({ created: false, record: { id: first.ok && first.value.record.id, status: "success" } });
+  });
+
+  it("rejects a ?project= override outside the token scope", async () => {
+    const result = await ingestEvent(provider("jenkins"), event, { projectName: "billing" }, scoped);
+    expect(result).toMatchObject({ ok: false, status: 403 });
+    expect(await getStore().listProjects()).toEqual([]);
+  });
+});
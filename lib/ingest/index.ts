@@ -0,0 +1,78 @@
+import { authorizeToken, canAccessProject, isAuthEnabled } from "@/lib/auth";
+import type { AuthResult, Principal } from "@/lib/auth";
+import { parseDeployPayload } from "@/lib/contract";
+import { addDeployRecord } from "@/lib/db";
+import { githubProvider } from "@/lib/ingest/github";
+import { gitlabProvider } from "@/lib/ingest/gitlab";
+import { jenkinsProvider } from "@/lib/ingest/jenkins";
+import type { IngestEvent, IngestProvider } from "@/lib/ingest/types";
+import { resolveDeployProject } from "@/lib/projects";
+import type { DeployRecord } from "@/lib/types";
+
+export type { IngestEvent, IngestProvider } from "@/lib/ingest/types";
+
+const DEFAULT_ENVIRONMENT = "default";
+
+const PROVIDERS: Record<string, IngestProvider> = {
+  gitlab: gitlabProvider,
+  github: githubProvider,
+  jenkins: jenkinsProvider,
+};
+
+export function getIngestProvider(name: string): IngestProvider | null {
+  return PROVIDERS[name] ?? null;
+}
+
+// 未启用鉴权时沿用各平台的共享密钥；启用后改用当前工作区签发的 ingest 令牌，共享密钥不再放行，
+// 因此令牌只能写入签发它的工作区。项目范围在解析出项目名后由 ingestEvent 校验
+export async function verifyIngest(provider: IngestProvider, req: Request, rawBody: string): Promise<AuthResult> {
+  const authEnabled = isAuthEnabled();
+  const auth = await authorizeToken(authEnabled ? provider.readToken(req) : null, "ingest");
+  if (!auth.ok) return auth;
+  const denied = authEnabled ? (provider.verifyPayload?.(req, rawBody) ?? null) : provider.verify(req, rawBody);
+  return denied ? { ok: false, status: 401, error: denied } : auth;
+}
+
+export type IngestResult =
+  | { ok: true; value: { record: DeployRecord; created: boolean } }
+  | { ok: false; status: 400 | 403; error: string };
+
+// URL 上的覆盖项：同一个 webhook 地址可以固定项目名与环境，例如 ?project=shop&environment=prod
+export interface IngestOverrides {
+  projectName?: string;
+  environment?: string;
+}
+
+// 同一条流水线的后续回调以 <provider>:<ref> 作为 externalId，更新已有记录的状态，首次出现时新建记录
+// 项目名按项目登记解析别名；严格模式下未登记的项目或环境返回错误
+// 映射结果与 POST /api/deploy 一样按 CREATE_DEPLOY_SCHEMA 校验（长度、时间格式等），不合法时返回错误
+// 解析出的项目（含 ?project= 覆盖）不在令牌范围内时返回 403
+export async function ingestEvent(
+  provider: IngestProvider,
+  event: IngestEvent,
+  overrides: IngestOverrides,
+  principal: Principal,
+): Promise<IngestResult> {
+  const environment = overrides.environment || event.environment || DEFAULT_ENVIRONMENT;
+  const project = await resolveDeployProject(overrides.projectName || event.projectName, environment);
+  if (!project.ok) return { ok: false, status: 400, error: project.error };
+  if (!canAccessProject(principal, project.value)) {
+    return { ok: false, status: 403, error: `token not allowed for project: ${project.value}` };
+  }
+  const payload = parseDeployPayload({
+    title: event.title,
+    projectName: project.value,
+    operator: event.operator,
+    environment,
+    branch: event.branch,
+    commit: event.commit,
+    revision: event.revision,
+    version: event.version,
+    note: event.note,
+    deployedAt: event.startedAt,
+    status: event.status,
+    externalId: `${provider.name}:${event.ref}`,
+  });
+  if (!payload.ok) return { ok: false, status: 400, error: payload.error };
+  return { ok: true, value: await addDeployRecord(payload.value) };
+}
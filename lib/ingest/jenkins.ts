@@ -0,0 +1,74 @@
+import type { IngestProvider } from "@/lib/ingest/types";
+import { firstLine, safeEqual, shortSha } from "@/lib/ingest/shared";
+import type { DeployStatus } from "@/lib/types";
+
+// Jenkins：Notification 插件的 JSON 回调，令牌放在 ?token= 或 X-Deploylist-Token（DEPLOYLIST_JENKINS_TOKEN）
+// 启用鉴权后同样位置填写工作区内签发的 ingest 令牌
+
+interface JenkinsNotification {
+  name: string;
+  url?: string;
+  build: {
+    number: number;
+    phase: "QUEUED" | "STARTED" | "COMPLETED" | "FINALIZED";
+    status?: "SUCCESS" | "FAILURE" | "ABORTED" | "UNSTABLE" | "NOT_BUILT";
+    full_url?: string;
+    scm?: { branch?: string; commit?: string; culprits?: string[]; changes?: string[] };
+    parameters?: Record<string, string>;
+  };
+}
+
+function readToken(req: Request): string | null {
+  return req.headers.get("x-deploylist-token") ?? new URL(req.url).searchParams.get("token");
+}
+
+function mapStatus(build: JenkinsNotification["build"]): DeployStatus | null {
+  if (build.phase === "STARTED") return "running";
+  if (build.phase !== "COMPLETED" && build.phase !== "FINALIZED") return null;
+  switch (build.status) {
+    case "SUCCESS":
+      return "success";
+    case "FAILURE":
+    case "UNSTABLE":
+      return "failed";
+    case "ABORTED":
+    case "NOT_BUILT":
+      return "canceled";
+    default:
+      return null;
+  }
+}
+
+export const jenkinsProvider: IngestProvider = {
+  name: "jenkins",
+
+  verify(req) {
+    const secret = process.env.DEPLOYLIST_JENKINS_TOKEN;
+    if (!secret) return "jenkins ingestion not configured: set DEPLOYLIST_JENKINS_TOKEN";
+    const token = readToken(req);
+    return token && safeEqual(token, secret) ? null : "invalid jenkins token";
+  },
+
+  readToken,
+
+  parse(_req, body) {
+    const payload = body as JenkinsNotification;
+    if (!payload?.build) return null;
+    const status = mapStatus(payload.build);
+    if (!status) return null;
+    const { build } = payload;
+    const params = build.parameters ?? {};
+    return {
+      ref: `${payload.name}:${build.number}`,
+      title: `${payload.name} #${build.number}`,
+      projectName: payload.name,
+      environment: params.ENVIRONMENT ?? params.DEPLOY_ENV,
+      operator: build.scm?.culprits?.[0] ?? params.BUILD_USER ?? "jenkins",
+      branch: (build.scm?.branch ?? params.BRANCH ?? "").replace(/^origin\//, ""),
+      commit: firstLine(build.scm?.changes?.[0]) || shortSha(build.scm?.commit),
+      revision: build.scm?.commit,
+      status,
+      note: build.full_url,
+    };
+  },
+};
@@ -0,0 +1,16 @@
+import { createHash, timingSafeEqual } from "crypto";
+
+// 定长比较，避免通过耗时推测密钥
+export function safeEqual(a: string, b: string): boolean {
+  const left = createHash("sha256").update(a).digest();
+  const right = createHash("sha256").update(b).digest();
+  return timingSafeEqual(left, right);
+}
+
+export function firstLine(text: string | undefined | null): string {
+  return (text ?? "").split("\n")[0].trim();
+}
+
+export function shortSha(sha: string | undefined | null): string {
+  return (sha ?? "").slice(0, 8);
+}
@@ -0,0 +1,29 @@
+import type { DeployStatus } from "@/lib/types";
+
+// 从 CI 平台 webhook 中解析出的部署信息；ref 为平台内唯一的流水线标识，用于后续状态变更定位同一条记录
+export interface IngestEvent {
+  ref: string;
+  title: string;
+  projectName: string;
+  environment?: string; // 缺省时使用 ?environment= 或 DEFAULT_ENVIRONMENT
+  operator: string;
+  branch: string;
+  commit: string;
+  revision?: string; // 提交 SHA
+  version?: string; // 标签流水线的标签名
+  status: DeployStatus;
+  note?: string;
+  startedAt?: string;
+}
+
+export interface IngestProvider {
+  name: string;
+  // 未启用鉴权时校验平台共享密钥（环境变量）；通过返回 null，否则返回错误信息
+  verify(req: Request, rawBody: string): string | null;
+  // 启用鉴权后读取平台回调里携带的 ingest 令牌，代替共享密钥
+  readToken(req: Request): string | null;
+  // 启用鉴权后在令牌之外额外校验的载荷签名（配置了密钥时）；通过返回 null
+  verifyPayload?(req: Request, rawBody: string): string | null;
+  // 返回 null 表示该事件与部署无关（如 ping、排队中），直接忽略
+  parse(req: Request, body: unknown): IngestEvent | null;
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_WORKSPACE } from "@/lib/contract";
+import { countDeploy, countStoreError, renderMetrics } from "@/lib/metrics";
+import type { DeployRecord } from "@/lib/types";
+
+// 请求之外的调用都计入默认工作区（见 lib/workspace.ts）
+function record(projectName: string): DeployRecord {
+  const deployedAt = new Date().toISOString();
+  return {
+    id: projectName,
+    title: "release",
+    projectName,
+    operator: "ci",
+    environment: "prod",
+    branch: "main",
+    commit: "abc",
+    deployedAt,
+    status: "success",
+  };
+}
+
+describe("renderMetrics", () => {
+  countDeploy(record("shop"));
+  countDeploy(record("billing"));
+  countStoreError("memory", "replay");
+
+  it("renders every series without a scope", () => {
+    const text = renderMetrics();
+    expect(text).toContain('project="billing"');
+    expect(text).toContain('deploylist_store_errors_total{store="memory",operation="replay"} 1');
+  });
+
+  it("limits a scoped read to the workspace and projects of the token", () => {
+    const text = renderMetrics({ workspace: DEFAULT_WORKSPACE, projects: ["shop"] });
+    expect(text).toContain('project="shop"');
+    expect(text).not.toContain('project="billing"');
+    expect(text).not.toContain('operation="replay"');
+    expect(text).toContain("# TYPE deploylist_store_errors_total counter");
+    expect(renderMetrics({ workspace: "other" })).not.toContain('project="shop"');
+  });
+});
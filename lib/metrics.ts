@@ -0,0 +1,145 @@
+import type { DeployRecord } from "@/lib/types";
+import { currentWorkspace } from "@/lib/workspace";
+
+// 进程内的运行指标，GET /api/metrics 以 Prometheus 文本格式输出
+// 计数从进程启动起算；多实例部署时各实例分别统计，由 Prometheus 按实例汇总
+// 挂在 globalThis 上，保证 dev 模式下各路由模块拿到的是同一份数据
+
+type Labels = Record<string, string>;
+
+interface CounterSeries {
+  labels: Labels;
+  value: number;
+}
+
+interface HistogramSeries {
+  labels: Labels;
+  buckets: number[]; // 与 LATENCY_BUCKETS 一一对应，非累计
+  sum: number;
+  count: number;
+}
+
+interface Registry {
+  counters: Map<string, Map<string, CounterSeries>>;
+  histograms: Map<string, Map<string, HistogramSeries>>;
+}
+
+const LATENCY_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]; // 秒
+
+const METRICS = {
+  deploylist_deploys_total: { type: "counter", help: "Deploy records entering each status (created or status changed)" },
+  deploylist_ingest_errors_total: { type: "counter", help: "Rejected or failed deploy reports by source and HTTP status" },
+  deploylist_store_errors_total: { type: "counter", help: "Failed store operations" },
+  deploylist_store_operation_seconds: { type: "histogram", help: "Store operation latency in seconds" },
+} as const;
+
+type MetricName = keyof typeof METRICS;
+
+const globalForMetrics = globalThis as unknown as { __deploylistMetrics?: Registry };
+
+function registry(): Registry {
+  if (!globalForMetrics.__deploylistMetrics) {
+    globalForMetrics.__deploylistMetrics = { counters: new Map(), histograms: new Map() };
+  }
+  return globalForMetrics.__deploylistMetrics;
+}
+
+function seriesKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+function series<T>(all: Map<string, Map<string, T>>, name: MetricName, labels: Labels, create: () => T): T {
+  const byName = all.get(name) ?? new Map<string, T>();
+  all.set(name, byName);
+  const key = seriesKey(labels);
+  const existing = byName.get(key);
+  if (existing) return existing;
+  const created = create();
+  byName.set(key, created);
+  return created;
+}
+
+function inc(name: MetricName, labels: Labels): void {
+  series(registry().counters, name, labels, () => ({ labels, value: 0 })).value += 1;
+}
+
+function observe(name: MetricName, labels: Labels, seconds: number): void {
+  const h = series(registry().histograms, name, labels, () => ({ labels, buckets: LATENCY_BUCKETS.map(() => 0), sum: 0, count: 0 }));
+  const i = LATENCY_BUCKETS.findIndex((le) => seconds <= le);
+  if (i >= 0) h.buckets[i] += 1;
+  h.sum += seconds;
+  h.count += 1;
+}
+
+// 新建记录或状态变更时调用，按记录当前的状态计数
+export function countDeploy(record: DeployRecord): void {
+  inc("deploylist_deploys_total", {
+    workspace: currentWorkspace(),
+    project: record.projectName,
+    environment: record.environment,
+    status: record.status,
+  });
+}
+
+// source 为 api（POST /api/deploy）或 webhook 的平台名；只传已知的值，避免任意字符串撑大指标
+export function countIngestError(source: string, status: number): void {
+  inc("deploylist_ingest_errors_total", { workspace: currentWorkspace(), source, status: String(status) });
+}
+
+export function observeStoreOperation(store: string, operation: string, seconds: number, ok: boolean): void {
+  observe("deploylist_store_operation_seconds", { store, operation }, seconds);
+  if (!ok) countStoreError(store, operation);
+}
+
+// 存储操作以外、但因读写数据失败的环节（如实时推送的补发）也计入存储失败数
+export function countStoreError(store: string, operation: string): void {
+  inc("deploylist_store_errors_total", { store, operation });
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return "";
+  return `{${entries.map(([k, v]) => `${k}="${escapeLabel(v)}"`).join(",")}}`;
+}
+
+// 令牌的可见范围：只输出该工作区、这些项目（为空表示全部）的序列
+export interface MetricsScope {
+  workspace: string;
+  projects?: string[];
+}
+
+// 不带对应标签的序列（如存储操作）不属于任何工作区或项目，限定范围时不输出
+function inScope(labels: Labels, scope: MetricsScope | undefined): boolean {
+  if (!scope) return true;
+  if (labels.workspace !== scope.workspace) return false;
+  return !scope.projects || (labels.project !== undefined && scope.projects.includes(labels.project));
+}
+
+// Prometheus 文本格式（text/plain; version=0.0.4）；没有数据的计数器也输出 HELP / TYPE
+export function renderMetrics(scope?: MetricsScope): string {
+  const { counters, histograms } = registry();
+  const lines: string[] = [];
+  for (const [name, { type, help }] of Object.entries(METRICS)) {
+    lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+    for (const { labels, value } of counters.get(name)?.values() ?? []) {
+      if (!inScope(labels, scope)) continue;
+      lines.push(`${name}${formatLabels(labels)} ${value}`);
+    }
+    for (const { labels, buckets, sum, count } of histograms.get(name)?.values() ?? []) {
+      if (!inScope(labels, scope)) continue;
+      let cumulative = 0;
+      LATENCY_BUCKETS.forEach((le, i) => {
+        cumulative += buckets[i];
+        lines.push(`${name}_bucket${formatLabels({ ...labels, le: String(le) })} ${cumulative}`);
+      });
+      lines.push(`${name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`);
+      lines.push(`${name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${name}_count${formatLabels(labels)} ${count}`);
+    }
+  }
+  return lines.join("\n") + "\n";
+}
@@ -0,0 +1,52 @@
+import { legacyListMigration } from "@/lib/migrations/legacy-list";
+import { noteArtifactsMigration } from "@/lib/migrations/note-artifacts";
+import { searchIndexMigration } from "@/lib/migrations/search-index";
+import { workspacesMigration } from "@/lib/migrations/workspaces";
+import type { AppliedMigration, Migration, SchemaState } from "@/lib/migrations/types";
+import { getRootStore, resetLegacyCheck } from "@/lib/store";
+
+export type { AppliedMigration, Migration, SchemaState } from "@/lib/migrations/types";
+
+// 迁移状态存于全局存储，迁移的 up 也拿到全局存储：004 之前的数据都在共用的键中
+const META_COLLECTION = "meta";
+const SCHEMA_DOC = "schema";
+
+// 按版本号升序排列；新增迁移只能追加在末尾
+export const MIGRATIONS: Migration[] = [legacyListMigration, searchIndexMigration, noteArtifactsMigration, workspacesMigration];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export type PendingMigration = Pick<Migration, "version" | "name" | "description">;
+
+export async function getSchemaState(): Promise<SchemaState> {
+  return (await getRootStore().getDoc<SchemaState>(META_COLLECTION, SCHEMA_DOC)) ?? { version: 0, applied: [] };
+}
+
+export function pendingMigrations(state: SchemaState): PendingMigration[] {
+  return MIGRATIONS.filter((m) => m.version > state.version).map(({ version, name, description }) => ({ version, name, description }));
+}
+
+// 依次执行尚未执行的迁移，每完成一个就写回版本号；已是最新版本时什么也不做，可以放心重复调用
+export async function runMigrations(dryRun: boolean): Promise<{ from: number; to: number; applied: AppliedMigration[]; pending: PendingMigration[] }> {
+  const store = getRootStore();
+  let state = await getSchemaState();
+  const from = state.version;
+  if (dryRun) return { from, to: from, applied: [], pending: pendingMigrations(state) };
+
+  const applied: AppliedMigration[] = [];
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= state.version) continue;
+    let result: Record<string, unknown>;
+    try {
+      result = await migration.up(store);
+    } catch (e) {
+      throw new Error(`migration ${migration.version} ${migration.name} failed: ${(e as Error).message}`);
+    }
+    const entry: AppliedMigration = { version: migration.version, name: migration.name, appliedAt: new Date().toISOString(), result };
+    state = { version: migration.version, applied: [...state.applied, entry] };
+    await store.putDoc(META_COLLECTION, SCHEMA_DOC, state);
+    resetLegacyCheck(); // 默认工作区立即改用迁移后的键
+    applied.push(entry);
+  }
+  return { from, to: state.version, applied, pending: pendingMigrations(state) };
+}
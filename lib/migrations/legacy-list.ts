@@ -0,0 +1,64 @@
+import { DEPLOY_KEY, DEPLOY_ZSET_KEY, PROJECT_SET_KEY, redis } from "@/lib/redis";
+import { resolveRetention, retentionExpiry } from "@/lib/retention";
+import { coerceRecord } from "@/lib/store/redis";
+import type { Migration } from "@/lib/migrations/types";
+import type { DeployRecord } from "@/lib/types";
+
+const BATCH = 100;
+
+// 001：旧版本把记录写在 deploy_records List 里，之后改为 ZSET + 单条记录键并一直双写双读
+// 把只存在于 List 中的记录迁入新结构，按记录重建项目集合，最后删除 List；只对 redis 后端有效
+export const legacyListMigration: Migration = {
+  version: 1,
+  name: "legacy-list",
+  description: "move deploy_records List entries into the ZSET and record keys, rebuild deploy_projects, drop the List",
+
+  async up(store) {
+    if (store.kind !== "redis" || !redis) return { skipped: `no legacy list in ${store.kind} store` };
+
+    const items = (await redis.lrange(DEPLOY_KEY, 0, -1)) as unknown as unknown[];
+    const byId = new Map<string, DeployRecord>();
+    for (const item of items ?? []) {
+      const record = coerceRecord(item);
+      // List 按写入倒序排列，同一 id 以最先出现的（最新写入的）为准
+      if (record && !byId.has(record.id)) byId.set(record.id, record);
+    }
+
+    let moved = 0;
+    let existing = 0;
+    let expired = 0;
+    const records = Array.from(byId.values());
+    for (let i = 0; i < records.length; i += BATCH) {
+      const chunk = records.slice(i, i + BATCH);
+      const scores = (await redis.zmscore(DEPLOY_ZSET_KEY, chunk.map((r) => r.id))) as (number | null)[] | null;
+      for (const [j, record] of chunk.entries()) {
+        if (scores?.[j] != null && (await store.getRecord(record.id))) {
+          existing += 1;
+          continue;
+        }
+        const retention = await resolveRetention(record.projectName, record.environment);
+        // 需要归档的记录不设过期，超出保留期的由清理任务归档后删除
+        const expiresAt = retentionExpiry(retention, new Date(record.deployedAt).getTime());
+        const ttlMs = expiresAt === null ? undefined : new Date(expiresAt).getTime() - Date.now();
+        if (ttlMs !== undefined && ttlMs <= 0) {
+          expired += 1;
+          continue;
+        }
+        await store.putRecord({ ...record, expiresAt }, ttlMs);
+        moved += 1;
+      }
+    }
+
+    // 按现存记录重建项目集合：先补齐再移除多余的，避免读到短暂的空集合
+    const projects = new Set<string>();
+    for await (const batch of store.scanRecords({ min: 0, max: Number.MAX_SAFE_INTEGER }, BATCH)) {
+      for (const record of batch) projects.add(record.projectName);
+    }
+    if (projects.size > 0) await redis.sadd(PROJECT_SET_KEY, ...(Array.from(projects) as [string, ...string[]]));
+    const stale = (await store.listProjects()).filter((p) => !projects.has(p));
+    await store.removeProjects(stale);
+
+    await redis.del(DEPLOY_KEY);
+    return { listed: records.length, moved, existing, expired, projects: projects.size, removedProjects: stale.length };
+  },
+};
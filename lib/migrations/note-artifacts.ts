@@ -0,0 +1,25 @@
+import { extractArtifacts } from "@/lib/artifacts";
+import type { Migration } from "@/lib/migrations/types";
+import type { DeployRecord } from "@/lib/types";
+
+const BATCH = 100;
+
+// 003：为没有 artifacts 字段的旧记录从备注中识别构建产物（蒲公英、TestFlight、安装包、镜像）
+export const noteArtifactsMigration: Migration = {
+  version: 3,
+  name: "note-artifacts",
+  description: "extract build artifacts from the note of records written before the artifacts field existed",
+
+  async up(store) {
+    const records: DeployRecord[] = [];
+    for await (const batch of store.scanRecords({ min: 0, max: Number.MAX_SAFE_INTEGER }, BATCH)) records.push(...batch);
+    let updated = 0;
+    for (const record of records) {
+      if (record.artifacts) continue;
+      const artifacts = extractArtifacts(record.note);
+      if (artifacts.length === 0) continue;
+      if (await store.updateRecord({ ...record, artifacts })) updated += 1;
+    }
+    return { scanned: records.length, updated };
+  },
+};
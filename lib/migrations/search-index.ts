@@ -0,0 +1,22 @@
+import type { Migration } from "@/lib/migrations/types";
+import type { DeployRecord } from "@/lib/types";
+
+const BATCH = 100;
+
+// 002：为检索倒排索引补建已有记录的词条；此后由存储层在写入时维护
+export const searchIndexMigration: Migration = {
+  version: 2,
+  name: "search-index",
+  description: "build the full-text search index for existing records",
+
+  async up(store) {
+    const records: DeployRecord[] = [];
+    for await (const batch of store.scanRecords({ min: 0, max: Number.MAX_SAFE_INTEGER }, BATCH)) records.push(...batch);
+    // 原样覆盖一次记录即可重建其词条（保留原过期时间）
+    let indexed = 0;
+    for (const record of records) {
+      if (await store.updateRecord(record)) indexed += 1;
+    }
+    return { indexed };
+  },
+};
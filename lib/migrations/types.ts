@@ -0,0 +1,22 @@
+import type { DeployStore } from "@/lib/store";
+
+// 存储结构迁移：version 从 1 开始递增，已执行的最大版本号记录在存储中
+export interface Migration {
+  version: number;
+  name: string;
+  description: string;
+  // 必须可以重复执行：中途失败后重跑不会产生重复或丢失数据；返回值记入迁移历史
+  up(store: DeployStore): Promise<Record<string, unknown>>;
+}
+
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  appliedAt: string;
+  result: Record<string, unknown>;
+}
+
+export interface SchemaState {
+  version: number; // 0 表示尚未执行过任何迁移
+  applied: AppliedMigration[];
+}
@@ -0,0 +1,62 @@
+import type { Redis } from "@upstash/redis";
+import { DEFAULT_WORKSPACE } from "@/lib/contract";
+import { DOC_INDEX_PREFIX, DOC_PREFIX, redis } from "@/lib/redis";
+import { workspaceDataFile, workspaceKeyPrefix } from "@/lib/store";
+import { moveFileData } from "@/lib/store/file";
+import type { Migration } from "@/lib/migrations/types";
+
+const BATCH = 200;
+// 留在全局存储中的文档集合：迁移状态与工作区登记
+const GLOBAL_COLLECTIONS = ["meta", "workspaces"];
+
+function isGlobalKey(key: string): boolean {
+  return GLOBAL_COLLECTIONS.some((c) => key === `${DOC_INDEX_PREFIX}${c}` || key.startsWith(`${DOC_PREFIX}${c}:`));
+}
+
+// 共用的 deploy_* 键改名到默认工作区的前缀下；默认工作区已有同名键（升级后、迁移前写入的数据）时：
+// 集合与排序索引取并集并保留较长的过期时间，其余键保留已有的新值
+async function moveRedisKeys(redis: Redis, prefix: string): Promise<Record<string, unknown>> {
+  // 先收集再改名，边 SCAN 边改名可能重复或遗漏
+  const keys: string[] = [];
+  let cursor = "0";
+  do {
+    const [next, batch]: [string, string[]] = await redis.scan(cursor, { match: "deploy_*", count: BATCH });
+    keys.push(...batch.filter((key) => !isGlobalKey(key)));
+    cursor = String(next);
+  } while (cursor !== "0");
+
+  let moved = 0;
+  let merged = 0;
+  for (const key of keys) {
+    const target = `${prefix}${key}`;
+    if (await redis.renamenx(key, target)) {
+      moved += 1;
+      continue;
+    }
+    const type = await redis.type(key);
+    if (type === "set" || type === "zset") {
+      const ttl = Math.max(await redis.pttl(key), await redis.pttl(target));
+      if (type === "set") await redis.sunionstore(target, target, key);
+      else await redis.zunionstore(target, 2, [target, key], { aggregate: "max" });
+      // 并集写入会清除目标键的过期时间；-1 表示不过期，无需恢复
+      if (ttl > 0) await redis.pexpire(target, ttl);
+    }
+    await redis.del(key);
+    merged += 1;
+  }
+  return { scanned: keys.length, moved, merged };
+}
+
+// 004：引入工作区后各工作区使用独立的键命名空间（redis 键前缀 ws:<slug>:，本地文件 deploy.<slug>.json）
+// 把此前共用的记录、项目、令牌与各项设置移入默认工作区 youpik；迁移状态与工作区登记留在全局存储
+export const workspacesMigration: Migration = {
+  version: 4,
+  name: "workspaces",
+  description: "move records, projects, tokens and settings from the shared keys into the default youpik workspace",
+
+  async up(store) {
+    if (store.kind === "redis" && redis) return moveRedisKeys(redis, workspaceKeyPrefix(DEFAULT_WORKSPACE));
+    if (store.kind === "file") return moveFileData(workspaceDataFile(""), workspaceDataFile(DEFAULT_WORKSPACE), GLOBAL_COLLECTIONS);
+    return { skipped: "memory store keeps no data across restarts" };
+  },
+};
@@ -0,0 +1,125 @@
+import { createHmac } from "crypto";
+import type { DeployEventType } from "@/lib/events";
+import type { DeployRecord, NotifyChannel, NotifyTemplate } from "@/lib/types";
+
+const REQUEST_TIMEOUT_MS = 10_000;
+
+const DEFAULT_TEMPLATE: NotifyTemplate = {
+  title: "[{{status}}] {{projectName}} · {{environment}}",
+  body: "{{title}}\n分支：{{branch}}\n提交：{{commit}}\n运行人：{{operator}}\n时间：{{deployedAt}}{{noteLine}}",
+};
+
+export interface ChannelMessage {
+  title: string;
+  body: string;
+}
+
+export interface SendResult {
+  ok: boolean;
+  status: number;
+  error?: string;
+}
+
+// 把 {{field}} 替换成记录字段；未知字段替换为空串
+export function renderTemplate(template: string, event: DeployEventType, record: DeployRecord): string {
+  const values: Record<string, string> = {
+    ...Object.fromEntries(Object.entries(record).map(([k, v]) => [k, typeof v === "string" || typeof v === "number" ? String(v) : ""])),
+    event,
+    noteLine: record.note ? `\n备注：${record.note}` : "",
+  };
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, key: string) => values[key] ?? "");
+}
+
+export function buildMessage(channel: NotifyChannel, event: DeployEventType, record: DeployRecord): ChannelMessage {
+  const template = channel.template ?? DEFAULT_TEMPLATE;
+  return { title: renderTemplate(template.title, event, record), body: renderTemplate(template.body, event, record) };
+}
+
+// 钉钉 / 飞书机器人加签：HMAC-SHA256 后 base64
+function dingtalkSign(secret: string, timestamp: number): string {
+  return createHmac("sha256", secret).update(`${timestamp}\n${secret}`).digest("base64");
+}
+
+function feishuSign(secret: string, timestamp: number): string {
+  return createHmac("sha256", `${timestamp}\n${secret}`).update("").digest("base64");
+}
+
+// 按渠道类型构造请求
+function buildRequest(channel: NotifyChannel, event: DeployEventType, record: DeployRecord, message: ChannelMessage): { url: string; init: RequestInit } {
+  const json = (payload: unknown, headers: Record<string, string> = {}) => ({
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body: JSON.stringify(payload),
+  });
+
+  switch (channel.type) {
+    case "bark": {
+      const base = channel.url.endsWith("/") ? channel.url : `${channel.url}/`;
+      return { url: `${base}${encodeURIComponent(message.title)}/${encodeURIComponent(message.body)}`, init: { method: "GET" } };
+    }
+    case "dingtalk": {
+      let url = channel.url;
+      if (channel.secret) {
+        const ts = Date.now();
+        url += `${url.includes("?") ? "&" : "?"}timestamp=${ts}&sign=${encodeURIComponent(dingtalkSign(channel.secret, ts))}`;
+      }
+      return { url, init: json({ msgtype: "markdown", markdown: { title: message.title, text: `### ${message.title}\n\n${message.body.replace(/\n/g, "\n\n")}` } }) };
+    }
+    case "feishu": {
+      const payload: Record<string, unknown> = { msg_type: "text", content: { text: `${message.title}\n${message.body}` } };
+      if (channel.secret) {
+        const ts = Math.floor(Date.now() / 1000);
+        payload.timestamp = String(ts);
+        payload.sign = feishuSign(channel.secret, ts);
+      }
+      return { url: channel.url, init: json(payload) };
+    }
+    case "wecom":
+      return { url: channel.url, init: json({ msgtype: "markdown", markdown: { content: `**${message.title}**\n${message.body}` } }) };
+    case "webhook":
+    default: {
+      const body = JSON.stringify({ event, title: message.title, text: message.body, record });
+      const headers: Record<string, string> = { "Content-Type": "application/json" };
+      if (channel.secret) {
+        headers["X-Deploylist-Signature"] = `sha256=${createHmac("sha256", channel.secret).update(body).digest("hex")}`;
+      }
+      return { url: channel.url, init: { method: "POST", headers, body } };
+    }
+  }
+}
+
+// 钉钉 / 飞书 / 企业微信机器人出错时 HTTP 状态仍是 200，错误码在响应体中：钉钉与企业微信为 errcode，飞书为 code
+// 限流错误码按 429 处理以便重试：钉钉 130101、飞书 9499、企业微信 45009
+const BODY_CODE_CHANNELS: NotifyChannel["type"][] = ["dingtalk", "feishu", "wecom"];
+const THROTTLE_CODES = [130101, 9499, 45009];
+
+function bodyError(text: string): { code: number; message: string } | null {
+  let body: { errcode?: unknown; errmsg?: unknown; code?: unknown; msg?: unknown };
+  try {
+    body = JSON.parse(text);
+  } catch {
+    return { code: -1, message: `unexpected response: ${text.slice(0, 200)}` };
+  }
+  const code = Number(body?.errcode ?? body?.code ?? 0);
+  if (code === 0) return null;
+  return { code, message: `errcode ${code}: ${String(body.errmsg ?? body.msg ?? "")}`.slice(0, 200) };
+}
+
+export async function sendToChannel(channel: NotifyChannel, event: DeployEventType, record: DeployRecord): Promise<SendResult> {
+  const message = buildMessage(channel, event, record);
+  const { url, init } = buildRequest(channel, event, record, message);
+  try {
+    const res = await fetch(url, { ...init, signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+    if (!res.ok) {
+      const text = await res.text().catch(() => "");
+      return { ok: false, status: res.status, error: text.slice(0, 200) || res.statusText };
+    }
+    if (BODY_CODE_CHANNELS.includes(channel.type)) {
+      const error = bodyError(await res.text());
+      if (error) return { ok: false, status: THROTTLE_CODES.includes(error.code) ? 429 : res.status, error: error.message };
+    }
+    return { ok: true, status: res.status };
+  } catch (e) {
+    return { ok: false, status: 0, error: (e as Error).message };
+  }
+}
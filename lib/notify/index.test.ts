@@ -0,0 +1,93 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { dispatchDeployNotifications, listDeliveries, retryPendingDeliveries, saveChannel, saveRule } from "@/lib/notify";
+import { getStore } from "@/lib/store";
+import type { DeployRecord } from "@/lib/types";
+
+const MINUTE_MS = 60_000;
+
+const record: DeployRecord = {
+  id: "r1",
+  title: "release",
+  projectName: "shop",
+  operator: "ci",
+  environment: "prod",
+  branch: "main",
+  commit: "fix checkout",
+  deployedAt: new Date().toISOString(),
+  status: "failed",
+};
+
+// 按顺序返回给定的 HTTP 状态码
+function respondWith(...statuses: number[]) {
+  const fetchMock = vi.fn(async () => new Response("", { status: statuses.shift() ?? 200 }));
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}
+
+beforeEach(async () => {
+  vi.useFakeTimers({ toFake: ["Date"] });
+  const store = getStore();
+  await store.clear();
+  for (const collection of ["notify_channels", "notify_rules", "notify_deliveries"]) {
+    for (const doc of await store.listDocs<{ id: string }>(collection)) await store.deleteDoc(collection, doc.id);
+  }
+  await store.putRecord(record, 24 * 60 * MINUTE_MS);
+  const channel = await saveChannel({ name: "hook", type: "webhook", url: "https://hooks.example.com/deploy", enabled: true });
+  await saveRule({
+    name: "failures",
+    projects: ["*"],
+    environments: ["prod"],
+    statuses: ["failed"],
+    events: ["deploy"],
+    channelIds: [channel.id],
+    enabled: true,
+  });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe("notification retries", () => {
+  it("stores a failed send as pending with the next attempt time", async () => {
+    respondWith(503);
+    await dispatchDeployNotifications("deploy", record);
+    const [delivery] = await listDeliveries();
+    expect(delivery).toMatchObject({ status: "pending", attempts: 1, responseStatus: 503, event: "deploy" });
+    expect(Date.parse(delivery.nextAttemptAt ?? "")).toBe(Date.now() + MINUTE_MS);
+  });
+
+  it("retries only deliveries that are due", async () => {
+    const fetchMock = respondWith(503, 200);
+    await dispatchDeployNotifications("deploy", record);
+    expect(await retryPendingDeliveries()).toEqual({ attempted: 0, sent: 0, failed: 0, pending: 0 });
+
+    vi.setSystemTime(Date.now() + MINUTE_MS);
+    expect(await retryPendingDeliveries()).toEqual({ attempted: 1, sent: 1, failed: 0, pending: 0 });
+    const [delivery] = await listDeliveries();
+    expect(delivery).toMatchObject({ status: "sent", attempts: 2 });
+    expect(delivery.nextAttemptAt).toBeUndefined();
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("backs off exponentially and gives up after the last attempt", async () => {
+    respondWith(500, 500, 500, 500);
+    await dispatchDeployNotifications("deploy", record);
+    for (const waitMinutes of [1, 2, 4]) {
+      vi.setSystemTime(Date.now() + waitMinutes * MINUTE_MS - 1);
+      expect((await retryPendingDeliveries()).attempted).toBe(0);
+      vi.setSystemTime(Date.now() + 1);
+      expect((await retryPendingDeliveries()).attempted).toBe(1);
+    }
+    const [delivery] = await listDeliveries();
+    expect(delivery).toMatchObject({ status: "failed", attempts: 4 });
+  });
+
+  it("does not retry client errors", async () => {
+    respondWith(404);
+    await dispatchDeployNotifications("deploy", record);
+    const [delivery] = await listDeliveries();
+    expect(delivery).toMatchObject({ status: "failed", attempts: 1, responseStatus: 404 });
+  });
+});
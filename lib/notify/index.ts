@@ -0,0 +1,227 @@
+import { randomUUID } from "crypto";
+import type { DeployEventType } from "@/lib/events";
+import { sendToChannel } from "@/lib/notify/channels";
+import { matchAny } from "@/lib/pattern";
+import { getStore } from "@/lib/store";
+import type {
+  DeployRecord,
+  NotifyChannel,
+  NotifyChannelPayload,
+  NotifyDelivery,
+  NotifyRule,
+  NotifyRulePayload,
+} from "@/lib/types";
+
+// 服务端通知：新记录写入或状态变更后按规则匹配渠道发送，失败按指数退避重试，并记录投递日志
+// 待重试的投递存在存储中，由定时调用的 retryPendingDeliveries 发送，不依赖进程内的定时器
+
+const CHANNEL_COLLECTION = "notify_channels";
+const RULE_COLLECTION = "notify_rules";
+const DELIVERY_COLLECTION = "notify_deliveries";
+
+const MAX_ATTEMPTS = 4;
+const BACKOFF_BASE_MS = 60_000; // 第 n 次重试不早于上次发送后 BACKOFF_BASE_MS * 2^(n-1)，由定时任务按 nextAttemptAt 取出
+const DELIVERY_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_DELIVERIES = 200; // 列表接口最多返回的条数
+
+// 渠道列表对外隐藏密钥
+export type PublicChannel = Omit<NotifyChannel, "secret"> & { hasSecret: boolean };
+
+function toPublicChannel({ secret, ...rest }: NotifyChannel): PublicChannel {
+  return { ...rest, hasSecret: Boolean(secret) };
+}
+
+export async function listChannels(): Promise<PublicChannel[]> {
+  const channels = await getStore().listDocs<NotifyChannel>(CHANNEL_COLLECTION);
+  return channels.map(toPublicChannel).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export async function getChannel(id: string): Promise<NotifyChannel | null> {
+  return getStore().getDoc<NotifyChannel>(CHANNEL_COLLECTION, id);
+}
+
+export async function saveChannel(input: NotifyChannelPayload, id?: string): Promise<PublicChannel> {
+  const store = getStore();
+  const existing = id ? await store.getDoc<NotifyChannel>(CHANNEL_COLLECTION, id) : null;
+  const channel: NotifyChannel = {
+    ...input,
+    // 更新时未传密钥则沿用旧值，避免列表接口隐藏密钥后回写丢失
+    secret: input.secret ?? existing?.secret,
+    id: existing?.id ?? randomUUID(),
+    createdAt: existing?.createdAt ?? new Date().toISOString(),
+  };
+  await store.putDoc(CHANNEL_COLLECTION, channel.id, channel);
+  return toPublicChannel(channel);
+}
+
+export async function deleteChannel(id: string): Promise<boolean> {
+  return getStore().deleteDoc(CHANNEL_COLLECTION, id);
+}
+
+export async function listRules(): Promise<NotifyRule[]> {
+  const rules = await getStore().listDocs<NotifyRule>(RULE_COLLECTION);
+  return rules.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export async function getRule(id: string): Promise<NotifyRule | null> {
+  return getStore().getDoc<NotifyRule>(RULE_COLLECTION, id);
+}
+
+export async function saveRule(input: NotifyRulePayload, id?: string): Promise<NotifyRule> {
+  const store = getStore();
+  const existing = id ? await store.getDoc<NotifyRule>(RULE_COLLECTION, id) : null;
+  const rule: NotifyRule = {
+    ...input,
+    id: existing?.id ?? randomUUID(),
+    createdAt: existing?.createdAt ?? new Date().toISOString(),
+  };
+  await store.putDoc(RULE_COLLECTION, rule.id, rule);
+  return rule;
+}
+
+export async function deleteRule(id: string): Promise<boolean> {
+  return getStore().deleteDoc(RULE_COLLECTION, id);
+}
+
+export async function listDeliveries(limit = MAX_DELIVERIES): Promise<NotifyDelivery[]> {
+  const deliveries = await getStore().listDocs<NotifyDelivery>(DELIVERY_COLLECTION);
+  return deliveries.sort((a, b) => b.createdAt.localeCompare(a.createdAt)).slice(0, limit);
+}
+
+// 一次重试任务的结果：attempted 为实际发送的条数，其余按发送后的状态计数
+export interface RetrySummary {
+  attempted: number;
+  sent: number;
+  failed: number;
+  pending: number;
+}
+
+export function ruleMatches(rule: NotifyRule, event: DeployEventType, record: DeployRecord): boolean {
+  if (!rule.enabled) return false;
+  if (rule.events.length > 0 && !rule.events.includes(event)) return false;
+  if (rule.statuses.length > 0 && !rule.statuses.includes(record.status)) return false;
+  if (!matchAny(rule.projects, record.projectName)) return false;
+  return matchAny(rule.environments, record.environment);
+}
+
+function backoffAt(attempts: number): string {
+  return new Date(Date.now() + BACKOFF_BASE_MS * 2 ** Math.max(0, attempts - 1)).toISOString();
+}
+
+// 发送一次并记下结果；可重试的失败按指数退避排好下一次，由 retryPendingDeliveries 处理
+async function attempt(delivery: NotifyDelivery, channel: NotifyChannel, record: DeployRecord): Promise<NotifyDelivery> {
+  const result = await sendToChannel(channel, delivery.event, record);
+  const attempts = delivery.attempts + 1;
+  // 4xx（限流除外）属于配置错误，重试也不会成功
+  const retryable = !result.ok && (result.status === 0 || result.status === 429 || result.status >= 500);
+  const status = result.ok ? "sent" : retryable && attempts < MAX_ATTEMPTS ? "pending" : "failed";
+  const next: NotifyDelivery = {
+    ...delivery,
+    status,
+    attempts,
+    responseStatus: result.status || undefined,
+    lastError: result.error,
+    nextAttemptAt: status === "pending" ? backoffAt(attempts) : undefined,
+    updatedAt: new Date().toISOString(),
+  };
+  await getStore().putDoc(DELIVERY_COLLECTION, next.id, next, DELIVERY_TTL_MS);
+  return next;
+}
+
+// 先写入待发送的投递再发送：发送途中进程退出（重启、serverless 实例回收）时，这条投递到期后由重试任务接着发
+async function queueDelivery(rule: NotifyRule, channel: NotifyChannel, event: DeployEventType, record: DeployRecord): Promise<NotifyDelivery> {
+  const now = new Date().toISOString();
+  const delivery: NotifyDelivery = {
+    id: randomUUID(),
+    ruleId: rule.id,
+    channelId: channel.id,
+    recordId: record.id,
+    projectName: record.projectName,
+    event,
+    status: "pending",
+    attempts: 0,
+    nextAttemptAt: backoffAt(1),
+    createdAt: now,
+    updatedAt: now,
+  };
+  await getStore().putDoc(DELIVERY_COLLECTION, delivery.id, delivery, DELIVERY_TTL_MS);
+  return delivery;
+}
+
+// 匹配规则并写入待发送的投递，返回投递及其渠道；每条 规则 × 渠道 一条投递
+async function queueDeliveries(event: DeployEventType, record: DeployRecord): Promise<{ delivery: NotifyDelivery; channel: NotifyChannel }[]> {
+  const rules = (await listRules()).filter((rule) => ruleMatches(rule, event, record));
+  const store = getStore();
+  const channels = new Map<string, NotifyChannel | null>();
+  const queued: { delivery: NotifyDelivery; channel: NotifyChannel }[] = [];
+  for (const rule of rules) {
+    for (const channelId of rule.channelIds) {
+      if (!channels.has(channelId)) channels.set(channelId, await store.getDoc<NotifyChannel>(CHANNEL_COLLECTION, channelId));
+      const channel = channels.get(channelId);
+      if (channel && channel.enabled) queued.push({ delivery: await queueDelivery(rule, channel, event, record), channel });
+    }
+  }
+  return queued;
+}
+
+// 匹配规则并立即发送一次，失败的投递留给重试任务；各投递互不阻塞
+export async function dispatchDeployNotifications(event: DeployEventType, record: DeployRecord): Promise<void> {
+  const queued = await queueDeliveries(event, record);
+  await Promise.allSettled(queued.map(({ delivery, channel }) => attempt(delivery, channel, record)));
+}
+
+// 写入路径上调用：等到投递写入存储再返回（之后进程退出也不会丢），首次发送不等待；通知失败不影响写入
+// 读取规则或渠道失败时还没有具体的投递，记一条 ruleId / channelId 为空的失败投递，在投递日志中可见
+export async function triggerDeployNotifications(event: DeployEventType, record: DeployRecord): Promise<void> {
+  try {
+    const queued = await queueDeliveries(event, record);
+    for (const { delivery, channel } of queued) attempt(delivery, channel, record).catch(() => undefined);
+  } catch (e) {
+    const now = new Date().toISOString();
+    const delivery: NotifyDelivery = {
+      id: randomUUID(),
+      ruleId: "",
+      channelId: "",
+      recordId: record.id,
+      projectName: record.projectName,
+      event,
+      status: "failed",
+      attempts: 0,
+      lastError: `dispatch failed: ${(e as Error).message}`,
+      createdAt: now,
+      updatedAt: now,
+    };
+    // 存储不可用时日志也写不进去，这类失败已计入 /api/metrics 的 deploylist_store_errors_total
+    await getStore().putDoc(DELIVERY_COLLECTION, delivery.id, delivery, DELIVERY_TTL_MS).catch(() => undefined);
+  }
+}
+
+// 重试到期的待发送投递，由定时任务调用 POST /api/notify/deliveries/retry（建议每分钟一次，每个工作区各调一次）
+// 重试不依赖写入请求所在进程的定时器；发送前先把 nextAttemptAt 推后，调用重叠时不会立即重复发送
+// 发送的是记录的当前内容：期间状态有变化时消息按新状态渲染
+export async function retryPendingDeliveries(): Promise<RetrySummary> {
+  const store = getStore();
+  const now = new Date().toISOString();
+  const due = (await store.listDocs<NotifyDelivery>(DELIVERY_COLLECTION)).filter(
+    (d) => d.status === "pending" && d.nextAttemptAt !== undefined && d.nextAttemptAt <= now,
+  );
+  const summary: RetrySummary = { attempted: 0, sent: 0, failed: 0, pending: 0 };
+  for (const delivery of due) {
+    const [channel, record] = await Promise.all([
+      store.getDoc<NotifyChannel>(CHANNEL_COLLECTION, delivery.channelId),
+      store.getRecord(delivery.recordId),
+    ]);
+    let next: NotifyDelivery;
+    if (!channel || !channel.enabled || !record) {
+      const lastError = !record ? `record not found: ${delivery.recordId}` : `channel removed or disabled: ${delivery.channelId}`;
+      next = { ...delivery, status: "failed", lastError, nextAttemptAt: undefined, updatedAt: new Date().toISOString() };
+      await store.putDoc(DELIVERY_COLLECTION, next.id, next, DELIVERY_TTL_MS);
+    } else {
+      await store.putDoc(DELIVERY_COLLECTION, delivery.id, { ...delivery, nextAttemptAt: backoffAt(delivery.attempts + 1) }, DELIVERY_TTL_MS);
+      next = await attempt(delivery, channel, record);
+      summary.attempted += 1;
+    }
+    summary[next.status] += 1;
+  }
+  return summary;
+}
@@ -0,0 +1,862 @@
+import {
+  ARCHIVE_DOWNLOAD_PARAMS,
+  CHANNEL_TYPES,
+  CLEAN_SCHEMA,
+  CREATE_DEPLOY_SCHEMA,
+  CURRENT_DEPLOY_PARAMS,
+  DEPLOY_EXPORT_PARAMS,
+  DEPLOY_FILTER_PARAMS,
+  DEPLOY_LIST_PARAMS,
+  DEPLOY_SEARCH_PARAMS,
+  DEPLOY_STATS_PARAMS,
+  DEPLOY_STATUSES,
+  FREEZE_SCHEMA,
+  LOCK_SCHEMA,
+  MARK_READ_SCHEMA,
+  MAX_EXTERNAL_ID,
+  MAX_USER_NAME,
+  NOTIFY_CHANNEL_SCHEMA,
+  NOTIFY_RULE_SCHEMA,
+  PROJECT_SCHEMA,
+  REPO_LINK_SCHEMA,
+  RETENTION_SCHEMA,
+  ROLLBACK_SCHEMA,
+  SUBSCRIPTION_SCHEMA,
+  TOKEN_PERMISSIONS,
+  TOKEN_SCHEMA,
+  TRANSFER_FORMATS,
+  UPDATE_DEPLOY_SCHEMA,
+  WORKSPACE_SCHEMA,
+} from "@/lib/contract";
+import { objectJsonSchema, queryParameters } from "@/lib/schema";
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+const json = (schema: Record<string, unknown>, description = "OK") => ({
+  description,
+  content: { "application/json": { schema } },
+});
+
+const USER_PARAM = { name: "name", in: "path", required: true, schema: { type: "string", maxLength: MAX_USER_NAME } };
+
+const ERRORS = {
+  "400": json(ref("Error"), "请求参数不合法"),
+  "401": json(ref("Error"), "缺少或无效的令牌"),
+  "403": json(ref("Error"), "令牌权限或项目范围不足"),
+  "503": json(ref("Error"), "存储不可用"),
+};
+
+function recordSchema(): Record<string, unknown> {
+  const create = objectJsonSchema(CREATE_DEPLOY_SCHEMA) as { properties: Record<string, unknown> };
+  return {
+    type: "object",
+    required: ["id", "title", "projectName", "operator", "environment", "branch", "commit", "deployedAt", "status"],
+    properties: {
+      id: { type: "string" },
+      ...create.properties,
+      deployedAt: { type: "string", format: "date-time", description: "部署时间" },
+      createdAt: { type: "string", format: "date-time", description: "写入时间，未读数按它判断" },
+      restoredAt: { type: "string", format: "date-time", description: "写入时已超出保留期（如从归档重新导入）的写入时间，保留期从此起算" },
+      expiresAt: {
+        type: "string",
+        format: "date-time",
+        nullable: true,
+        description: "按保留策略设定的过期时间；null 表示需要归档，由清理任务归档后删除",
+      },
+      finishedAt: { type: "string", format: "date-time", description: "结束时间（状态离开 running 时记录）" },
+      durationMs: { type: "integer", description: "部署耗时：finishedAt - deployedAt" },
+      violations: { type: "array", items: ref("DeployViolation"), description: "新建时命中的封版窗口或他人的环境锁" },
+      history: {
+        type: "array",
+        description: "状态变更历史，按时间正序",
+        items: {
+          type: "object",
+          required: ["status", "at"],
+          properties: {
+            status: { type: "string", enum: DEPLOY_STATUSES },
+            at: { type: "string", format: "date-time" },
+            note: { type: "string" },
+          },
+        },
+      },
+    },
+  };
+}
+
+// 由 lib/contract.ts 的字段定义生成 OpenAPI 3.0 文档，覆盖对外的部署读写接口
+export function buildOpenApiDocument(serverUrl: string): Record<string, unknown> {
+  return {
+    openapi: "3.0.3",
+    info: {
+      title: "deploylist",
+      version: "1.0.0",
+      description: "部署记录看板 API。以下路径属于默认工作区；其他工作区把 /api/ 换成 /api/{workspace}/，如 /api/team-a/deploy",
+    },
+    servers: [{ url: serverUrl }],
+    security: [{ bearerAuth: [] }],
+    paths: {
+      "/api/deploy": {
+        get: {
+          summary: "按时间倒序分页查询部署记录",
+          parameters: queryParameters(DEPLOY_LIST_PARAMS),
+          responses: { "200": json(ref("DeployPage")), ...ERRORS },
+        },
+        post: {
+          summary: "新建部署记录；同一 externalId 重复提交时返回已有记录。命中封版或他人的环境锁时照常写入，verdict 给出判定",
+          parameters: [{ name: "Idempotency-Key", in: "header", required: false, schema: { type: "string", maxLength: MAX_EXTERNAL_ID } }],
+          requestBody: { required: true, content: { "application/json": { schema: ref("CreateDeployPayload") } } },
+          responses: {
+            "200": json({
+              type: "object",
+              required: ["data", "created", "verdict"],
+              properties: { data: ref("DeployRecord"), created: { type: "boolean" }, verdict: ref("DeployVerdict") },
+            }),
+            ...ERRORS,
+          },
+        },
+      },
+      "/api/deploy/{id}": {
+        get: {
+          summary: "记录详情，附同一项目与环境的上一次成功部署及提交对比链接",
+          parameters: [{ name: "id", in: "path", required: true, description: "记录 id 或 externalId", schema: { type: "string" } }],
+          responses: {
+            "200": json({
+              type: "object",
+              required: ["data", "previous", "compareUrl", "commitUrl"],
+              properties: {
+                data: ref("DeployRecord"),
+                previous: { allOf: [ref("DeployRecord")], nullable: true },
+                compareUrl: { type: "string", nullable: true, description: "previous → data 的提交对比页" },
+                commitUrl: { type: "string", nullable: true },
+              },
+            }),
+            "404": json(ref("Error"), "记录不存在"),
+            ...ERRORS,
+          },
+        },
+        patch: {
+          summary: "更新部署状态或备注",
+          parameters: [{ name: "id", in: "path", required: true, description: "记录 id 或 externalId", schema: { type: "string" } }],
+          requestBody: { required: true, content: { "application/json": { schema: ref("UpdateDeployPayload") } } },
+          responses: {
+            "200": json({ type: "object", required: ["data"], properties: { data: ref("DeployRecord") } }),
+            "404": json(ref("Error"), "记录不存在"),
+            ...ERRORS,
+          },
+        },
+      },
+      "/api/deploy/{id}/rollback": {
+        post: {
+          summary: "回滚这次部署：新建一条 rollbackOf 指向它的记录，分支、提交、版本与产物取自回滚目标",
+          parameters: [
+            { name: "id", in: "path", required: true, description: "被回滚的记录 id 或 externalId", schema: { type: "string" } },
+            { name: "Idempotency-Key", in: "header", required: false, schema: { type: "string", maxLength: MAX_EXTERNAL_ID } },
+          ],
+          requestBody: { required: true, content: { "application/json": { schema: ref("RollbackPayload") } } },
+          responses: {
+            "200": json({
+              type: "object",
+              required: ["data", "created", "target", "verdict"],
+              properties: {
+                data: ref("DeployRecord"),
+                created: { type: "boolean" },
+                target: { allOf: [ref("DeployRecord")], description: "回滚到的那次部署" },
+                verdict: ref("DeployVerdict"),
+              },
+            }),
+            "404": json(ref("Error"), "记录不存在"),
+            ...ERRORS,
+          },
+        },
+      },
+      "/api/deploy/current": {
+        get: {
+          summary: "每个 项目 × 环境 最近一次成功部署",
+          parameters: queryParameters(CURRENT_DEPLOY_PARAMS),
+          responses: {
+            "200": json({ type: "object", required: ["data"], properties: { data: { type: "array", items: ref("DeployRecord") } } }),
+            ...ERRORS,
+          },
+        },
+      },
+      "/api/deploy/known-good": {
+        get: {
+          summary: "每个 项目 × 环境 最近一次成功且没有被回滚过的部署（最后已知可用的版本）",
+          parameters: queryParameters(CURRENT_DEPLOY_PARAMS),
+          responses: {
+            "200": json({ type: "object", required: ["data"], properties: { data: { type: "array", items: ref("DeployRecord") } } }),
+            ...ERRORS,
+          },
+        },
+      },
+      "/api/deploy/search": {
+        get: {
+          summary: "全文检索提交记录、备注、运行人与分支，例：operator:张三 branch:release/* status:failed \"payment timeout\"",
+          parameters: queryParameters(DEPLOY_SEARCH_PARAMS),
+          responses: {
+            "200": json({
+              type: "object",
+              required: ["data", "total", "capped", "highlights"],
+              properties: {
+                data: { type: "array", items: ref("DeployRecord") },
+                total: { type: "integer", description: "命中总数；capped 时只是已校验部分的命中数" },
+                capped: { type: "boolean", description: "候选过多，只校验了最新的一部分，可加条件缩小范围" },
+                highlights: { type: "array", items: { type: "string" }, description: "需要在 commit / note 中高亮的文本" },
+              },
+            }),
+            ...ERRORS,
+          },
+        },
+      },
+      "/api/deploy/export": {
+        get: {
+          summary: "导出保留期内的记录",
+          parameters: queryParameters(DEPLOY_EXPORT_PARAMS),
+          responses: {
+            "200": {
+              description: "OK",
+              content: {
+                "text/csv": { schema: { type: "string" } },
+                "application/json": { schema: { type: "array", items: ref("DeployRecord") } },
+                "application/x-ndjson": { schema: { type: "string" } },
+              },
+            },
+            ...ERRORS,
+          },
+        },
+      },
+      "/api/deploy/import": {
+        post: {
+          summary: "批量导入历史记录，返回逐行结果",
+          parameters: [{ name: "format", in: "query", required: false, schema: { type: "string", enum: TRANSFER_FORMATS } }],
+          requestBody: {
+            required: true,
+            content: {
+              "text/csv": { schema: { type: "string" } },
+              "application/json": { schema: { type: "array", items: ref("CreateDeployPayload") } },
+              "application/x-ndjson": { schema: { type: "string" } },
+            },
+          },
+          responses: { "200": json(ref("ImportReport")), ...ERRORS },
+        },
+      },
+      "/api/clean": {
+        post: {
+          summary: "按范围删除记录；至少指定一个范围，清空全部需显式传 all: true",
+          requestBody: { required: true, content: { "application/json": { schema: ref("CleanPayload") } } },
+          responses: {
+            "200": json({
+              type: "object",
+              required: ["ok", "dryRun", "matched", "deleted"],
+              properties: { ok: { type: "boolean" }, dryRun: { type: "boolean" }, matched: { type: "integer" }, deleted: { type: "integer" } },
+            }),
+            ...ERRORS,
+          },
+        },
+      },
+      "/api/tokens": {
+        get: {
+          summary: "API 令牌列表（不含明文与哈希）",
+          responses: {
+            "200": json({ type: "object", required: ["data"], properties: { data: { type: "array", items: ref("ApiToken") } } }),
+            ...ERRORS,
+          },
+        },
+        post: {
+          summary: "签发令牌；项目与权限不能超出签发者自己的范围，明文令牌只在本次响应中返回",
+          requestBody: { required: true, content: { "application/json": { schema: ref("CreateTokenPayload") } } },
+          responses: {
+            "200": json({ type: "object", required: ["token", "data"], properties: { token: { type: "string" }, data: ref("ApiToken") } }),
+            ...ERRORS,
+          },
+        },
+      },
+      "/api/notify/channels": {
+        get: {
+          summary: "通知渠道（不含密钥）",
+          responses: {
+            "200": json({ type: "object", required: ["data"], properties: { data: { type: "array", items: ref("NotifyChannel") } } }),
+            ...ERRORS,
+          },
+        },
+        post: {
+          summary: "新建通知渠道",
+          requestBody: { required: true, content: { "application/json": { schema: ref("NotifyChannelPayload") } } },
+          responses: { "200": json({ type: "object", required: ["data"], properties: { data: ref("NotifyChannel") } }), ...ERRORS },
+        },
+      },
+      "/api/notify/rules": {
+        get: {
+          summary: "通知规则",
+          responses: {
+            "200": json({ type: "object", required: ["data"], properties: { data: { type: "array", items: ref("NotifyRule") } } }),
+            ...ERRORS,
+          },
+        },
+        post: {
+          summary: "新建通知规则：匹配项目、环境、状态与事件，发送到指定渠道",
+          requestBody: { required: true, content: { "application/json": { schema: ref("NotifyRulePayload") } } },
+          responses: { "200": json({ type: "object", required: ["data"], properties: { data: ref("NotifyRule") } }), ...ERRORS },
+        },
+      },
+      "/api/archives": {
+        get: {
+          summary: "归档快照列表（不含内容）",
+          parameters: queryParameters(DEPLOY_FILTER_PARAMS),
+          responses: {
+            "200": json({ type: "object", required: ["data"], properties: { data: { type: "array", items: ref("DeployArchive") } } }),
+            ...ERRORS,
+          },
+        },
+      },
+      "/api/archives/{id}": {
+        get: {
+          summary: "下载归档快照",
+          parameters: [
+            { name: "id", in: "path", required: true, schema: { type: "string" } },
+            ...queryParameters(ARCHIVE_DOWNLOAD_PARAMS),
+          ],
+          responses: {
+            "200": {
+              description: "OK",
+              content: {
+                "application/x-ndjson": { schema: { type: "string" } },
+                "application/json": { schema: { type: "array", items: ref("DeployRecord") } },
+                "text/csv": { schema: { type: "string" } },
+                "application/gzip": { schema: { type: "string", format: "binary" } },
+              },
+            },
+            "404": json(ref("Error"), "快照不存在"),
+            ...ERRORS,
+          },
+        },
+      },
+      "/api/retention": {
+        get: {
+          summary: "保留策略；未命中任何策略的记录按 defaultDays 保留",
+          responses: {
+            "200": json({
+              type: "object",
+              required: ["data", "defaultDays"],
+              properties: { data: { type: "array", items: ref("RetentionPolicy") }, defaultDays: { type: "integer" } },
+            }),
+            ...ERRORS,
+          },
+        },
+        post: {
+          summary: "新建保留策略，对之后写入的记录生效，已有记录由 /api/retention/sweep 按新策略处理",
+          requestBody: { required: true, content: { "application/json": { schema: ref("RetentionPolicyPayload") } } },
+          responses: { "200": json({ type: "object", required: ["data"], properties: { data: ref("RetentionPolicy") } }), ...ERRORS },
+        },
+      },
+      "/api/retention/{id}": {
+        put: {
+          summary: "整体替换保留策略",
+          parameters: [{ name: "id", in: "path", required: true, schema: { type: "string" } }],
+          requestBody: { required: true, content: { "application/json": { schema: ref("RetentionPolicyPayload") } } },
+          responses: {
+            "200": json({ type: "object", required: ["data"], properties: { data: ref("RetentionPolicy") } }),
+            "404": json(ref("Error"), "策略不存在"),
+            ...ERRORS,
+          },
+        },
+        delete: {
+          summary: "删除保留策略",
+          parameters: [{ name: "id", in: "path", required: true, schema: { type: "string" } }],
+          responses: { "200": json({ type: "object", properties: { ok: { type: "boolean" } } }), "404": json(ref("Error"), "策略不存在"), ...ERRORS },
+        },
+      },
+      "/api/retention/sweep": {
+        post: {
+          summary: "按保留策略清理过期记录，需要归档的先写入归档快照；适合由定时任务每天调用",
+          requestBody: {
+            content: { "application/json": { schema: { type: "object", properties: { dryRun: { type: "boolean", description: "为 true 时只统计" } } } } },
+          },
+          responses: {
+            "200": json({
+              type: "object",
+              required: ["ok", "dryRun", "expired", "archived", "deleted", "reapplied", "archives"],
+              properties: {
+                ok: { type: "boolean" },
+                dryRun: { type: "boolean" },
+                expired: { type: "integer" },
+                archived: { type: "integer" },
+                deleted: { type: "integer" },
+                reapplied: { type: "integer", description: "过期时间与当前策略不一致而重写的记录数" },
+                archives: { type: "array", items: ref("DeployArchive") },
+              },
+            }),
+            ...ERRORS,
+          },
+        },
+      },
+      "/api/freezes": {
+        get: {
+          summary: "封版窗口",
+          parameters: [
+            {
+              name: "active",
+              in: "query",
+              required: false,
+              description: "为 1 时只返回正在生效或尚未开始的窗口",
+              schema: { type: "string", enum: ["1"] },
+            },
+          ],
+          responses: {
+            "200": json({ type: "object", required: ["data"], properties: { data: { type: "array", items: ref("FreezeWindow") } } }),
+            ...ERRORS,
+          },
+        },
+        post: {
+          summary: "新建封版窗口；窗口内命中的部署照常记录，但会被标记",
+          requestBody: { required: true, content: { "application/json": { schema: ref("CreateFreezePayload") } } },
+          responses: { "200": json({ type: "object", required: ["data"], properties: { data: ref("FreezeWindow") } }), ...ERRORS },
+        },
+      },
+      "/api/freezes/{id}": {
+        delete: {
+          summary: "解除封版",
+          parameters: [{ name: "id", in: "path", required: true, schema: { type: "string" } }],
+          responses: {
+            "200": json({ type: "object", properties: { ok: { type: "boolean" } } }),
+            "404": json(ref("Error"), "封版窗口不存在"),
+            ...ERRORS,
+          },
+        },
+      },
+      "/api/locks": {
+        get: {
+          summary: "未过期的环境锁",
+          responses: {
+            "200": json({ type: "object", required: ["data"], properties: { data: { type: "array", items: ref("EnvironmentLock") } } }),
+            ...ERRORS,
+          },
+        },
+        post: {
+          summary: "占用环境；同一占用人重复提交视为续期",
+          requestBody: { required: true, content: { "application/json": { schema: ref("ClaimLockPayload") } } },
+          responses: {
+            "200": json({
+              type: "object",
+              required: ["data", "created"],
+              properties: { data: ref("EnvironmentLock"), created: { type: "boolean" } },
+            }),
+            "409": json(
+              { type: "object", required: ["error", "lock"], properties: { error: { type: "string" }, lock: ref("EnvironmentLock") } },
+              "已被他人占用",
+            ),
+            ...ERRORS,
+          },
+        },
+      },
+      "/api/locks/{id}": {
+        delete: {
+          summary: "释放环境锁",
+          parameters: [{ name: "id", in: "path", required: true, schema: { type: "string" } }],
+          responses: {
+            "200": json({ type: "object", properties: { ok: { type: "boolean" } } }),
+            "404": json(ref("Error"), "锁不存在或已过期"),
+            ...ERRORS,
+          },
+        },
+      },
+      "/api/projects": {
+        get: {
+          summary: "项目名（有记录的与已登记的）及项目登记信息",
+          responses: {
+            "200": json({
+              type: "object",
+              required: ["data", "registry"],
+              properties: {
+                data: { type: "array", items: { type: "string" } },
+                registry: { type: "array", items: ref("ProjectInfo") },
+              },
+            }),
+            ...ERRORS,
+          },
+        },
+        post: {
+          summary: "登记项目",
+          requestBody: { required: true, content: { "application/json": { schema: ref("ProjectInfoPayload") } } },
+          responses: {
+            "200": json({ type: "object", required: ["data"], properties: { data: ref("ProjectInfo") } }),
+            "409": json(ref("Error"), "项目已登记，或名称、别名已被占用"),
+            ...ERRORS,
+          },
+        },
+      },
+      "/api/projects/{name}": {
+        get: {
+          summary: "项目登记信息",
+          parameters: [{ name: "name", in: "path", required: true, schema: { type: "string" } }],
+          responses: {
+            "200": json({ type: "object", required: ["data"], properties: { data: ref("ProjectInfo") } }),
+            "404": json(ref("Error"), "项目未登记"),
+            ...ERRORS,
+          },
+        },
+        put: {
+          summary: "整体替换登记信息，名称取自路径",
+          parameters: [{ name: "name", in: "path", required: true, schema: { type: "string" } }],
+          requestBody: { required: true, content: { "application/json": { schema: ref("ProjectInfoPayload") } } },
+          responses: {
+            "200": json({ type: "object", required: ["data"], properties: { data: ref("ProjectInfo") } }),
+            "404": json(ref("Error"), "项目未登记"),
+            "409": json(ref("Error"), "别名已被其他项目占用"),
+            ...ERRORS,
+          },
+        },
+        delete: {
+          summary: "删除登记信息，已有记录不受影响",
+          parameters: [{ name: "name", in: "path", required: true, schema: { type: "string" } }],
+          responses: { "200": json({ type: "object", properties: { ok: { type: "boolean" } } }), "404": json(ref("Error"), "项目未登记"), ...ERRORS },
+        },
+      },
+      "/api/repos": {
+        get: {
+          summary: "仓库链接模板：按项目名模式生成对比链接与提交链接",
+          responses: {
+            "200": json({ type: "object", required: ["data"], properties: { data: { type: "array", items: ref("RepoLink") } } }),
+            ...ERRORS,
+          },
+        },
+        post: {
+          summary: "新建仓库链接模板",
+          requestBody: { required: true, content: { "application/json": { schema: ref("RepoLinkPayload") } } },
+          responses: { "200": json({ type: "object", required: ["data"], properties: { data: ref("RepoLink") } }), ...ERRORS },
+        },
+      },
+      "/api/workspaces": {
+        get: {
+          summary: "全部工作区，默认工作区在前",
+          responses: {
+            "200": json({ type: "object", required: ["data"], properties: { data: { type: "array", items: ref("Workspace") } } }),
+            ...ERRORS,
+          },
+        },
+        post: {
+          summary: "新建工作区（需要环境变量中的管理员令牌）",
+          requestBody: { required: true, content: { "application/json": { schema: objectJsonSchema(WORKSPACE_SCHEMA) } } },
+          responses: {
+            "200": json({ type: "object", required: ["data"], properties: { data: ref("Workspace") } }),
+            "409": json(ref("Error"), "工作区已存在"),
+            ...ERRORS,
+          },
+        },
+      },
+      "/api/users/{name}": {
+        get: {
+          summary: "用户的订阅与已读位置",
+          parameters: [USER_PARAM],
+          responses: {
+            "200": json({ type: "object", required: ["data"], properties: { data: ref("UserState") } }),
+            "404": json(ref("Error"), "用户不存在"),
+            ...ERRORS,
+          },
+        },
+        put: {
+          summary: "保存订阅（项目名与环境名模式，支持 *，为空表示全部）；用户不存在时创建。需要 ingest 权限或绑定了该用户的令牌",
+          parameters: [USER_PARAM],
+          requestBody: { required: true, content: { "application/json": { schema: ref("UserSubscriptions") } } },
+          responses: {
+            "200": json({ type: "object", required: ["data"], properties: { data: ref("UserState") } }),
+            "409": json(ref("Error"), "用户数已达上限"),
+            ...ERRORS,
+          },
+        },
+      },
+      "/api/users/{name}/unread": {
+        get: {
+          summary: "订阅范围内的未读数；用户不存在时创建（需要 ingest 权限或绑定了该用户的令牌），此前的记录都算已读",
+          parameters: [USER_PARAM],
+          responses: {
+            "200": json({
+              type: "object",
+              required: ["data", "user"],
+              properties: { data: ref("UnreadSummary"), user: ref("UserState") },
+            }),
+            ...ERRORS,
+          },
+        },
+      },
+      "/api/users/{name}/read": {
+        post: {
+          summary: "标为已读：不传 projects 时全部标为已读。需要 ingest 权限或绑定了该用户的令牌",
+          parameters: [USER_PARAM],
+          requestBody: { content: { "application/json": { schema: ref("MarkReadPayload") } } },
+          responses: {
+            "200": json({ type: "object", required: ["data"], properties: { data: ref("UserState") } }),
+            "409": json(ref("Error"), "用户数已达上限"),
+            ...ERRORS,
+          },
+        },
+      },
+      "/api/stats": {
+        get: {
+          summary: "部署统计",
+          parameters: queryParameters(DEPLOY_STATS_PARAMS),
+          responses: { "200": json({ type: "object", required: ["data"], properties: { data: { type: "object" } } }), ...ERRORS },
+        },
+      },
+      "/api/health": {
+        get: {
+          summary: "健康检查：存储连通性与延迟、存储结构版本；不需要令牌",
+          security: [],
+          responses: {
+            "200": json(ref("Health"), "ok，或有待执行迁移时为 degraded"),
+            "503": json(ref("Health"), "存储不可用，status 为 down"),
+          },
+        },
+      },
+      "/api/metrics": {
+        get: {
+          summary: "Prometheus 指标：部署计数、上报失败数、存储操作延迟；计数从进程启动起算",
+          responses: {
+            "200": { description: "OK", content: { "text/plain": { schema: { type: "string" } } } },
+            ...ERRORS,
+          },
+        },
+      },
+    },
+    components: {
+      securitySchemes: { bearerAuth: { type: "http", scheme: "bearer", description: "dl_ 开头的 API 令牌" } },
+      schemas: {
+        CreateDeployPayload: objectJsonSchema(CREATE_DEPLOY_SCHEMA),
+        UpdateDeployPayload: objectJsonSchema(UPDATE_DEPLOY_SCHEMA),
+        RollbackPayload: objectJsonSchema(ROLLBACK_SCHEMA),
+        CleanPayload: objectJsonSchema(CLEAN_SCHEMA),
+        CreateTokenPayload: objectJsonSchema(TOKEN_SCHEMA),
+        ApiToken: {
+          type: "object",
+          required: ["id", "name", "projects", "permissions", "createdAt"],
+          properties: {
+            id: { type: "string" },
+            name: { type: "string" },
+            projects: { type: "array", items: { type: "string" } },
+            permissions: { type: "array", items: { type: "string", enum: TOKEN_PERMISSIONS } },
+            user: { type: "string", description: "绑定的用户名" },
+            createdAt: { type: "string", format: "date-time" },
+            revokedAt: { type: "string", format: "date-time" },
+          },
+        },
+        NotifyChannelPayload: objectJsonSchema(NOTIFY_CHANNEL_SCHEMA),
+        NotifyChannel: {
+          type: "object",
+          required: ["id", "name", "type", "url", "enabled", "hasSecret", "createdAt"],
+          properties: {
+            id: { type: "string" },
+            name: { type: "string" },
+            type: { type: "string", enum: CHANNEL_TYPES },
+            url: { type: "string" },
+            template: { type: "object", properties: { title: { type: "string" }, body: { type: "string" } } },
+            enabled: { type: "boolean" },
+            hasSecret: { type: "boolean", description: "是否配置了密钥，密钥本身不返回" },
+            createdAt: { type: "string", format: "date-time" },
+          },
+        },
+        NotifyRulePayload: objectJsonSchema(NOTIFY_RULE_SCHEMA),
+        RepoLinkPayload: objectJsonSchema(REPO_LINK_SCHEMA),
+        RepoLink: {
+          allOf: [
+            ref("RepoLinkPayload"),
+            { type: "object", required: ["id", "createdAt"], properties: { id: { type: "string" }, createdAt: { type: "string", format: "date-time" } } },
+          ],
+        },
+        RetentionPolicyPayload: objectJsonSchema(RETENTION_SCHEMA),
+        RetentionPolicy: {
+          allOf: [
+            ref("RetentionPolicyPayload"),
+            { type: "object", required: ["id", "createdAt"], properties: { id: { type: "string" }, createdAt: { type: "string", format: "date-time" } } },
+          ],
+        },
+        NotifyRule: {
+          allOf: [
+            ref("NotifyRulePayload"),
+            { type: "object", required: ["id", "createdAt"], properties: { id: { type: "string" }, createdAt: { type: "string", format: "date-time" } } },
+          ],
+        },
+        DeployRecord: recordSchema(),
+        DeployPage: {
+          type: "object",
+          required: ["data", "nextCursor"],
+          properties: { data: { type: "array", items: ref("DeployRecord") }, nextCursor: { type: "string", nullable: true } },
+        },
+        DeployViolation: {
+          type: "object",
+          required: ["type", "id"],
+          properties: {
+            type: { type: "string", enum: ["freeze", "lock"] },
+            id: { type: "string", description: "封版窗口或环境锁的 id" },
+            reason: { type: "string" },
+            to: { type: "string", format: "date-time", description: "freeze：封版结束时间" },
+            holder: { type: "string", description: "lock：占用人" },
+            expiresAt: { type: "string", format: "date-time", description: "lock：到期时间" },
+          },
+        },
+        DeployVerdict: {
+          type: "object",
+          required: ["allowed", "violations"],
+          properties: { allowed: { type: "boolean" }, violations: { type: "array", items: ref("DeployViolation") } },
+        },
+        CreateFreezePayload: objectJsonSchema(FREEZE_SCHEMA),
+        ClaimLockPayload: objectJsonSchema(LOCK_SCHEMA),
+        FreezeWindow: {
+          type: "object",
+          required: ["id", "projects", "environments", "from", "to", "reason", "createdAt"],
+          properties: {
+            id: { type: "string" },
+            projects: { type: "array", items: { type: "string" }, description: "项目名模式，支持 *" },
+            environments: { type: "array", items: { type: "string" }, description: "环境名模式，支持 *" },
+            from: { type: "string", format: "date-time" },
+            to: { type: "string", format: "date-time" },
+            reason: { type: "string" },
+            createdAt: { type: "string", format: "date-time" },
+          },
+        },
+        EnvironmentLock: {
+          type: "object",
+          required: ["id", "projectName", "environment", "holder", "expiresAt", "createdAt"],
+          properties: {
+            id: { type: "string" },
+            projectName: { type: "string" },
+            environment: { type: "string" },
+            holder: { type: "string" },
+            reason: { type: "string" },
+            expiresAt: { type: "string", format: "date-time" },
+            createdAt: { type: "string", format: "date-time" },
+          },
+        },
+        ProjectInfoPayload: objectJsonSchema(PROJECT_SCHEMA),
+        ProjectInfo: {
+          allOf: [
+            ref("ProjectInfoPayload"),
+            {
+              type: "object",
+              required: ["createdAt", "updatedAt"],
+              properties: { createdAt: { type: "string", format: "date-time" }, updatedAt: { type: "string", format: "date-time" } },
+            },
+          ],
+        },
+        Workspace: {
+          type: "object",
+          required: ["slug", "name"],
+          properties: {
+            slug: { type: "string", description: "页面 /{slug} 与接口 /api/{slug}/..." },
+            name: { type: "string" },
+            createdAt: { type: "string", format: "date-time", description: "默认工作区没有登记，为空" },
+          },
+        },
+        Health: {
+          type: "object",
+          required: ["status", "store", "schema"],
+          properties: {
+            status: { type: "string", enum: ["ok", "degraded", "down"] },
+            store: {
+              type: "object",
+              required: ["kind", "ok", "latencyMs"],
+              properties: {
+                kind: { type: "string", enum: ["redis", "file", "memory"], nullable: true },
+                ok: { type: "boolean" },
+                latencyMs: { type: "integer" },
+                error: { type: "string" },
+              },
+            },
+            schema: {
+              type: "object",
+              nullable: true,
+              required: ["version", "latest", "pending"],
+              properties: {
+                version: { type: "integer" },
+                latest: { type: "integer" },
+                pending: {
+                  type: "array",
+                  items: {
+                    type: "object",
+                    properties: { version: { type: "integer" }, name: { type: "string" }, description: { type: "string" } },
+                  },
+                },
+              },
+            },
+          },
+        },
+        UserSubscriptions: objectJsonSchema(SUBSCRIPTION_SCHEMA),
+        MarkReadPayload: objectJsonSchema(MARK_READ_SCHEMA),
+        UserState: {
+          type: "object",
+          required: ["name", "subscriptions", "readAllAt", "readAt", "createdAt", "updatedAt"],
+          properties: {
+            name: { type: "string" },
+            subscriptions: ref("UserSubscriptions"),
+            readAllAt: { type: "string", format: "date-time", description: "此前部署的记录都算已读" },
+            readAt: {
+              type: "object",
+              additionalProperties: { type: "string", format: "date-time" },
+              description: "按项目记录的已读位置，晚于 readAllAt 时生效",
+            },
+            createdAt: { type: "string", format: "date-time" },
+            updatedAt: { type: "string", format: "date-time" },
+          },
+        },
+        UnreadSummary: {
+          type: "object",
+          required: ["total", "projects", "latest", "capped"],
+          properties: {
+            total: { type: "integer" },
+            projects: {
+              type: "array",
+              description: "各项目未读数，多的在前",
+              items: {
+                type: "object",
+                required: ["projectName", "count"],
+                properties: { projectName: { type: "string" }, count: { type: "integer" } },
+              },
+            },
+            latest: { allOf: [ref("DeployRecord")], nullable: true, description: "最新的一条未读" },
+            capped: { type: "boolean", description: "未读过多，只统计了一部分" },
+          },
+        },
+        DeployArchive: {
+          type: "object",
+          required: ["id", "projectName", "environment", "count", "from", "to", "bytes", "createdAt"],
+          properties: {
+            id: { type: "string" },
+            projectName: { type: "string" },
+            environment: { type: "string" },
+            count: { type: "integer" },
+            from: { type: "string", format: "date-time" },
+            to: { type: "string", format: "date-time" },
+            bytes: { type: "integer", description: "压缩后大小" },
+            createdAt: { type: "string", format: "date-time" },
+          },
+        },
+        ImportReport: {
+          type: "object",
+          required: ["accepted", "rejected", "results"],
+          properties: {
+            accepted: { type: "integer" },
+            rejected: { type: "integer" },
+            results: {
+              type: "array",
+              items: {
+                type: "object",
+                required: ["row", "ok"],
+                properties: { row: { type: "integer" }, ok: { type: "boolean" }, id: { type: "string" }, error: { type: "string" } },
+              },
+            },
+          },
+        },
+        Error: {
+          type: "object",
+          required: ["error"],
+          properties: {
+            error: { type: "string" },
+            fields: {
+              type: "array",
+              items: { type: "object", required: ["field", "message"], properties: { field: { type: "string" }, message: { type: "string" } } },
+            },
+          },
+        },
+      },
+    },
+  };
+}
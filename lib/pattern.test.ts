@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { matchAny, matchPattern, patternSpecificity } from "@/lib/pattern";
+
+describe("matchPattern", () => {
+  it("matches everything with a bare *", () => {
+    expect(matchPattern("*", "shop")).toBe(true);
+    expect(matchPattern("*", "")).toBe(true);
+  });
+
+  it("compares patterns without * literally and case-sensitively", () => {
+    expect(matchPattern("shop", "shop")).toBe(true);
+    expect(matchPattern("shop", "Shop")).toBe(false);
+    expect(matchPattern("shop", "shop-api")).toBe(false);
+  });
+
+  it("anchors wildcards at both ends", () => {
+    expect(matchPattern("shop-*", "shop-api")).toBe(true);
+    expect(matchPattern("shop-*", "myshop-api")).toBe(false);
+    expect(matchPattern("*-prod", "eu-prod")).toBe(true);
+    expect(matchPattern("release/*/hotfix", "release/1.2/hotfix")).toBe(true);
+  });
+
+  it("treats regex characters as literals", () => {
+    expect(matchPattern("v1.*", "v1.2")).toBe(true);
+    expect(matchPattern("v1.*", "v1x2")).toBe(false);
+    expect(matchPattern("a+b*", "aab")).toBe(false);
+    expect(matchPattern("(api)*", "(api)-v2")).toBe(true);
+  });
+});
+
+describe("matchAny", () => {
+  it("matches when any pattern does", () => {
+    expect(matchAny(["web", "api-*"], "api-gateway")).toBe(true);
+    expect(matchAny(["web", "api-*"], "worker")).toBe(false);
+    expect(matchAny([], "web")).toBe(false);
+  });
+});
+
+describe("patternSpecificity", () => {
+  it("ranks exact names over wildcards over *", () => {
+    expect(patternSpecificity(["shop"], "shop")).toBe(2);
+    expect(patternSpecificity(["sh*"], "shop")).toBe(1);
+    expect(patternSpecificity(["*"], "shop")).toBe(0);
+    expect(patternSpecificity(["web"], "shop")).toBe(-1);
+  });
+
+  it("uses the most specific matching pattern of the list", () => {
+    expect(patternSpecificity(["*", "sh*", "shop"], "shop")).toBe(2);
+    expect(patternSpecificity(["*", "web"], "shop")).toBe(0);
+  });
+});
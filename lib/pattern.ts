@@ -0,0 +1,21 @@
+// 简单通配：* 匹配任意字符，其余按字面比较（区分大小写）
+export function matchPattern(pattern: string, value: string): boolean {
+  if (pattern === "*") return true;
+  if (!pattern.includes("*")) return pattern === value;
+  const escaped = pattern.split("*").map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"));
+  return new RegExp(`^${escaped.join(".*")}$`).test(value);
+}
+
+export function matchAny(patterns: string[], value: string): boolean {
+  return patterns.some((p) => matchPattern(p, value));
+}
+
+// 命中程度：精确名称 2，带通配的模式 1，* 为 0，不命中为 -1；多条规则命中时用于挑选最具体的一条
+export function patternSpecificity(patterns: string[], value: string): number {
+  let best = -1;
+  for (const pattern of patterns) {
+    if (!matchPattern(pattern, value)) continue;
+    best = Math.max(best, pattern === value ? 2 : pattern === "*" ? 0 : 1);
+  }
+  return best;
+}
@@ -0,0 +1,103 @@
+import { PROJECT_SCHEMA } from "@/lib/contract";
+import { checkTemplate } from "@/lib/repos";
+import { validateObject } from "@/lib/schema";
+import type { Validated } from "@/lib/schema";
+import { getStore } from "@/lib/store";
+import { currentWorkspace } from "@/lib/workspace";
+import type { Parsed, ProjectInfo, ProjectInfoPayload } from "@/lib/types";
+
+// 项目登记：显示名、别名、仓库与链接模板、负责人、允许的环境
+// DEPLOYLIST_PROJECT_REGISTRY=strict 时，上报未登记的项目或不在允许列表中的环境会被拒绝
+
+const PROJECT_COLLECTION = "projects";
+const CACHE_MS = 30_000; // 每次写入都要解析项目，短暂缓存避免反复读存储
+
+export function isRegistryStrict(): boolean {
+  return process.env.DEPLOYLIST_PROJECT_REGISTRY === "strict";
+}
+
+// 按工作区缓存
+const cache = new Map<string, { at: number; projects: ProjectInfo[] }>();
+
+export async function listProjectInfos(): Promise<ProjectInfo[]> {
+  const workspace = currentWorkspace();
+  const cached = cache.get(workspace);
+  if (cached && Date.now() - cached.at < CACHE_MS) return cached.projects;
+  const projects = await getStore().listDocs<ProjectInfo>(PROJECT_COLLECTION);
+  projects.sort((a, b) => a.name.localeCompare(b.name));
+  cache.set(workspace, { at: Date.now(), projects });
+  return projects;
+}
+
+export async function getProjectInfo(name: string): Promise<ProjectInfo | null> {
+  return getStore().getDoc<ProjectInfo>(PROJECT_COLLECTION, name);
+}
+
+export async function saveProjectInfo(input: ProjectInfoPayload): Promise<ProjectInfo> {
+  const store = getStore();
+  const existing = await store.getDoc<ProjectInfo>(PROJECT_COLLECTION, input.name);
+  const now = new Date().toISOString();
+  const project: ProjectInfo = { ...input, createdAt: existing?.createdAt ?? now, updatedAt: now };
+  await store.putDoc(PROJECT_COLLECTION, project.name, project);
+  cache.delete(currentWorkspace());
+  return project;
+}
+
+export async function deleteProjectInfo(name: string): Promise<boolean> {
+  const removed = await getStore().deleteDoc(PROJECT_COLLECTION, name);
+  cache.delete(currentWorkspace());
+  return removed;
+}
+
+// 按名称或别名查找
+export function findProject(projects: ProjectInfo[], name: string): ProjectInfo | null {
+  return projects.find((p) => p.name === name) ?? projects.find((p) => p.aliases.includes(name)) ?? null;
+}
+
+// 名称与别名在所有项目之间不能重复；返回冲突说明
+export function findNameConflict(projects: ProjectInfo[], input: Pick<ProjectInfo, "name" | "aliases">): string | null {
+  for (const other of projects) {
+    if (other.name === input.name) continue;
+    if (other.aliases.includes(input.name)) return `name already used as an alias of ${other.name}: ${input.name}`;
+    const taken = input.aliases.find((alias) => alias === other.name || other.aliases.includes(alias));
+    if (taken) return `alias already used by ${other.name}: ${taken}`;
+  }
+  return null;
+}
+
+// 新建记录前解析项目：别名换成登记的名称；严格模式下校验项目已登记、环境在允许列表中
+export async function resolveDeployProject(projectName: string, environment: string): Promise<Parsed<string>> {
+  const project = findProject(await listProjectInfos(), projectName);
+  if (!project) {
+    return isRegistryStrict() ? { ok: false, error: `unregistered project: ${projectName}` } : { ok: true, value: projectName };
+  }
+  if (isRegistryStrict() && project.environments.length > 0 && !project.environments.some((e) => e.name === environment)) {
+    const allowed = project.environments.map((e) => e.name).join(", ");
+    return { ok: false, error: `environment not allowed for ${project.name}: ${environment} (expected one of ${allowed})` };
+  }
+  return { ok: true, value: project.name };
+}
+
+// 按 PROJECT_SCHEMA 校验请求体，再检查链接模板的占位符与重复的环境；PUT 时 name 取自路径
+// 环境可写成 ["test", { "name": "prod", "production": true }]
+export function parseProjectPayload(body: Record<string, unknown>, name?: string): Validated<ProjectInfoPayload> {
+  const environments = Array.isArray(body.environments)
+    ? body.environments.map((env: unknown) => (typeof env === "string" ? { name: env } : env))
+    : body.environments;
+  const result = validateObject(PROJECT_SCHEMA, { ...body, name: name ?? body.name, environments });
+  if (!result.ok) return result;
+  const fail = (field: string, message: string) => ({ ok: false as const, error: message, fields: [{ field, message }] });
+  const { value } = result;
+  for (const [field, placeholders] of [
+    ["compareUrl", ["from", "to"]],
+    ["commitUrl", ["sha"]],
+  ] as const) {
+    if (value[field] === undefined) continue;
+    const template = checkTemplate(field, value[field], [...placeholders]);
+    if (!template.ok) return fail(field, template.error);
+  }
+  const names = value.environments.map((env) => env.name);
+  const duplicate = names.find((env, i) => names.indexOf(env) !== i);
+  if (duplicate !== undefined) return fail("environments", `duplicate environment: ${duplicate}`);
+  return { ok: true, value: { ...value, aliases: value.aliases.filter((alias) => alias !== value.name) } };
+}
@@ -0,0 +1,294 @@
+// 二维码编码（ISO/IEC 18004）：字节模式、纠错等级 M，自动选择版本与掩码
+// 浏览器与服务端通用，不依赖第三方服务，内网下载链接不会外泄
+
+// 纠错等级 M 下各版本（下标即版本号）每块的纠错码字数与块数
+const ECC_PER_BLOCK = [
+  -1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28,
+  28, 28, 28, 28, 28, 28, 28, 28, 28, 28,
+];
+const NUM_BLOCKS = [
+  -1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37,
+  38, 40, 43, 45, 47, 49,
+];
+const FORMAT_BITS_M = 0;
+const QUIET_ZONE = 4;
+
+type Grid = boolean[][]; // [y][x]，true 为深色
+
+function bit(value: number, i: number): boolean {
+  return ((value >>> i) & 1) !== 0;
+}
+
+// 除功能图形外可放数据的模块数
+function rawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const numAlign = Math.floor(version / 7) + 2;
+    result -= (25 * numAlign - 10) * numAlign - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+}
+
+function dataCodewords(version: number): number {
+  return Math.floor(rawDataModules(version) / 8) - ECC_PER_BLOCK[version] * NUM_BLOCKS[version];
+}
+
+function alignmentPositions(version: number): number[] {
+  if (version === 1) return [];
+  const numAlign = Math.floor(version / 7) + 2;
+  const step = version === 32 ? 26 : Math.ceil((version * 4 + 4) / (numAlign * 2 - 2)) * 2;
+  const result = [6];
+  for (let pos = version * 4 + 17 - 7; result.length < numAlign; pos -= step) result.splice(1, 0, pos);
+  return result;
+}
+
+// GF(2^8) 乘法，本原多项式 x^8 + x^4 + x^3 + x^2 + 1
+function gfMultiply(x: number, y: number): number {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+}
+
+function rsDivisor(degree: number): number[] {
+  const result: number[] = new Array(degree - 1).fill(0);
+  result.push(1);
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < result.length) result[j] ^= result[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+}
+
+function rsRemainder(data: number[], divisor: number[]): number[] {
+  const result: number[] = divisor.map(() => 0);
+  for (const b of data) {
+    const factor = b ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coef, i) => {
+      result[i] ^= gfMultiply(coef, factor);
+    });
+  }
+  return result;
+}
+
+// 数据码字分块、附加纠错码字并交错排列
+function addEccAndInterleave(data: number[], version: number): number[] {
+  const numBlocks = NUM_BLOCKS[version];
+  const eccLen = ECC_PER_BLOCK[version];
+  const rawCodewords = Math.floor(rawDataModules(version) / 8);
+  const numShortBlocks = numBlocks - (rawCodewords % numBlocks);
+  const shortBlockLen = Math.floor(rawCodewords / numBlocks);
+  const divisor = rsDivisor(eccLen);
+  const blocks: number[][] = [];
+  for (let i = 0, k = 0; i < numBlocks; i++) {
+    const dat = data.slice(k, k + shortBlockLen - eccLen + (i < numShortBlocks ? 0 : 1));
+    k += dat.length;
+    const ecc = rsRemainder(dat, divisor);
+    if (i < numShortBlocks) dat.push(0);
+    blocks.push(dat.concat(ecc));
+  }
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      // 短块补的占位字节不输出
+      if (i !== shortBlockLen - eccLen || j >= numShortBlocks) result.push(block[i]);
+    });
+  }
+  return result;
+}
+
+function encodeData(bytes: Uint8Array, version: number): number[] {
+  const bits: number[] = [];
+  const push = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+  push(0b0100, 4); // 字节模式
+  push(bytes.length, version <= 9 ? 8 : 16);
+  for (const b of bytes) push(b, 8);
+  const capacity = dataCodewords(version) * 8;
+  push(0, Math.min(4, capacity - bits.length));
+  push(0, (8 - (bits.length % 8)) % 8);
+  for (let pad = 0xec; bits.length < capacity; pad ^= 0xec ^ 0x11) push(pad, 8);
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) codewords.push(parseInt(bits.slice(i, i + 8).join(""), 2));
+  return codewords;
+}
+
+function maskApplies(mask: number, x: number, y: number): boolean {
+  switch (mask) {
+    case 0:
+      return (x + y) % 2 === 0;
+    case 1:
+      return y % 2 === 0;
+    case 2:
+      return x % 3 === 0;
+    case 3:
+      return (x + y) % 3 === 0;
+    case 4:
+      return (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0;
+    case 5:
+      return ((x * y) % 2) + ((x * y) % 3) === 0;
+    case 6:
+      return (((x * y) % 2) + ((x * y) % 3)) % 2 === 0;
+    default:
+      return (((x + y) % 2) + ((x * y) % 3)) % 2 === 0;
+  }
+}
+
+// 掩码评分（越低越易识别）：长串同色、2x2 同色块、类定位图形、深浅比例失衡
+function penalty(grid: Grid): number {
+  const size = grid.length;
+  let score = 0;
+  const lines: boolean[][] = [];
+  for (let i = 0; i < size; i++) {
+    lines.push(grid[i]);
+    lines.push(grid.map((row) => row[i]));
+  }
+  for (const line of lines) {
+    let run = 1;
+    for (let i = 1; i <= size; i++) {
+      if (i < size && line[i] === line[i - 1]) {
+        run += 1;
+        continue;
+      }
+      if (run >= 5) score += run - 2;
+      run = 1;
+    }
+    const text = line.map((dark) => (dark ? "1" : "0")).join("");
+    for (const pattern of ["10111010000", "00001011101"]) {
+      for (let i = text.indexOf(pattern); i >= 0; i = text.indexOf(pattern, i + 1)) score += 40;
+    }
+  }
+  let dark = 0;
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      if (grid[y][x]) dark += 1;
+      if (x + 1 < size && y + 1 < size) {
+        const c = grid[y][x];
+        if (grid[y][x + 1] === c && grid[y + 1][x] === c && grid[y + 1][x + 1] === c) score += 3;
+      }
+    }
+  }
+  score += Math.floor(Math.abs((dark * 100) / (size * size) - 50) / 5) * 10;
+  return score;
+}
+
+function buildGrid(codewords: number[], version: number, mask: number): Grid {
+  const size = version * 4 + 17;
+  const grid: Grid = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  const reserved: Grid = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  const set = (x: number, y: number, dark: boolean) => {
+    grid[y][x] = dark;
+    reserved[y][x] = true;
+  };
+
+  // 定时图形、定位图形、校正图形
+  for (let i = 0; i < size; i++) {
+    set(6, i, i % 2 === 0);
+    set(i, 6, i % 2 === 0);
+  }
+  for (const [cx, cy] of [
+    [3, 3],
+    [size - 4, 3],
+    [3, size - 4],
+  ]) {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const x = cx + dx;
+        const y = cy + dy;
+        const dist = Math.max(Math.abs(dx), Math.abs(dy));
+        if (x >= 0 && x < size && y >= 0 && y < size) set(x, y, dist !== 2 && dist !== 4);
+      }
+    }
+  }
+  const positions = alignmentPositions(version);
+  const last = positions.length - 1;
+  positions.forEach((cx, i) => {
+    positions.forEach((cy, j) => {
+      if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) set(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+      }
+    });
+  });
+
+  // 格式信息（纠错等级 + 掩码，BCH 编码）
+  const format = (FORMAT_BITS_M << 3) | mask;
+  let rem = format;
+  for (let i = 0; i < 10; i++) rem = (rem << 1) ^ ((rem >>> 9) * 0x537);
+  const formatBits = ((format << 10) | rem) ^ 0x5412;
+  for (let i = 0; i <= 5; i++) set(8, i, bit(formatBits, i));
+  set(8, 7, bit(formatBits, 6));
+  set(8, 8, bit(formatBits, 7));
+  set(7, 8, bit(formatBits, 8));
+  for (let i = 9; i < 15; i++) set(14 - i, 8, bit(formatBits, i));
+  for (let i = 0; i < 8; i++) set(size - 1 - i, 8, bit(formatBits, i));
+  for (let i = 8; i < 15; i++) set(8, size - 15 + i, bit(formatBits, i));
+  set(8, size - 8, true);
+
+  // 版本信息（版本 7 起）
+  if (version >= 7) {
+    let vrem = version;
+    for (let i = 0; i < 12; i++) vrem = (vrem << 1) ^ ((vrem >>> 11) * 0x1f25);
+    const versionBits = (version << 12) | vrem;
+    for (let i = 0; i < 18; i++) {
+      const a = size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      set(a, b, bit(versionBits, i));
+      set(b, a, bit(versionBits, i));
+    }
+  }
+
+  // 数据按两列一组自右向左、上下蛇形填充，并施加掩码
+  let i = 0;
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    for (let vert = 0; vert < size; vert++) {
+      for (let j = 0; j < 2; j++) {
+        const x = right - j;
+        const upward = ((right + 1) & 2) === 0;
+        const y = upward ? size - 1 - vert : vert;
+        if (reserved[y][x]) continue;
+        const dark = i < codewords.length * 8 && bit(codewords[i >>> 3], 7 - (i & 7));
+        i += 1;
+        grid[y][x] = dark !== maskApplies(mask, x, y);
+      }
+    }
+  }
+  return grid;
+}
+
+// 返回模块矩阵（不含静区）；内容超出版本 40 容量时抛错
+export function createQrMatrix(text: string): Grid {
+  const bytes = new TextEncoder().encode(text);
+  let version = 1;
+  while (version <= 40 && 4 + (version <= 9 ? 8 : 16) + bytes.length * 8 > dataCodewords(version) * 8) version += 1;
+  if (version > 40) throw new Error(`qr content too long: ${bytes.length} bytes`);
+  const codewords = addEccAndInterleave(encodeData(bytes, version), version);
+  let best: { grid: Grid; score: number } | null = null;
+  for (let mask = 0; mask < 8; mask++) {
+    const grid = buildGrid(codewords, version, mask);
+    const score = penalty(grid);
+    if (!best || score < best.score) best = { grid, score };
+  }
+  return (best as { grid: Grid }).grid;
+}
+
+// 渲染为 SVG 路径数据，坐标含四个模块宽的静区；viewBox 为 0 0 size size
+export function qrSvgPath(matrix: Grid): { path: string; size: number } {
+  const parts: string[] = [];
+  matrix.forEach((row, y) => {
+    row.forEach((dark, x) => {
+      if (dark) parts.push(`M${x + QUIET_ZONE} ${y + QUIET_ZONE}h1v1h-1z`);
+    });
+  });
+  return { path: parts.join(""), size: matrix.length + QUIET_ZONE * 2 };
+}
@@ -0,0 +1,16 @@
+// 列表参数：支持重复参数 ?single=a&single=b 或逗号分隔 ?plural=a,b
+function parseListParam(searchParams: URLSearchParams, single: string, plural: string): string[] | undefined {
+  const multi = searchParams.getAll(single);
+  const csv = searchParams.get(plural);
+  return multi.length > 0 ? multi : csv ? csv.split(",").map((s) => s.trim()).filter(Boolean) : undefined;
+}
+
+// 支持 ?projectName=a&projectName=b 或 ?projects=a,b
+export function parseProjectFilter(searchParams: URLSearchParams): string[] | undefined {
+  return parseListParam(searchParams, "projectName", "projects");
+}
+
+// 支持 ?environment=a&environment=b 或 ?environments=a,b
+export function parseEnvironmentFilter(searchParams: URLSearchParams): string[] | undefined {
+  return parseListParam(searchParams, "environment", "environments");
+}
@@ -1,16 +1,16 @@
 import { Redis } from "@upstash/redis";
 
-const UPSTASH_REDIS_REST_URL="https://devoted-racer-9395.upstash.io"
-const UPSTASH_REDIS_REST_TOKEN="ASSzAAImcDI1OWE3YzBkNDlmMzE0ZjkyODA5NWExMTE1MmM2ZGJiOHAyOTM5NQ"
-
-const url = UPSTASH_REDIS_REST_URL;
-const token = UPSTASH_REDIS_REST_TOKEN;
+const url = process.env.UPSTASH_REDIS_REST_URL;
+const token = process.env.UPSTASH_REDIS_REST_TOKEN;
 
 export const redis: Redis | null = url && token ? new Redis({ url, token }) : null;
 
-export const DEPLOY_KEY = "deploy_records"; // 旧的 List 索引（兼容保留，不再写入）
+export const DEPLOY_KEY = "deploy_records"; // 旧的 List 索引：不再读写，仅由 lib/migrations/legacy-list.ts 迁移后删除
 export const PROJECT_SET_KEY = "deploy_projects";
 export const DEPLOY_ZSET_KEY = "deploy_records_z"; // 新的时间索引（score=毫秒时间戳，member=id）
+export const WRITTEN_ZSET_KEY = "deploy_records_w"; // 写入顺序索引（score=写入时间），供未读数使用
 export const DEPLOY_RECORD_PREFIX = "deploy_record:"; // 具体记录存储键前缀
-
-
+export const EXTERNAL_ID_PREFIX = "deploy_ext:"; // 外部 id -> 记录 id
+export const SEARCH_TERM_PREFIX = "deploy_term:"; // 检索倒排索引（Set）：deploy_term:<词> -> 记录 id
+export const DOC_PREFIX = "deploy_doc:"; // 通用文档键前缀：deploy_doc:<collection>:<id>
+export const DOC_INDEX_PREFIX = "deploy_docs:"; // 文档集合索引（Set）：deploy_docs:<collection>
@@ -0,0 +1,91 @@
+import { randomUUID } from "crypto";
+import { REPO_LINK_SCHEMA } from "@/lib/contract";
+import { patternSpecificity } from "@/lib/pattern";
+import { validateObject } from "@/lib/schema";
+import type { Validated } from "@/lib/schema";
+import { getStore } from "@/lib/store";
+import type { DeployRecord, Parsed, ProjectInfo, RepoLink, RepoLinkPayload } from "@/lib/types";
+
+const REPO_COLLECTION = "repo_links";
+
+export async function listRepoLinks(): Promise<RepoLink[]> {
+  const links = await getStore().listDocs<RepoLink>(REPO_COLLECTION);
+  return links.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export async function getRepoLink(id: string): Promise<RepoLink | null> {
+  return getStore().getDoc<RepoLink>(REPO_COLLECTION, id);
+}
+
+export async function saveRepoLink(input: RepoLinkPayload, id?: string): Promise<RepoLink> {
+  const store = getStore();
+  const existing = id ? await store.getDoc<RepoLink>(REPO_COLLECTION, id) : null;
+  const link: RepoLink = {
+    ...input,
+    id: existing?.id ?? randomUUID(),
+    createdAt: existing?.createdAt ?? new Date().toISOString(),
+  };
+  await store.putDoc(REPO_COLLECTION, link.id, link);
+  return link;
+}
+
+export async function deleteRepoLink(id: string): Promise<boolean> {
+  return getStore().deleteDoc(REPO_COLLECTION, id);
+}
+
+// 多条命中时取项目匹配最具体的一条，仍然相同则取先创建的
+export function pickRepoLink(links: RepoLink[], projectName: string): RepoLink | null {
+  let picked: { link: RepoLink; score: number } | null = null;
+  for (const link of links) {
+    const score = patternSpecificity(link.projects, projectName);
+    if (score >= 0 && (!picked || score > picked.score)) picked = { link, score };
+  }
+  return picked?.link ?? null;
+}
+
+function fill(template: string, projectName: string, values: Record<string, string>): string {
+  return template
+    .replace(/\{project\}/g, projectName)
+    .replace(/\{(from|to|sha)\}/g, (match, key: string) => (key in values ? encodeURIComponent(values[key]) : match));
+}
+
+// 详情页的提交链接：两条记录都有 revision 且项目配置了仓库链接时才生成对比链接
+// 项目登记中填写了链接模板时优先使用，否则按项目名匹配仓库链接
+export async function buildRepoUrls(
+  record: DeployRecord,
+  previous: DeployRecord | null,
+  project?: ProjectInfo | null,
+): Promise<{ compareUrl: string | null; commitUrl: string | null }> {
+  const link: { compareUrl?: string; commitUrl?: string } | null =
+    project?.compareUrl || project?.commitUrl ? project : pickRepoLink(await listRepoLinks(), record.projectName);
+  if (!link) return { compareUrl: null, commitUrl: null };
+  const compareUrl =
+    link.compareUrl && previous?.revision && record.revision && previous.revision !== record.revision
+      ? fill(link.compareUrl, record.projectName, { from: previous.revision, to: record.revision })
+      : null;
+  const commitUrl = link.commitUrl && record.revision ? fill(link.commitUrl, record.projectName, { sha: record.revision }) : null;
+  return { compareUrl, commitUrl };
+}
+
+export function checkTemplate(name: string, value: unknown, placeholders: string[]): Parsed<string> {
+  const template = String(value ?? "").trim();
+  if (!/^https?:\/\/\S+$/i.test(template)) return { ok: false, error: `invalid ${name}: expected an http(s) URL template` };
+  const missing = placeholders.filter((p) => !template.includes(`{${p}}`));
+  if (missing.length > 0) return { ok: false, error: `invalid ${name}: missing ${missing.map((p) => `{${p}}`).join(", ")}` };
+  return { ok: true, value: template };
+}
+
+// 按 REPO_LINK_SCHEMA 校验请求体，再检查链接模板的占位符
+export function parseRepoLinkPayload(body: Record<string, unknown>): Validated<RepoLinkPayload> {
+  const result = validateObject(REPO_LINK_SCHEMA, body);
+  if (!result.ok) return result;
+  const fail = (field: string, message: string) => ({ ok: false as const, error: message, fields: [{ field, message }] });
+  if (result.value.projects.length === 0) return fail("projects", "missing field: projects");
+  const compareUrl = checkTemplate("compareUrl", result.value.compareUrl, ["from", "to"]);
+  if (!compareUrl.ok) return fail("compareUrl", compareUrl.error);
+  if (result.value.commitUrl !== undefined) {
+    const commitUrl = checkTemplate("commitUrl", result.value.commitUrl, ["sha"]);
+    if (!commitUrl.ok) return fail("commitUrl", commitUrl.error);
+  }
+  return result;
+}
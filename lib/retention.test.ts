@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_RETENTION_DAYS, pickRetention, retentionExpiry } from "@/lib/retention";
+import type { RetentionPolicy } from "@/lib/types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function policy(id: string, fields: Partial<RetentionPolicy>): RetentionPolicy {
+  return { id, name: id, projects: ["*"], environments: ["*"], days: 30, archive: false, createdAt: "2024-05-01T00:00:00.000Z", ...fields };
+}
+
+describe("pickRetention", () => {
+  const policies = [
+    policy("all", { days: 7 }),
+    policy("shop", { projects: ["shop"], days: 90 }),
+    policy("prod", { environments: ["prod*"], days: 365, archive: true }),
+    policy("shop-prod", { projects: ["shop"], environments: ["prod"], days: 180 }),
+  ];
+
+  it("falls back to the default when no policy matches", () => {
+    expect(pickRetention([], "shop", "prod")).toEqual({ days: DEFAULT_RETENTION_DAYS, archive: false });
+  });
+
+  it("prefers the more specific project match, then environment", () => {
+    expect(pickRetention(policies, "shop", "prod").policyId).toBe("shop-prod");
+    expect(pickRetention(policies, "shop", "staging").policyId).toBe("shop");
+    expect(pickRetention(policies, "billing", "prod-eu")).toEqual({ days: 365, archive: true, policyId: "prod" });
+    expect(pickRetention(policies, "billing", "dev").policyId).toBe("all");
+  });
+
+  it("keeps the longer retention when two policies are equally specific", () => {
+    const tied = [policy("short", { days: 10 }), policy("long", { days: 20 })];
+    expect(pickRetention(tied, "shop", "prod").policyId).toBe("long");
+  });
+});
+
+describe("retentionExpiry", () => {
+  const since = Date.parse("2024-05-01T08:00:00.000Z");
+
+  it("expires the given number of days after the start", () => {
+    expect(retentionExpiry({ days: 30, archive: false }, since)).toBe(new Date(since + 30 * DAY_MS).toISOString());
+  });
+
+  it("never expires records that must be archived first", () => {
+    expect(retentionExpiry({ days: 30, archive: true }, since)).toBeNull();
+  });
+});
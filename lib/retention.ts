@@ -0,0 +1,83 @@
+import { randomUUID } from "crypto";
+import { patternSpecificity } from "@/lib/pattern";
+import { getStore } from "@/lib/store";
+import { currentWorkspace } from "@/lib/workspace";
+import type { RetentionPolicy, RetentionPolicyPayload } from "@/lib/types";
+
+const POLICY_COLLECTION = "retention_policies";
+const DAY_MS = 24 * 60 * 60 * 1000;
+const CACHE_MS = 30_000; // 每次写入都要解析策略，短暂缓存避免反复读存储
+
+export const DEFAULT_RETENTION_DAYS = Number(process.env.DEPLOYLIST_RETENTION_DAYS) || 30;
+
+export interface ResolvedRetention {
+  days: number;
+  archive: boolean;
+  policyId?: string; // 未命中任何策略时为空，使用默认保留天数
+}
+
+// 按工作区缓存
+const cache = new Map<string, { at: number; policies: RetentionPolicy[] }>();
+
+export async function listRetentionPolicies(): Promise<RetentionPolicy[]> {
+  const workspace = currentWorkspace();
+  const cached = cache.get(workspace);
+  if (cached && Date.now() - cached.at < CACHE_MS) return cached.policies;
+  const policies = await getStore().listDocs<RetentionPolicy>(POLICY_COLLECTION);
+  policies.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  cache.set(workspace, { at: Date.now(), policies });
+  return policies;
+}
+
+export async function getRetentionPolicy(id: string): Promise<RetentionPolicy | null> {
+  return getStore().getDoc<RetentionPolicy>(POLICY_COLLECTION, id);
+}
+
+export async function saveRetentionPolicy(input: RetentionPolicyPayload, id?: string): Promise<RetentionPolicy> {
+  const store = getStore();
+  const existing = id ? await store.getDoc<RetentionPolicy>(POLICY_COLLECTION, id) : null;
+  const policy: RetentionPolicy = {
+    ...input,
+    id: existing?.id ?? randomUUID(),
+    createdAt: existing?.createdAt ?? new Date().toISOString(),
+  };
+  await store.putDoc(POLICY_COLLECTION, policy.id, policy);
+  cache.delete(currentWorkspace());
+  return policy;
+}
+
+export async function deleteRetentionPolicy(id: string): Promise<boolean> {
+  const removed = await getStore().deleteDoc(POLICY_COLLECTION, id);
+  cache.delete(currentWorkspace());
+  return removed;
+}
+
+// 多条策略命中时，项目匹配更具体的优先，其次环境；仍然相同则取保留更久的一条
+export function pickRetention(policies: RetentionPolicy[], projectName: string, environment: string): ResolvedRetention {
+  let picked: { policy: RetentionPolicy; score: number } | null = null;
+  for (const policy of policies) {
+    const project = patternSpecificity(policy.projects, projectName);
+    const env = patternSpecificity(policy.environments, environment);
+    if (project < 0 || env < 0) continue;
+    const score = project * 3 + env;
+    if (!picked || score > picked.score || (score === picked.score && policy.days > picked.policy.days)) {
+      picked = { policy, score };
+    }
+  }
+  if (!picked) return { days: DEFAULT_RETENTION_DAYS, archive: false };
+  return { days: picked.policy.days, archive: picked.policy.archive, policyId: picked.policy.id };
+}
+
+export async function resolveRetention(projectName: string, environment: string): Promise<ResolvedRetention> {
+  return pickRetention(await listRetentionPolicies(), projectName, environment);
+}
+
+export function retentionMs(retention: ResolvedRetention): number {
+  return retention.days * DAY_MS;
+}
+
+// 记录的过期时间：从 since（毫秒时间戳）起保留 days 天
+// 需要归档的记录返回 null：存储层不设过期，由清理任务归档后删除，清理任务没有按时运行也不会未归档就丢失
+export function retentionExpiry(retention: ResolvedRetention, since: number): string | null {
+  return retention.archive ? null : new Date(since + retentionMs(retention)).toISOString();
+}
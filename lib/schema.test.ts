@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_LOCK_MINUTES, parseCleanPayload, parseFreezePayload, parseLockPayload, parseRulePayload, parseTokenPayload } from "@/lib/contract";
+import { parseProjectPayload } from "@/lib/projects";
+import { objectJsonSchema, validateObject } from "@/lib/schema";
+import type { ObjectSchema } from "@/lib/schema";
+
+interface Sample {
+  name: string;
+  url?: string;
+  tags: string[];
+  enabled: boolean;
+  template?: { title: string };
+}
+
+const SAMPLE_SCHEMA: ObjectSchema<Sample> = {
+  name: { type: "string", required: true, maxLength: 5, description: "name" },
+  url: { type: "string", maxLength: 100, format: "url", description: "url" },
+  tags: { type: "strings", maxItems: 3, maxLength: 5, values: ["a", "b", "c", "d"], default: ["a"], description: "tags" },
+  enabled: { type: "boolean", default: true, description: "enabled" },
+  template: { type: "object", item: { title: { type: "string", required: true, maxLength: 10, description: "title" } }, description: "template" },
+};
+
+describe("validateObject", () => {
+  it("fills defaults for missing optional fields", () => {
+    expect(validateObject(SAMPLE_SCHEMA, { name: "x" })).toEqual({ ok: true, value: { name: "x", tags: ["a"], enabled: true } });
+  });
+
+  it("accepts string lists as arrays or comma-separated text, trimmed and deduplicated", () => {
+    const result = validateObject(SAMPLE_SCHEMA, { name: "x", tags: " b, c ,b,," });
+    expect(result.ok && result.value.tags).toEqual(["b", "c"]);
+  });
+
+  it("reports every invalid field", () => {
+    const result = validateObject(SAMPLE_SCHEMA, { name: "toolong", url: "ftp://x", tags: ["z"], enabled: "yes", template: {} });
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.fields.map((f) => f.field)).toEqual(["name", "url", "tags", "enabled", "template"]);
+  });
+
+  it("describes defaults, formats and nested objects in the JSON schema", () => {
+    const schema = objectJsonSchema(SAMPLE_SCHEMA) as { required: string[]; properties: Record<string, Record<string, unknown>> };
+    expect(schema.required).toEqual(["name"]);
+    expect(schema.properties.url.format).toBe("uri");
+    expect(schema.properties.tags).toMatchObject({ type: "array", default: ["a"], items: { enum: ["a", "b", "c", "d"] } });
+    expect(schema.properties.template).toMatchObject({ type: "object", required: ["title"] });
+  });
+});
+
+describe("request bodies", () => {
+  it("rejects unknown token permissions and empty project lists", () => {
+    expect(parseTokenPayload({ name: "ci", projects: ["shop"], permissions: ["ingest", "root"] }).ok).toBe(false);
+    expect(parseTokenPayload({ name: "ci", projects: [], permissions: ["read"] }).ok).toBe(false);
+    expect(parseTokenPayload({ name: "ci", projects: ["*"], permissions: ["read"] }).ok).toBe(true);
+  });
+
+  it("requires at least one clean scope and accepts the singular aliases", () => {
+    expect(parseCleanPayload({ dryRun: true }).ok).toBe(false);
+    const result = parseCleanPayload({ projectName: "shop", before: "2024-05-01" });
+    expect(result.ok && result.value).toEqual({ projects: ["shop"], before: "2024-05-01T00:00:00.000Z" });
+  });
+
+  it("starts freeze windows now and requires them to end later", () => {
+    const result = parseFreezePayload({ to: "2999-01-01T00:00:00Z", reason: "release" });
+    expect(result.ok && result.value).toMatchObject({ projects: ["*"], environments: ["*"], to: "2999-01-01T00:00:00.000Z" });
+    expect(result.ok && Date.parse(result.value.from)).toBeLessThanOrEqual(Date.now());
+    expect(parseFreezePayload({ from: "2024-05-02", to: "2024-05-01", reason: "release" })).toMatchObject({ ok: false, fields: [{ field: "to" }] });
+  });
+
+  it("defaults the lock duration and rejects durations out of range", () => {
+    const lock = { projectName: "shop", environment: "staging", holder: "zhangsan" };
+    expect(parseLockPayload(lock)).toEqual({ ok: true, value: { ...lock, minutes: DEFAULT_LOCK_MINUTES } });
+    expect(parseLockPayload({ ...lock, minutes: 0 }).ok).toBe(false);
+  });
+
+  it("accepts plain environment names for projects and rejects duplicates and templates without placeholders", () => {
+    const result = parseProjectPayload({ aliases: "shop, mall", environments: ["test", { name: "prod", production: true }] }, "shop");
+    expect(result.ok && result.value).toMatchObject({
+      name: "shop",
+      aliases: ["mall"],
+      environments: [
+        { name: "test", production: false },
+        { name: "prod", production: true },
+      ],
+    });
+    expect(parseProjectPayload({ environments: ["prod", "prod"] }, "shop")).toMatchObject({ ok: false, fields: [{ field: "environments" }] });
+    expect(parseProjectPayload({ commitUrl: "https://git.example.com/c" }, "shop")).toMatchObject({ ok: false, fields: [{ field: "commitUrl" }] });
+  });
+
+  it("defaults notify rules to every project, environment and event", () => {
+    const result = parseRulePayload({ name: "all", channelIds: "c1" });
+    expect(result.ok && result.value).toEqual({
+      name: "all",
+      projects: ["*"],
+      environments: ["*"],
+      statuses: [],
+      events: ["deploy", "update"],
+      channelIds: ["c1"],
+      enabled: true,
+    });
+  });
+});
@@ -0,0 +1,183 @@
+// 轻量字段描述：同一份定义既用于请求校验，也用于生成 /api/openapi.json
+
+interface BaseSpec {
+  description: string;
+  required?: boolean;
+  default?: unknown; // 未填写时使用的值
+}
+
+export type FieldSpec =
+  | (BaseSpec & { type: "string"; maxLength: number; format?: "url" }) // url：只接受 http(s) 地址
+  | (BaseSpec & { type: "enum"; values: readonly string[] })
+  | (BaseSpec & { type: "datetime" }) // ISO 时间串或毫秒时间戳，校验后统一为 ISO
+  | (BaseSpec & { type: "integer"; min: number; max: number })
+  | (BaseSpec & { type: "list"; plural: string; maxLength: number }) // 仅用于查询参数：?a=x&a=y 或 ?plural=x,y
+  | (BaseSpec & { type: "objects"; item: Record<string, FieldSpec>; maxItems: number }) // 仅用于请求体：对象数组，逐项按 item 校验
+  | (BaseSpec & { type: "object"; item: Record<string, FieldSpec> }) // 仅用于请求体：嵌套对象
+  | (BaseSpec & { type: "strings"; maxLength: number; maxItems: number; values?: readonly string[] }) // 仅用于请求体：字符串数组或逗号分隔的字符串，去掉空项并去重
+  | (BaseSpec & { type: "boolean" });
+
+// 与 TS 类型一一对应：漏掉或多出字段都会在编译期报错
+export type ObjectSchema<T> = { [K in keyof T]-?: FieldSpec };
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+export type Validated<T> = { ok: true; value: T } | { ok: false; error: string; fields: FieldError[] };
+
+function parseTime(value: unknown): Date | null {
+  if (typeof value !== "string" && typeof value !== "number") return null;
+  const raw = String(value).trim();
+  const dt = /^\d+$/.test(raw) ? new Date(Number(raw)) : new Date(raw);
+  return raw === "" || Number.isNaN(dt.getTime()) ? null : dt;
+}
+
+function checkField(name: string, spec: FieldSpec, value: unknown): { value?: unknown; message?: string } {
+  switch (spec.type) {
+    case "string": {
+      if (typeof value !== "string") return { message: `${name} must be a string` };
+      if (value.length > spec.maxLength) return { message: `${name} too long: max ${spec.maxLength} chars` };
+      if (spec.format === "url" && !/^https?:\/\/\S+$/i.test(value)) return { message: `invalid ${name}: expected an http(s) URL` };
+      return { value };
+    }
+    case "enum": {
+      if (typeof value !== "string" || !spec.values.includes(value)) {
+        return { message: `invalid ${name}: ${String(value)} (expected one of ${spec.values.join(", ")})` };
+      }
+      return { value };
+    }
+    case "datetime": {
+      const dt = parseTime(value);
+      return dt ? { value: dt.toISOString() } : { message: `invalid ${name}: ${String(value)}` };
+    }
+    case "integer": {
+      const n = typeof value === "string" && value.trim() !== "" ? Number(value) : value;
+      if (typeof n !== "number" || !Number.isInteger(n) || n < spec.min || n > spec.max) {
+        return { message: `invalid ${name}: ${String(value)} (expected integer ${spec.min}-${spec.max})` };
+      }
+      return { value: n };
+    }
+    case "list": {
+      const items = Array.isArray(value) ? value : [value];
+      if (items.some((item) => typeof item !== "string" || item.length > spec.maxLength)) {
+        return { message: `invalid ${name}: items must be strings of max ${spec.maxLength} chars` };
+      }
+      return { value: items };
+    }
+    case "objects": {
+      if (!Array.isArray(value)) return { message: `${name} must be an array` };
+      if (value.length > spec.maxItems) return { message: `${name} too long: max ${spec.maxItems} items` };
+      const items: unknown[] = [];
+      for (const [i, item] of value.entries()) {
+        if (!item || typeof item !== "object" || Array.isArray(item)) return { message: `${name}[${i}] must be an object` };
+        const checked = validateObject(spec.item, item as Record<string, unknown>);
+        if (!checked.ok) return { message: `${name}[${i}]: ${checked.error}` };
+        items.push(checked.value);
+      }
+      return { value: items };
+    }
+    case "object": {
+      if (!value || typeof value !== "object" || Array.isArray(value)) return { message: `${name} must be an object` };
+      const checked = validateObject(spec.item, value as Record<string, unknown>);
+      return checked.ok ? { value: checked.value } : { message: `${name}: ${checked.error}` };
+    }
+    case "strings": {
+      const raw = Array.isArray(value) ? value : typeof value === "string" ? value.split(",") : null;
+      if (!raw || raw.some((item) => typeof item !== "string")) return { message: `${name} must be a list of strings` };
+      const items = [...new Set(raw.map((item: string) => item.trim()).filter(Boolean))];
+      if (items.length > spec.maxItems) return { message: `${name} too long: max ${spec.maxItems} items` };
+      if (items.some((item) => item.length > spec.maxLength)) return { message: `invalid ${name}: items must be max ${spec.maxLength} chars` };
+      const unknown = spec.values && items.find((item) => !spec.values?.includes(item));
+      if (unknown) return { message: `invalid ${name}: ${unknown} (expected one of ${spec.values?.join(", ")})` };
+      if (items.length === 0 && spec.required) return { message: `missing field: ${name}` };
+      return { value: items };
+    }
+    case "boolean":
+      return typeof value === "boolean" ? { value } : { message: `${name} must be true or false` };
+  }
+}
+
+// 按 schema 校验并规整输入；未在 schema 中声明的字段被丢弃，空串与 null 视为未填写，未填写时取 default
+export function validateObject<T>(schema: ObjectSchema<T>, input: Record<string, unknown>): Validated<T> {
+  const fields: FieldError[] = [];
+  const value: Record<string, unknown> = {};
+  for (const [name, spec] of Object.entries(schema) as [string, FieldSpec][]) {
+    const raw = input[name];
+    if (raw === undefined || raw === null || raw === "") {
+      if (spec.required) fields.push({ field: name, message: `missing field: ${name}` });
+      else if (spec.default !== undefined) value[name] = structuredClone(spec.default);
+      continue;
+    }
+    const checked = checkField(name, spec, raw);
+    if (checked.message) fields.push({ field: name, message: checked.message });
+    else value[name] = checked.value;
+  }
+  if (fields.length > 0) return { ok: false, error: fields.map((f) => f.message).join("; "), fields };
+  return { ok: true, value: value as T };
+}
+
+// 把查询串读成对象：list 字段合并重复参数与逗号分隔的复数形式
+export function readSearchParams<T>(schema: ObjectSchema<T>, searchParams: URLSearchParams): Record<string, unknown> {
+  const out: Record<string, unknown> = {};
+  for (const [name, spec] of Object.entries(schema) as [string, FieldSpec][]) {
+    if (spec.type === "list") {
+      const multi = searchParams.getAll(name);
+      const csv = searchParams.get(spec.plural);
+      const items = multi.length > 0 ? multi : csv ? csv.split(",").map((s) => s.trim()).filter(Boolean) : [];
+      if (items.length > 0) out[name] = items;
+    } else if (searchParams.has(name)) {
+      out[name] = searchParams.get(name);
+    }
+  }
+  return out;
+}
+
+// 单个字段的 JSON Schema（OpenAPI 3.0 子集）
+export function fieldJsonSchema(spec: FieldSpec): Record<string, unknown> {
+  const base = { description: spec.description, ...(spec.default !== undefined ? { default: spec.default } : {}) };
+  switch (spec.type) {
+    case "string":
+      return { ...base, type: "string", maxLength: spec.maxLength, ...(spec.format === "url" ? { format: "uri" } : {}) };
+    case "enum":
+      return { ...base, type: "string", enum: [...spec.values] };
+    case "datetime":
+      return { ...base, type: "string", format: "date-time" };
+    case "integer":
+      return { ...base, type: "integer", minimum: spec.min, maximum: spec.max };
+    case "list":
+      return { ...base, type: "array", items: { type: "string", maxLength: spec.maxLength } };
+    case "objects":
+      return { ...base, type: "array", maxItems: spec.maxItems, items: objectJsonSchema(spec.item) };
+    case "object":
+      return { ...base, ...objectJsonSchema(spec.item) };
+    case "strings": {
+      const items = { type: "string", maxLength: spec.maxLength, ...(spec.values ? { enum: [...spec.values] } : {}) };
+      return { ...base, type: "array", maxItems: spec.maxItems, items, ...(spec.required ? { minItems: 1 } : {}) };
+    }
+    case "boolean":
+      return { ...base, type: "boolean" };
+  }
+}
+
+export function objectJsonSchema<T>(schema: ObjectSchema<T>): Record<string, unknown> {
+  const entries = Object.entries(schema) as [string, FieldSpec][];
+  return {
+    type: "object",
+    required: entries.filter(([, spec]) => spec.required).map(([name]) => name),
+    properties: Object.fromEntries(entries.map(([name, spec]) => [name, fieldJsonSchema(spec)])),
+  };
+}
+
+// 查询参数列表；list 字段按 form + explode 描述，即重复参数
+export function queryParameters<T>(schema: ObjectSchema<T>): Record<string, unknown>[] {
+  return (Object.entries(schema) as [string, FieldSpec][]).map(([name, spec]) => ({
+    name,
+    in: "query",
+    required: Boolean(spec.required),
+    description: spec.type === "list" ? `${spec.description}；也可用 ?${spec.plural}=a,b` : spec.description,
+    schema: fieldJsonSchema(spec),
+    ...(spec.type === "list" ? { style: "form", explode: true } : {}),
+  }));
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { matchesSearch, parseSearchQuery, recordTerms, tokenize } from "@/lib/search";
+import type { SearchQuery } from "@/lib/search";
+import type { DeployRecord } from "@/lib/types";
+
+const record: DeployRecord = {
+  id: "r1",
+  title: "Payment service",
+  projectName: "shop",
+  operator: "zhangsan",
+  environment: "production",
+  branch: "release/2024",
+  commit: "3f2a9c1d7e fix checkout timeout",
+  note: "张三丰 rollout finished",
+  deployedAt: "2024-05-01T08:00:00.000Z",
+  status: "failed",
+};
+
+function query(input: string): SearchQuery {
+  const parsed = parseSearchQuery(input);
+  if (!parsed.ok) throw new Error(parsed.error);
+  return parsed.value;
+}
+
+// 查询词全部在索引中，且逐条校验通过
+function finds(input: string): boolean {
+  const q = query(input);
+  const terms = new Set(recordTerms(record));
+  return q.terms.every((term) => terms.has(term)) && matchesSearch(record, q);
+}
+
+describe("tokenize", () => {
+  it("splits words, lowercases them and truncates long ones", () => {
+    expect(tokenize("Fix CHECKOUT-timeout")).toEqual(["fix", "checkout", "timeout"]);
+    expect(tokenize("a".repeat(30))).toEqual(["a".repeat(20)]);
+  });
+
+  it("adds word prefixes only when asked", () => {
+    expect(tokenize("main", { prefixes: true })).toEqual(["main", "ma", "mai"]);
+    expect(tokenize("x", { prefixes: true })).toEqual(["x"]);
+  });
+
+  it("cuts Chinese into single characters and pairs, pairs only for queries", () => {
+    expect(tokenize("张三丰")).toEqual(["张", "张三", "三", "三丰", "丰"]);
+    expect(tokenize("张三丰", { forQuery: true })).toEqual(["张三", "三丰"]);
+    expect(tokenize("张", { forQuery: true })).toEqual(["张"]);
+  });
+});
+
+describe("recordTerms", () => {
+  it("indexes prefixes of short fields and commit SHAs but not of the commit message or note", () => {
+    const terms = recordTerms(record);
+    expect(terms).toEqual(expect.arrayContaining(["pay", "zhang", "prod", "rel", "3f2a9c", "status:failed", "project:shop", "env:production"]));
+    expect(terms).toContain("checkout");
+    expect(terms).not.toContain("check");
+    expect(terms).not.toContain("roll");
+  });
+});
+
+describe("search", () => {
+  it("finds records by word prefixes in short fields and by full words elsewhere", () => {
+    expect(finds("pay")).toBe(true);
+    expect(finds("operator:zhang")).toBe(true);
+    expect(finds("commit:3f2a9c")).toBe(true);
+    expect(finds("checkout")).toBe(true);
+    expect(finds("张三")).toBe(true);
+    expect(finds("check")).toBe(false);
+  });
+
+  it("matches field wildcards and statuses", () => {
+    expect(finds("branch:release/* env:prod* status:failed")).toBe(true);
+    expect(finds("status:success")).toBe(false);
+  });
+
+  it("rejects unknown statuses and queries without searchable words", () => {
+    expect(parseSearchQuery("status:done").ok).toBe(false);
+    expect(parseSearchQuery("project:*").ok).toBe(false);
+  });
+});
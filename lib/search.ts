@@ -0,0 +1,170 @@
+import { DEPLOY_STATUSES } from "@/lib/contract";
+import { matchPattern } from "@/lib/pattern";
+import type { DeployRecord, DeployStatus, Parsed } from "@/lib/types";
+
+// 全文检索：写入时存储层把 recordTerms 的结果记入倒排索引（词 -> 记录 id），
+// 查询时先用索引取出同时包含全部词的候选记录，再逐条按查询条件精确校验
+
+const WORD = /[\p{L}\p{N}]+/gu;
+const SEPARATOR = /[^\p{L}\p{N}]+/u;
+const CJK_SEGMENT = /[\u3400-\u9fff\uf900-\ufaff]+|[^\u3400-\u9fff\uf900-\ufaff]+/g;
+const CJK = /[\u3400-\u9fff\uf900-\ufaff]/;
+const MAX_TERM = 20; // 字母数字词最长取到这里写入索引，更长的查询词截到这个长度查索引，再逐条校验
+const MIN_PREFIX = 2; // 短字段中的字母数字词另按前缀写入索引，查询词只写开头也能命中（pay -> payment、abc123 -> 完整 SHA）
+const SHA = /\b[0-9a-f]{7,40}\b/gi;
+
+export type SearchField = "operator" | "branch" | "status" | "project" | "env" | "commit" | "version" | "note" | "title";
+
+const FIELD_ALIASES: Record<string, SearchField> = {
+  operator: "operator",
+  branch: "branch",
+  status: "status",
+  project: "project",
+  env: "env",
+  environment: "env",
+  commit: "commit",
+  version: "version",
+  note: "note",
+  title: "title",
+};
+
+// 不带字段前缀的词在这些字段中查找
+const TEXT_FIELDS = ["title", "projectName", "environment", "operator", "branch", "commit", "version", "note"] as const;
+// 按前缀写入索引的字段：都是短文本，词数有限；commit 与 note 只收录整词，另外 commit 中的 SHA 也按前缀收录
+const PREFIX_FIELDS = ["title", "projectName", "environment", "operator", "branch"] as const;
+
+export interface SearchCondition {
+  field?: SearchField; // 为空表示任一文本字段包含即可
+  value: string;
+}
+
+export interface SearchQuery {
+  conditions: SearchCondition[];
+  terms: string[]; // 查倒排索引用的词，全部命中才是候选
+  highlights: string[]; // 页面中需要高亮的文本（commit / note 中的匹配）
+}
+
+function normalize(text: string): string {
+  return text.normalize("NFKC").toLowerCase();
+}
+
+// 分词：字母数字按整词（超过 MAX_TERM 的截断），prefixes 时另加前缀；中文没有空格分隔，按单字与相邻两字切分，查询“张三”可命中“张三丰”
+// forQuery 时两字及以上的中文只取相邻两字，减少需要求交集的词
+export function tokenize(text: string, { prefixes = false, forQuery = false } = {}): string[] {
+  const terms = new Set<string>();
+  for (const word of normalize(text).match(WORD) ?? []) {
+    for (const segment of word.match(CJK_SEGMENT) ?? []) {
+      if (!CJK.test(segment)) {
+        terms.add(segment.slice(0, MAX_TERM));
+        if (prefixes) for (let n = MIN_PREFIX; n < segment.length && n < MAX_TERM; n++) terms.add(segment.slice(0, n));
+        continue;
+      }
+      const chars = Array.from(segment);
+      chars.forEach((char, i) => {
+        if (!forQuery || chars.length === 1) terms.add(char);
+        if (i + 1 < chars.length) terms.add(char + chars[i + 1]);
+      });
+    }
+  }
+  return Array.from(terms);
+}
+
+// 一条记录写入倒排索引的全部词：文本字段分词，状态、项目、环境另记一个带前缀的精确词
+export function recordTerms(record: DeployRecord): string[] {
+  const text = TEXT_FIELDS.map((field) => record[field] ?? "").join("\n");
+  const short = [...PREFIX_FIELDS.map((field) => record[field] ?? ""), ...(record.commit?.match(SHA) ?? [])].join("\n");
+  const terms = new Set([...tokenize(text), ...tokenize(short, { prefixes: true })]);
+  terms.add(`status:${record.status}`);
+  terms.add(`project:${normalize(record.projectName)}`);
+  terms.add(`env:${normalize(record.environment)}`);
+  return Array.from(terms);
+}
+
+// 通配模式中能走索引的词：完整的词，以及紧贴在 * 之前的词（索引收录了词的开头）；紧跟在 * 之后的词可能只是后缀，丢弃
+function patternTerms(pattern: string): string[] {
+  const parts = pattern.split("*");
+  return parts.flatMap((part, i) => {
+    const words = part.split(SEPARATOR);
+    return words.filter((word, j) => word && !(j === 0 && i > 0)).flatMap((word) => tokenize(word, { forQuery: true }));
+  });
+}
+
+function conditionTerms({ field, value }: SearchCondition): string[] {
+  switch (field) {
+    case "status":
+      return [`status:${value}`];
+    case "project":
+    case "env":
+      return value.includes("*") ? patternTerms(value) : [`${field}:${normalize(value)}`];
+    case "branch":
+      return value.includes("*") ? patternTerms(value) : tokenize(value, { forQuery: true });
+    default:
+      return tokenize(value, { forQuery: true });
+  }
+}
+
+// 查询语法：空格分隔的条件同时满足；"..." 为短语；字段前缀 operator: branch: status: project: env: commit: version: note: title:
+// branch / project / env 支持 * 通配，其余字段按包含匹配（不区分大小写）
+// 索引只收录整词，标题、项目、环境、操作人、分支中的词与 commit 中的 SHA 另收录词的开头：
+// 这些词可以只写开头（commit:abc123 命中完整 SHA，operator:zhang 命中 zhangsan），commit 说明与备注中的词要写完整，词中间的片段都查不到
+// 例：operator:张三 branch:release/* status:failed "payment timeout"
+export function parseSearchQuery(input: string): Parsed<SearchQuery> {
+  const conditions: SearchCondition[] = [];
+  for (const match of input.matchAll(/(?:([A-Za-z]+):)?(?:"([^"]*)"|(\S+))/g)) {
+    const [raw, key, quoted, bare] = match;
+    const field = key ? FIELD_ALIASES[key.toLowerCase()] : undefined;
+    const value = (quoted ?? bare.replace(/"/g, "")).trim();
+    if (key && !field) {
+      // 未知前缀（如 fix:）按普通文本处理
+      conditions.push({ value: raw.replace(/"/g, "") });
+      continue;
+    }
+    if (!value) {
+      if (field) return { ok: false, error: `missing value for ${key}:` };
+      continue;
+    }
+    if (field === "status" && !DEPLOY_STATUSES.includes(value as DeployStatus)) {
+      return { ok: false, error: `invalid status: ${value} (expected one of ${DEPLOY_STATUSES.join(", ")})` };
+    }
+    conditions.push({ field, value });
+  }
+  if (conditions.length === 0) return { ok: false, error: "empty query" };
+
+  const terms = Array.from(new Set(conditions.flatMap(conditionTerms)));
+  if (terms.length === 0) {
+    return { ok: false, error: "query has no searchable words: add a word, a phrase or a field value without wildcards" };
+  }
+  const highlights = conditions.filter((c) => !c.field || c.field === "commit" || c.field === "note").map((c) => c.value);
+  return { ok: true, value: { conditions, terms, highlights } };
+}
+
+function contains(text: string | undefined, needle: string): boolean {
+  return normalize(text ?? "").includes(normalize(needle));
+}
+
+function matchValue(pattern: string, value: string): boolean {
+  return matchPattern(normalize(pattern), normalize(value));
+}
+
+export function matchesSearch(record: DeployRecord, query: SearchQuery): boolean {
+  return query.conditions.every(({ field, value }) => {
+    switch (field) {
+      case "status":
+        return record.status === value;
+      case "project":
+        return matchValue(value, record.projectName);
+      case "env":
+        return matchValue(value, record.environment);
+      case "branch":
+        return matchValue(value, record.branch);
+      case "operator":
+      case "commit":
+      case "version":
+      case "note":
+      case "title":
+        return contains(record[field], value);
+      default:
+        return TEXT_FIELDS.some((f) => contains(record[f], value));
+    }
+  });
+}
@@ -0,0 +1,104 @@
+import dayjs from "dayjs";
+import { iterateDeployRecords } from "@/lib/db";
+import type { DeployFilter, DeployRecord, DeployStats, DeployStatsGroup, DeployStatsSummary } from "@/lib/types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const TOP_OPERATORS = 5;
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[mid] : Math.round((sorted[mid - 1] + sorted[mid]) / 2);
+}
+
+// 恢复时长：同一 项目 × 环境 内，一段连续失败的第一条到其后第一次成功之间的时长
+function recoveryTimes(records: DeployRecord[]): number[] {
+  const byTarget = new Map<string, DeployRecord[]>();
+  for (const r of records) {
+    const key = `${r.projectName}\u0000${r.environment}`;
+    const list = byTarget.get(key) ?? [];
+    list.push(r);
+    byTarget.set(key, list);
+  }
+  const times: number[] = [];
+  for (const list of byTarget.values()) {
+    const asc = [...list].sort((a, b) => (a.deployedAt < b.deployedAt ? -1 : 1));
+    let failedAt: number | null = null;
+    for (const r of asc) {
+      const at = new Date(r.deployedAt).getTime();
+      if (r.status === "failed" && failedAt === null) failedAt = at;
+      if (r.status === "success" && failedAt !== null) {
+        times.push(at - failedAt);
+        failedAt = null;
+      }
+    }
+  }
+  return times;
+}
+
+function summarize(records: DeployRecord[], from: number, to: number): DeployStatsSummary {
+  const days = Math.max(1, Math.ceil((to - from) / DAY_MS));
+  const count = (status: DeployRecord["status"]) => records.filter((r) => r.status === status).length;
+  const success = count("success");
+  const failed = count("failed");
+
+  const operators = new Map<string, number>();
+  for (const r of records) operators.set(r.operator, (operators.get(r.operator) ?? 0) + 1);
+  const topOperators = Array.from(operators, ([operator, n]) => ({ operator, count: n }))
+    .sort((a, b) => b.count - a.count || a.operator.localeCompare(b.operator))
+    .slice(0, TOP_OPERATORS);
+
+  // 区间内每天都输出一项，没有部署的日子计 0，便于直接画图
+  const buckets = new Map<string, { total: number; failed: number }>();
+  for (let t = dayjs(from).startOf("day"); !t.isAfter(dayjs(to)); t = t.add(1, "day")) {
+    buckets.set(t.format("YYYY-MM-DD"), { total: 0, failed: 0 });
+  }
+  for (const r of records) {
+    const bucket = buckets.get(dayjs(r.deployedAt).format("YYYY-MM-DD"));
+    if (!bucket) continue;
+    bucket.total += 1;
+    if (r.status === "failed") bucket.failed += 1;
+  }
+
+  return {
+    total: records.length,
+    success,
+    failed,
+    canceled: count("canceled"),
+    running: count("running"),
+    successRate: success + failed > 0 ? success / (success + failed) : null,
+    deploysPerDay: records.length / days,
+    deploysPerWeek: (records.length / days) * 7,
+    medianRecoveryMs: median(recoveryTimes(records)),
+    topOperators,
+    daily: Array.from(buckets, ([date, b]) => ({ date, ...b })),
+  };
+}
+
+// 统计窗口内的部署频率、成功率、恢复时长与活跃运行人；整体之外按 项目 × 环境 分组
+export async function computeDeployStats(filter: DeployFilter & { from: string; to: string }): Promise<DeployStats> {
+  const from = new Date(filter.from).getTime();
+  const to = new Date(filter.to).getTime();
+  const records: DeployRecord[] = [];
+  for await (const record of iterateDeployRecords(filter)) records.push(record);
+
+  const grouped = new Map<string, DeployRecord[]>();
+  for (const r of records) {
+    const key = `${r.projectName}\u0000${r.environment}`;
+    const list = grouped.get(key) ?? [];
+    list.push(r);
+    grouped.set(key, list);
+  }
+  const groups: DeployStatsGroup[] = Array.from(grouped.values())
+    .map((list) => ({ projectName: list[0].projectName, environment: list[0].environment, ...summarize(list, from, to) }))
+    .sort((a, b) => a.projectName.localeCompare(b.projectName) || a.environment.localeCompare(b.environment));
+
+  return {
+    from: filter.from,
+    to: filter.to,
+    days: Math.max(1, Math.ceil((to - from) / DAY_MS)),
+    overall: summarize(records, from, to),
+    groups,
+  };
+}
@@ -0,0 +1,295 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { recordTerms } from "@/lib/search";
+import type { DeployRecord } from "@/lib/types";
+import { compareRecordsDesc, compareWrittenDesc, inRange, sliceBatches, writtenScore } from "@/lib/store/shared";
+import type { DeployStore } from "@/lib/store/types";
+
+interface FileDoc {
+  value: unknown;
+  expiresAt?: number;
+}
+
+// 与 .data/deploy.json 保持一致的文件结构；docs 为通用文档集合，旧文件没有该字段
+interface FileData {
+  records: DeployRecord[];
+  expiries?: Record<string, number>; // 记录 id -> 过期时间戳；旧文件中的记录没有条目，不会自动过期
+  projects: string[];
+  externalIds?: Record<string, { recordId: string; expiresAt?: number }>; // expiresAt 为空表示不过期
+  terms?: Record<string, string[]>; // 检索词 -> 记录 id；旧文件没有该字段，由迁移 002 补建
+  docs?: Record<string, Record<string, FileDoc>>;
+}
+
+// 倒排索引增删：先移除 remove 中记录的词，再加入 add 中记录的词；返回新对象，不修改传入的 terms
+function reindex(terms: FileData["terms"], remove: DeployRecord[], add: DeployRecord[]): Record<string, string[]> {
+  const next: Record<string, string[]> = { ...terms };
+  for (const record of remove) {
+    for (const term of recordTerms(record)) {
+      const ids = next[term]?.filter((id) => id !== record.id);
+      if (!ids) continue;
+      if (ids.length > 0) next[term] = ids;
+      else delete next[term];
+    }
+  }
+  for (const record of add) {
+    for (const term of recordTerms(record)) {
+      const ids = next[term] ?? [];
+      if (!ids.includes(record.id)) next[term] = [...ids, record.id];
+    }
+  }
+  return next;
+}
+
+function liveDocs(data: FileData, collection: string): Record<string, FileDoc> {
+  const col = data.docs?.[collection] ?? {};
+  const now = Date.now();
+  const live: Record<string, FileDoc> = {};
+  for (const [id, doc] of Object.entries(col)) {
+    if (doc.expiresAt === undefined || doc.expiresAt > now) live[id] = doc;
+  }
+  return live;
+}
+
+async function readFileData(fullPath: string): Promise<FileData> {
+  try {
+    const raw = await fs.readFile(fullPath, "utf8");
+    const parsed = JSON.parse(raw) as Partial<FileData>;
+    const expiries = parsed.expiries && typeof parsed.expiries === "object" ? parsed.expiries : {};
+    const now = Date.now();
+    // 读取时即剔除已过期的记录及其检索词，下次写入时落盘
+    const all = Array.isArray(parsed.records) ? parsed.records : [];
+    const alive = (r: DeployRecord) => expiries[r.id] === undefined || expiries[r.id] > now;
+    const records = all.filter(alive);
+    const expired = all.filter((r) => !alive(r));
+    const terms = parsed.terms && typeof parsed.terms === "object" ? parsed.terms : undefined;
+    return {
+      records,
+      expiries: Object.fromEntries(Object.entries(expiries).filter(([, at]) => at > now)),
+      projects: Array.isArray(parsed.projects) ? parsed.projects : [],
+      externalIds: parsed.externalIds && typeof parsed.externalIds === "object" ? parsed.externalIds : undefined,
+      terms: terms && expired.length > 0 ? reindex(terms, expired, []) : terms,
+      docs: parsed.docs && typeof parsed.docs === "object" ? parsed.docs : undefined,
+    };
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === "ENOENT") return { records: [], projects: [] };
+    throw e;
+  }
+}
+
+async function writeFileData(fullPath: string, next: FileData): Promise<void> {
+  await fs.mkdir(path.dirname(fullPath), { recursive: true });
+  // 先写临时文件再改名，避免进程中断留下半截 JSON
+  const tmp = `${fullPath}.${process.pid}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(next, null, 2));
+  await fs.rename(tmp, fullPath);
+}
+
+export const DEFAULT_DATA_FILE = ".data/deploy.json";
+
+export function createFileStore(file: string): DeployStore {
+  const fullPath = path.resolve(process.cwd(), file);
+  // 串行化读写，避免并发请求互相覆盖
+  let queue: Promise<unknown> = Promise.resolve();
+
+  function exclusive<T>(fn: () => Promise<T>): Promise<T> {
+    const run = queue.then(fn, fn);
+    queue = run.catch(() => undefined);
+    return run;
+  }
+
+  const read = () => readFileData(fullPath);
+  const write = (next: FileData) => writeFileData(fullPath, next);
+
+  return {
+    kind: "file",
+
+    putRecord(record, ttlMs) {
+      return exclusive(async () => {
+        const current = await read();
+        const previous = current.records.filter((r) => r.id === record.id);
+        const records = current.records.filter((r) => r.id !== record.id);
+        records.push(record);
+        const expiries = { ...current.expiries };
+        if (ttlMs === undefined) delete expiries[record.id];
+        else expiries[record.id] = Date.now() + ttlMs;
+        const projects = current.projects.includes(record.projectName) ? current.projects : [...current.projects, record.projectName];
+        await write({ ...current, records, expiries, projects, terms: reindex(current.terms, previous, [record]) });
+      });
+    },
+
+    async getRecord(id) {
+      const { records } = await read();
+      return records.find((r) => r.id === id) ?? null;
+    },
+
+    updateRecord(record) {
+      return exclusive(async () => {
+        const current = await read();
+        const idx = current.records.findIndex((r) => r.id === record.id);
+        if (idx < 0) return false;
+        const records = [...current.records];
+        records[idx] = record;
+        await write({ ...current, records, terms: reindex(current.terms, [current.records[idx]], [record]) });
+        return true;
+      });
+    },
+
+    async *scanRecords(range, batchSize) {
+      const { records } = await read();
+      const list = records.filter((r) => inRange(r, range));
+      list.sort(compareRecordsDesc);
+      yield* sliceBatches(list, batchSize);
+    },
+
+    async *scanWrittenSince(since, batchSize) {
+      const { records } = await read();
+      const list = records.filter((r) => writtenScore(r) > since);
+      list.sort(compareWrittenDesc);
+      yield* sliceBatches(list, batchSize);
+    },
+
+    async *searchRecords(terms, batchSize) {
+      const current = await read();
+      const lists = terms.map((term) => current.terms?.[term] ?? []).sort((a, b) => a.length - b.length);
+      if (lists.length === 0) return;
+      const sets = lists.slice(1).map((ids) => new Set(ids));
+      const matched = new Set(lists[0].filter((id) => sets.every((ids) => ids.has(id))));
+      yield* sliceBatches(current.records.filter((r) => matched.has(r.id)).sort(compareRecordsDesc), batchSize);
+    },
+
+    async listProjects() {
+      const { projects } = await read();
+      return [...new Set(projects)].sort();
+    },
+
+    deleteRecords(ids) {
+      return exclusive(async () => {
+        const current = await read();
+        const target = new Set(ids);
+        const records = current.records.filter((r) => !target.has(r.id));
+        const removed = current.records.length - records.length;
+        const expiries = Object.fromEntries(Object.entries(current.expiries ?? {}).filter(([id]) => !target.has(id)));
+        const terms = reindex(current.terms, current.records.filter((r) => target.has(r.id)), []);
+        if (removed > 0) await write({ ...current, records, expiries, terms });
+        return removed;
+      });
+    },
+
+    removeProjects(names) {
+      return exclusive(async () => {
+        const current = await read();
+        const target = new Set(names);
+        await write({ ...current, projects: current.projects.filter((p) => !target.has(p)) });
+      });
+    },
+
+    linkExternalId(externalId, recordId, ttlMs, onlyIfAbsent) {
+      return exclusive(async () => {
+        const current = await read();
+        const now = Date.now();
+        // 顺带丢弃已过期的映射
+        const externalIds = Object.fromEntries(
+          Object.entries(current.externalIds ?? {}).filter(([, v]) => v.expiresAt === undefined || v.expiresAt > now),
+        );
+        if (onlyIfAbsent && externalIds[externalId]) return false;
+        externalIds[externalId] = { recordId, expiresAt: ttlMs === undefined ? undefined : now + ttlMs };
+        await write({ ...current, externalIds });
+        return true;
+      });
+    },
+
+    async resolveExternalId(externalId) {
+      const entry = (await read()).externalIds?.[externalId];
+      return entry && (entry.expiresAt === undefined || entry.expiresAt > Date.now()) ? entry.recordId : null;
+    },
+
+    unlinkExternalIds(ids) {
+      return exclusive(async () => {
+        const current = await read();
+        const externalIds = { ...current.externalIds };
+        for (const id of ids) delete externalIds[id];
+        await write({ ...current, externalIds });
+      });
+    },
+
+    clear() {
+      return exclusive(async () => {
+        const current = await read();
+        const cleared = current.records.length + current.projects.length + Object.keys(current.externalIds ?? {}).length;
+        await write({ ...current, records: [], expiries: {}, projects: [], externalIds: {}, terms: {} });
+        return cleared;
+      });
+    },
+
+    async getDoc<T>(collection: string, id: string) {
+      const doc = liveDocs(await read(), collection)[id];
+      return doc ? (doc.value as T) : null;
+    },
+
+    putDoc(collection, id, value, ttlMs) {
+      return exclusive(async () => {
+        const current = await read();
+        const col = { ...liveDocs(current, collection), [id]: { value, expiresAt: ttlMs ? Date.now() + ttlMs : undefined } };
+        await write({ ...current, docs: { ...current.docs, [collection]: col } });
+      });
+    },
+
+    createDoc(collection, id, value, ttlMs) {
+      return exclusive(async () => {
+        const current = await read();
+        const live = liveDocs(current, collection);
+        if (id in live) return false;
+        const col = { ...live, [id]: { value, expiresAt: ttlMs ? Date.now() + ttlMs : undefined } };
+        await write({ ...current, docs: { ...current.docs, [collection]: col } });
+        return true;
+      });
+    },
+
+    deleteDoc(collection, id) {
+      return exclusive(async () => {
+        const current = await read();
+        const col = liveDocs(current, collection);
+        if (!(id in col)) return false;
+        delete col[id];
+        await write({ ...current, docs: { ...current.docs, [collection]: col } });
+        return true;
+      });
+    },
+
+    async listDocs<T>(collection: string) {
+      return Object.values(liveDocs(await read(), collection)).map((doc) => doc.value as T);
+    },
+  };
+}
+
+// 把 from 文件中除 keep 以外的全部数据（记录、项目、外部 id 与文档集合）并入 to 文件，to 中已有的同 id 数据优先；
+// from 只留下 keep 中的文档集合。供迁移 004 把共用文件中的数据移入默认工作区，返回移动的记录数与文档数
+export async function moveFileData(from: string, to: string, keep: string[]): Promise<{ records: number; docs: number }> {
+  const fromPath = path.resolve(process.cwd(), from);
+  const toPath = path.resolve(process.cwd(), to);
+  const source = await readFileData(fromPath);
+  const target = await readFileData(toPath);
+  const collections = Object.keys(source.docs ?? {}).filter((c) => !keep.includes(c));
+  const docs = collections.reduce((n, c) => n + Object.keys(liveDocs(source, c)).length, 0);
+  if (source.records.length === 0 && source.projects.length === 0 && !source.externalIds && collections.length === 0) {
+    return { records: 0, docs: 0 };
+  }
+
+  const existing = new Set(target.records.map((r) => r.id));
+  const records = [...target.records, ...source.records.filter((r) => !existing.has(r.id))];
+  const mergedDocs = { ...target.docs };
+  for (const c of collections) mergedDocs[c] = { ...liveDocs(source, c), ...liveDocs(target, c) };
+  const merged: FileData = {
+    records,
+    expiries: { ...source.expiries, ...target.expiries },
+    projects: Array.from(new Set([...target.projects, ...source.projects])),
+    externalIds: { ...source.externalIds, ...target.externalIds },
+    terms: reindex({}, [], records),
+    docs: mergedDocs,
+  };
+  // 先写目标再清理来源，中途失败时重跑不会丢数据
+  await writeFileData(toPath, merged);
+  const kept = Object.fromEntries(Object.entries(source.docs ?? {}).filter(([c]) => keep.includes(c)));
+  await writeFileData(fromPath, { records: [], projects: [], docs: kept });
+  return { records: source.records.length, docs };
+}
@@ -0,0 +1,70 @@
+import path from "path";
+import { redis } from "@/lib/redis";
+import { createRedisStore } from "@/lib/store/redis";
+import { createFileStore, DEFAULT_DATA_FILE } from "@/lib/store/file";
+import { instrumentStore } from "@/lib/store/instrument";
+import { createLegacyFallbackStore } from "@/lib/store/legacy";
+import { createMemoryStore } from "@/lib/store/memory";
+import type { DeployStore, StoreKind } from "@/lib/store/types";
+import { DEFAULT_WORKSPACE } from "@/lib/contract";
+import { currentWorkspace } from "@/lib/workspace";
+
+export type { DeployStore, StoreKind } from "@/lib/store/types";
+export { errorStatus, StoreError } from "@/lib/store/instrument";
+export { resetLegacyCheck } from "@/lib/store/legacy";
+
+// DEPLOYLIST_STORE=redis|file|memory；未设置时有 Upstash 配置则用 Redis，否则落到本地文件
+export function resolveStoreKind(): StoreKind {
+  const raw = (process.env.DEPLOYLIST_STORE ?? "").trim().toLowerCase();
+  if (!raw) return redis ? "redis" : "file";
+  if (raw === "redis" || raw === "file" || raw === "memory") return raw;
+  throw new Error(`未知的存储类型 DEPLOYLIST_STORE=${raw}（可选 redis / file / memory）`);
+}
+
+// 每个工作区一个存储实例，空串为全局存储（工作区登记、迁移状态）
+const cached = new Map<string, DeployStore>();
+
+// 工作区的键命名空间：redis 键前缀 ws:<slug>:；本地文件 .data/deploy.<slug>.json
+export function workspaceKeyPrefix(workspace: string): string {
+  return workspace ? `ws:${workspace}:` : "";
+}
+
+export function workspaceDataFile(workspace: string): string {
+  const file = process.env.DEPLOYLIST_DATA_FILE || DEFAULT_DATA_FILE;
+  if (!workspace) return file;
+  const ext = path.extname(file);
+  return `${file.slice(0, file.length - ext.length)}.${workspace}${ext}`;
+}
+
+export function getWorkspaceStore(workspace: string): DeployStore {
+  const existing = cached.get(workspace);
+  if (existing) return existing;
+  let store: DeployStore;
+  const kind = resolveStoreKind();
+  if (kind === "redis") {
+    if (!redis) {
+      throw new Error("Redis 未配置：请设置 UPSTASH_REDIS_REST_URL 与 UPSTASH_REDIS_REST_TOKEN");
+    }
+    store = createRedisStore(redis, workspaceKeyPrefix(workspace));
+  } else if (kind === "file") {
+    store = createFileStore(workspaceDataFile(workspace));
+  } else {
+    store = createMemoryStore(workspace);
+  }
+  // 统一计时并把失败转成 StoreError，见 /api/metrics 与 /api/health
+  store = instrumentStore(store);
+  // 默认工作区在 004 迁移前继续使用共用的键；内存存储没有升级前的数据
+  if (workspace === DEFAULT_WORKSPACE && kind !== "memory") store = createLegacyFallbackStore(getWorkspaceStore(""), store);
+  cached.set(workspace, store);
+  return store;
+}
+
+// 当前请求所属工作区的存储
+export function getStore(): DeployStore {
+  return getWorkspaceStore(currentWorkspace());
+}
+
+// 全局存储：不属于任何工作区的数据
+export function getRootStore(): DeployStore {
+  return getWorkspaceStore("");
+}
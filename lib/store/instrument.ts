@@ -0,0 +1,75 @@
+import { observeStoreOperation } from "@/lib/metrics";
+import type { DeployStore } from "@/lib/store/types";
+
+// 存储不可用（网络、权限、磁盘等）：路由据此返回 503，而不是当作没有数据
+export class StoreError extends Error {
+  constructor(
+    readonly operation: string,
+    readonly cause: unknown,
+  ) {
+    super(`store ${operation} failed: ${(cause as Error)?.message ?? String(cause)}`);
+    this.name = "StoreError";
+  }
+}
+
+// 路由 catch 中的状态码：存储错误 503，其余按调用方给出的缺省值
+export function errorStatus(e: unknown, fallback = 400): number {
+  return e instanceof StoreError ? 503 : fallback;
+}
+
+function elapsed(start: bigint): number {
+  return Number(process.hrtime.bigint() - start) / 1e9;
+}
+
+async function timed<T>(kind: string, operation: string, run: () => Promise<T>): Promise<T> {
+  const start = process.hrtime.bigint();
+  try {
+    const result = await run();
+    observeStoreOperation(kind, operation, elapsed(start), true);
+    return result;
+  } catch (e) {
+    observeStoreOperation(kind, operation, elapsed(start), false);
+    throw e instanceof StoreError ? e : new StoreError(operation, e);
+  }
+}
+
+// 分批迭代按每取一批计时
+async function* timedBatches<T>(kind: string, operation: string, source: AsyncIterable<T>): AsyncGenerator<T> {
+  const iterator = source[Symbol.asyncIterator]();
+  try {
+    while (true) {
+      const next = await timed(kind, operation, () => iterator.next());
+      if (next.done) return;
+      yield next.value;
+    }
+  } finally {
+    await iterator.return?.();
+  }
+}
+
+// 包装存储：记录每次操作的耗时与失败次数，并把失败统一抛为 StoreError
+export function instrumentStore(store: DeployStore): DeployStore {
+  const { kind } = store;
+  return {
+    kind,
+    putRecord: (record, ttlMs) => timed(kind, "putRecord", () => store.putRecord(record, ttlMs)),
+    getRecord: (id) => timed(kind, "getRecord", () => store.getRecord(id)),
+    updateRecord: (record) => timed(kind, "updateRecord", () => store.updateRecord(record)),
+    scanRecords: (range, batchSize) => timedBatches(kind, "scanRecords", store.scanRecords(range, batchSize)),
+    scanWrittenSince: (since, batchSize) => timedBatches(kind, "scanWrittenSince", store.scanWrittenSince(since, batchSize)),
+    searchRecords: (terms, batchSize) => timedBatches(kind, "searchRecords", store.searchRecords(terms, batchSize)),
+    listProjects: () => timed(kind, "listProjects", () => store.listProjects()),
+    deleteRecords: (ids) => timed(kind, "deleteRecords", () => store.deleteRecords(ids)),
+    removeProjects: (names) => timed(kind, "removeProjects", () => store.removeProjects(names)),
+    linkExternalId: (externalId, recordId, ttlMs, onlyIfAbsent) =>
+      timed(kind, "linkExternalId", () => store.linkExternalId(externalId, recordId, ttlMs, onlyIfAbsent)),
+    resolveExternalId: (externalId) => timed(kind, "resolveExternalId", () => store.resolveExternalId(externalId)),
+    unlinkExternalIds: (externalIds) => timed(kind, "unlinkExternalIds", () => store.unlinkExternalIds(externalIds)),
+    clear: () => timed(kind, "clear", () => store.clear()),
+    getDoc: (collection, id) => timed(kind, "getDoc", () => store.getDoc(collection, id)),
+    putDoc: (collection, id, value, ttlMs) => timed(kind, "putDoc", () => store.putDoc(collection, id, value, ttlMs)),
+    createDoc: (collection, id, value, ttlMs) => timed(kind, "createDoc", () => store.createDoc(collection, id, value, ttlMs)),
+    deleteDoc: (collection, id) => timed(kind, "deleteDoc", () => store.deleteDoc(collection, id)),
+    listDocs: (collection) => timed(kind, "listDocs", () => store.listDocs(collection)),
+  };
+}
@@ -0,0 +1,62 @@
+import type { DeployStore } from "@/lib/store/types";
+
+// 004 迁移（lib/migrations/workspaces.ts）之前，默认工作区的数据仍在共用的键中（redis 无前缀、本地文件 deploy.json）
+// 迁移执行前默认工作区继续读写这些键，升级后不必先手动迁移，看板也不会变空；迁移完成后切换到工作区自己的命名空间
+// 迁移状态与 lib/migrations 的记法一致：全局存储 meta 集合的 schema 文档；这里不引用 lib/migrations，避免循环依赖
+const META_COLLECTION = "meta";
+const SCHEMA_DOC = "schema";
+const WORKSPACES_VERSION = 4;
+const RECHECK_MS = 5000; // 未迁移时隔多久重新读取迁移状态（其他实例执行迁移后最多延迟这么久切换）
+
+// 挂在 globalThis 上，保证 dev 模式下各路由模块拿到的是同一份状态
+const globalForLegacy = globalThis as unknown as { __deploylistLegacy?: { migrated: boolean; checkedAt: number } };
+
+function legacyState() {
+  return (globalForLegacy.__deploylistLegacy ??= { migrated: false, checkedAt: 0 });
+}
+
+// 本进程执行完迁移后调用，下一次读写立即重新检查，不等 RECHECK_MS
+export function resetLegacyCheck(): void {
+  legacyState().checkedAt = 0;
+}
+
+export function createLegacyFallbackStore(root: DeployStore, scoped: DeployStore): DeployStore {
+  async function target(): Promise<DeployStore> {
+    const state = legacyState();
+    if (!state.migrated && Date.now() - state.checkedAt >= RECHECK_MS) {
+      const schema = await root.getDoc<{ version: number }>(META_COLLECTION, SCHEMA_DOC);
+      state.migrated = (schema?.version ?? 0) >= WORKSPACES_VERSION;
+      state.checkedAt = Date.now();
+    }
+    return state.migrated ? scoped : root;
+  }
+
+  return {
+    kind: scoped.kind,
+    putRecord: async (record, ttlMs) => (await target()).putRecord(record, ttlMs),
+    getRecord: async (id) => (await target()).getRecord(id),
+    updateRecord: async (record) => (await target()).updateRecord(record),
+    async *scanRecords(range, batchSize) {
+      yield* (await target()).scanRecords(range, batchSize);
+    },
+    async *scanWrittenSince(since, batchSize) {
+      yield* (await target()).scanWrittenSince(since, batchSize);
+    },
+    async *searchRecords(terms, batchSize) {
+      yield* (await target()).searchRecords(terms, batchSize);
+    },
+    listProjects: async () => (await target()).listProjects(),
+    deleteRecords: async (ids) => (await target()).deleteRecords(ids),
+    removeProjects: async (names) => (await target()).removeProjects(names),
+    linkExternalId: async (externalId, recordId, ttlMs, onlyIfAbsent) =>
+      (await target()).linkExternalId(externalId, recordId, ttlMs, onlyIfAbsent),
+    resolveExternalId: async (externalId) => (await target()).resolveExternalId(externalId),
+    unlinkExternalIds: async (externalIds) => (await target()).unlinkExternalIds(externalIds),
+    clear: async () => (await target()).clear(),
+    getDoc: async (collection, id) => (await target()).getDoc(collection, id),
+    putDoc: async (collection, id, value, ttlMs) => (await target()).putDoc(collection, id, value, ttlMs),
+    createDoc: async (collection, id, value, ttlMs) => (await target()).createDoc(collection, id, value, ttlMs),
+    deleteDoc: async (collection, id) => (await target()).deleteDoc(collection, id),
+    listDocs: async (collection) => (await target()).listDocs(collection),
+  };
+}
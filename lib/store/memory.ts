@@ -0,0 +1,220 @@
+import { recordTerms } from "@/lib/search";
+import type { DeployRecord } from "@/lib/types";
+import { compareRecordsDesc, compareWrittenDesc, inRange, sliceBatches, writtenScore } from "@/lib/store/shared";
+import type { DeployStore } from "@/lib/store/types";
+
+interface MemoryDoc {
+  value: unknown;
+  expiresAt?: number;
+}
+
+interface MemoryData {
+  records: Map<string, DeployRecord>;
+  expiries: Map<string, number>; // 记录 id -> 过期时间戳；没有条目的记录不过期
+  projects: Set<string>;
+  externalIds: Map<string, { recordId: string; expiresAt?: number }>; // expiresAt 为空表示不过期
+  terms: Map<string, Set<string>>; // 检索词 -> 记录 id
+  docs: Map<string, Map<string, MemoryDoc>>;
+}
+
+// 挂在 globalThis 上，避免 dev 模式热更新后数据丢失；按工作区分开存放，空串为全局存储
+const globalForMemory = globalThis as unknown as { __deploylistMemory?: Record<string, MemoryData> };
+
+function data(workspace: string): MemoryData {
+  const all = (globalForMemory.__deploylistMemory ??= {});
+  if (!all[workspace]) {
+    all[workspace] = {
+      records: new Map(),
+      expiries: new Map(),
+      projects: new Set(),
+      externalIds: new Map(),
+      terms: new Map(),
+      docs: new Map(),
+    };
+  }
+  return all[workspace];
+}
+
+// 取出某个文档集合，顺带剔除已过期的文档
+function collectionOf(db: MemoryData, name: string): Map<string, MemoryDoc> {
+  const { docs } = db;
+  let col = docs.get(name);
+  if (!col) {
+    col = new Map();
+    docs.set(name, col);
+  }
+  const now = Date.now();
+  for (const [id, doc] of col) {
+    if (doc.expiresAt !== undefined && doc.expiresAt <= now) col.delete(id);
+  }
+  return col;
+}
+
+function indexRecord(db: MemoryData, record: DeployRecord) {
+  const { terms } = db;
+  for (const term of recordTerms(record)) {
+    const ids = terms.get(term) ?? new Set<string>();
+    ids.add(record.id);
+    terms.set(term, ids);
+  }
+}
+
+function unindexRecord(db: MemoryData, record: DeployRecord) {
+  const { terms } = db;
+  for (const term of recordTerms(record)) {
+    const ids = terms.get(term);
+    ids?.delete(record.id);
+    if (ids && ids.size === 0) terms.delete(term);
+  }
+}
+
+// 剔除已过期的记录
+function liveRecords(db: MemoryData): Map<string, DeployRecord> {
+  const { records, expiries } = db;
+  const now = Date.now();
+  for (const [id, expiresAt] of expiries) {
+    if (expiresAt > now) continue;
+    const record = records.get(id);
+    if (record) unindexRecord(db, record);
+    records.delete(id);
+    expiries.delete(id);
+  }
+  return records;
+}
+
+export function createMemoryStore(workspace: string): DeployStore {
+  const db = data(workspace);
+  return {
+    kind: "memory",
+
+    async putRecord(record, ttlMs) {
+      const { projects, expiries } = db;
+      const records = liveRecords(db);
+      const previous = records.get(record.id);
+      if (previous) unindexRecord(db, previous);
+      records.set(record.id, record);
+      indexRecord(db, record);
+      if (ttlMs === undefined) expiries.delete(record.id);
+      else expiries.set(record.id, Date.now() + ttlMs);
+      projects.add(record.projectName);
+    },
+
+    async getRecord(id) {
+      return liveRecords(db).get(id) ?? null;
+    },
+
+    async updateRecord(record) {
+      const records = liveRecords(db);
+      const previous = records.get(record.id);
+      if (!previous) return false;
+      unindexRecord(db, previous);
+      records.set(record.id, record);
+      indexRecord(db, record);
+      return true;
+    },
+
+    scanRecords(range, batchSize) {
+      const list = Array.from(liveRecords(db).values()).filter((r) => inRange(r, range));
+      list.sort(compareRecordsDesc);
+      return sliceBatches(list, batchSize);
+    },
+
+    scanWrittenSince(since, batchSize) {
+      const list = Array.from(liveRecords(db).values()).filter((r) => writtenScore(r) > since);
+      list.sort(compareWrittenDesc);
+      return sliceBatches(list, batchSize);
+    },
+
+    searchRecords(terms, batchSize) {
+      const records = liveRecords(db);
+      const sets = terms.map((term) => db.terms.get(term) ?? new Set<string>()).sort((a, b) => a.size - b.size);
+      if (sets.length === 0) return sliceBatches([], batchSize);
+      const list: DeployRecord[] = [];
+      for (const id of sets[0]) {
+        const record = records.get(id);
+        if (record && sets.every((ids) => ids.has(id))) list.push(record);
+      }
+      return sliceBatches(list.sort(compareRecordsDesc), batchSize);
+    },
+
+    async listProjects() {
+      return Array.from(db.projects).sort();
+    },
+
+    async deleteRecords(ids) {
+      const { records, expiries } = db;
+      let removed = 0;
+      for (const id of ids) {
+        const record = records.get(id);
+        if (record) unindexRecord(db, record);
+        expiries.delete(id);
+        if (records.delete(id)) removed += 1;
+      }
+      return removed;
+    },
+
+    async removeProjects(names) {
+      const { projects } = db;
+      for (const name of names) projects.delete(name);
+    },
+
+    async linkExternalId(externalId, recordId, ttlMs, onlyIfAbsent) {
+      const { externalIds } = db;
+      const current = externalIds.get(externalId);
+      if (onlyIfAbsent && current && (current.expiresAt === undefined || current.expiresAt > Date.now())) return false;
+      externalIds.set(externalId, { recordId, expiresAt: ttlMs === undefined ? undefined : Date.now() + ttlMs });
+      return true;
+    },
+
+    async resolveExternalId(externalId) {
+      const { externalIds } = db;
+      const current = externalIds.get(externalId);
+      if (!current) return null;
+      if (current.expiresAt !== undefined && current.expiresAt <= Date.now()) {
+        externalIds.delete(externalId);
+        return null;
+      }
+      return current.recordId;
+    },
+
+    async unlinkExternalIds(ids) {
+      const { externalIds } = db;
+      for (const id of ids) externalIds.delete(id);
+    },
+
+    async clear() {
+      const { records, expiries, projects, externalIds, terms } = db;
+      const cleared = records.size + projects.size + externalIds.size;
+      records.clear();
+      terms.clear();
+      expiries.clear();
+      projects.clear();
+      externalIds.clear();
+      return cleared;
+    },
+
+    async getDoc<T>(collection: string, id: string) {
+      const doc = collectionOf(db, collection).get(id);
+      return doc ? (structuredClone(doc.value) as T) : null;
+    },
+
+    async putDoc(collection, id, value, ttlMs) {
+      collectionOf(db, collection).set(id, { value: structuredClone(value), expiresAt: ttlMs ? Date.now() + ttlMs : undefined });
+    },
+
+    async createDoc(collection, id, value, ttlMs) {
+      const col = collectionOf(db, collection);
+      if (col.has(id)) return false;
+      col.set(id, { value: structuredClone(value), expiresAt: ttlMs ? Date.now() + ttlMs : undefined });
+      return true;
+    },
+
+    async deleteDoc(collection, id) {
+      return collectionOf(db, collection).delete(id);
+    },
+
+    async listDocs<T>(collection: string) {
+      return Array.from(collectionOf(db, collection).values()).map((doc) => structuredClone(doc.value) as T);
+    },
+  };
+}
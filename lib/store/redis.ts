@@ -0,0 +1,287 @@
+import type { Redis } from "@upstash/redis";
+import {
+  PROJECT_SET_KEY,
+  DEPLOY_ZSET_KEY,
+  WRITTEN_ZSET_KEY,
+  DEPLOY_RECORD_PREFIX,
+  DOC_PREFIX,
+  DOC_INDEX_PREFIX,
+  EXTERNAL_ID_PREFIX,
+  SEARCH_TERM_PREFIX,
+} from "@/lib/redis";
+import { recordTerms } from "@/lib/search";
+import type { DeployRecord } from "@/lib/types";
+import { writtenScore } from "@/lib/store/shared";
+import type { DeployStore } from "@/lib/store/types";
+
+const BATCH = 200; // mget / del / scan 的单批数量，避免大键空间下单条命令过大
+
+export function coerceRecord(raw: unknown): DeployRecord | null {
+  try {
+    if (raw == null) return null;
+    if (typeof raw === "string") {
+      const parsed = JSON.parse(raw) as Partial<DeployRecord>;
+      if (parsed && parsed.id && parsed.deployedAt) return parsed as DeployRecord;
+      return null;
+    }
+    if (typeof raw === "object") {
+      const obj = raw as Partial<DeployRecord>;
+      if (obj && obj.id && obj.deployedAt) return obj as DeployRecord;
+      return null;
+    }
+    return null;
+  } catch {
+    return null;
+  }
+}
+
+function docKey(prefix: string, collection: string, id: string): string {
+  return `${prefix}${DOC_PREFIX}${collection}:${id}`;
+}
+
+function termKey(prefix: string, term: string): string {
+  return `${prefix}${SEARCH_TERM_PREFIX}${term}`;
+}
+
+// 把记录写入各检索词的 Set；词集合与其中最晚过期的记录一起过期：新键设置过期时间，已有键只延长不缩短
+// 不过期的记录（ttlMs 为空）所在的词集合也不过期
+// previous 为被覆盖的旧记录：新记录中已没有的词从索引中移除；原样覆盖时照常写入全部词（迁移 002 借此补建索引）
+async function indexRecord(redis: Redis, prefix: string, record: DeployRecord, ttlMs: number | undefined, previous: DeployRecord | null): Promise<void> {
+  const seconds = ttlMs === undefined ? 0 : Math.max(1, Math.ceil(ttlMs / 1000));
+  const terms = new Set(recordTerms(record));
+  const pipeline = redis.pipeline();
+  for (const term of previous ? recordTerms(previous) : []) {
+    if (!terms.has(term)) pipeline.srem(termKey(prefix, term), record.id);
+  }
+  for (const term of terms) {
+    pipeline.sadd(termKey(prefix, term), record.id);
+    if (ttlMs === undefined) {
+      pipeline.persist(termKey(prefix, term));
+      continue;
+    }
+    pipeline.expire(termKey(prefix, term), seconds, "NX");
+    pipeline.expire(termKey(prefix, term), seconds, "GT");
+  }
+  await pipeline.exec();
+}
+
+async function unindexRecords(redis: Redis, prefix: string, records: DeployRecord[]): Promise<void> {
+  if (records.length === 0) return;
+  const pipeline = redis.pipeline();
+  for (const record of records) {
+    for (const term of recordTerms(record)) pipeline.srem(termKey(prefix, term), record.id);
+  }
+  await pipeline.exec();
+}
+
+// prefix 为工作区的键命名空间（如 ws:youpik:），各工作区的记录、索引与文档互不可见；空串表示全局键
+export function createRedisStore(redis: Redis, prefix = ""): DeployStore {
+  const k = (key: string) => `${prefix}${key}`;
+  const recordKey = (id: string) => k(`${DEPLOY_RECORD_PREFIX}${id}`);
+
+  // 按分数倒序分批读取 ZSET 索引指向的记录；索引还在但记录键已过期的条目：迭代中跳过，结束后统一移除（迭代中删除会打乱 offset）
+  async function* scanIndex(index: string, max: number, min: number | `(${number}`, batchSize: number): AsyncGenerator<DeployRecord[]> {
+    const stale: string[] = [];
+    try {
+      for (let offset = 0; ; offset += batchSize) {
+        const ids = (await redis.zrange(k(index), max, min, { byScore: true, rev: true, offset, count: batchSize })) as unknown as string[];
+        if (!ids || ids.length === 0) break;
+        const values = (await redis.mget(...(ids.map(recordKey) as [string, ...string[]]))) as unknown as unknown[];
+        const batch: DeployRecord[] = [];
+        ids.forEach((id, i) => {
+          const record = coerceRecord(values?.[i]);
+          if (record) batch.push(record);
+          else stale.push(id);
+        });
+        if (batch.length > 0) yield batch;
+        if (ids.length < batchSize) break;
+      }
+    } finally {
+      for (let i = 0; i < stale.length; i += BATCH) {
+        await redis.zrem(k(index), ...(stale.slice(i, i + BATCH) as [string, ...string[]]));
+      }
+    }
+  }
+
+  return {
+    kind: "redis",
+
+    async putRecord(record, ttlMs) {
+      // 按单条键 + ZSET 排序索引，并设置过期
+      const key = recordKey(record.id);
+      const score = new Date(record.deployedAt).getTime();
+      // get：取回被覆盖的旧记录，移除其不再包含的检索词
+      const previous = coerceRecord(
+        ttlMs === undefined
+          ? await redis.set(key, JSON.stringify(record), { get: true })
+          : await redis.set(key, JSON.stringify(record), { ex: Math.max(1, Math.ceil(ttlMs / 1000)), get: true }),
+      );
+      // 各记录保留时长不同，不能按分数整段裁剪索引；记录键过期后的残留索引由 scanRecords 清理
+      await redis.zadd(k(DEPLOY_ZSET_KEY), { score, member: record.id });
+      await redis.zadd(k(WRITTEN_ZSET_KEY), { score: writtenScore(record), member: record.id });
+      // 同步项目集合，供 /api/projects 读取
+      await redis.sadd(k(PROJECT_SET_KEY), record.projectName);
+      await indexRecord(redis, prefix, record, ttlMs, previous);
+    },
+
+    async getRecord(id) {
+      return coerceRecord(await redis.get(recordKey(id)));
+    },
+
+    async updateRecord(record) {
+      const key = recordKey(record.id);
+      const previous = coerceRecord(await redis.set(key, JSON.stringify(record), { xx: true, keepTtl: true, get: true }));
+      if (!previous) return false;
+      // -1 表示不过期
+      const ttlMs = await redis.pttl(key);
+      if (ttlMs > 0 || ttlMs === -1) await indexRecord(redis, prefix, record, ttlMs > 0 ? ttlMs : undefined, previous);
+      return true;
+    },
+
+    scanRecords(range, batchSize) {
+      return scanIndex(DEPLOY_ZSET_KEY, range.max, range.min, batchSize);
+    },
+
+    scanWrittenSince(since, batchSize) {
+      return scanIndex(WRITTEN_ZSET_KEY, Number.MAX_SAFE_INTEGER, `(${since}`, batchSize);
+    },
+
+    // 先用时间索引的分数给候选 id 排序，再按批读取记录，调用方停止迭代时不必读出全部候选
+    async *searchRecords(terms, batchSize) {
+      if (terms.length === 0) return;
+      const keys = terms.map((term) => termKey(prefix, term));
+      const ids = ((await redis.sinter(...(keys as [string, ...string[]]))) as unknown as string[]) ?? [];
+      const stale: string[] = [];
+      try {
+        const ranked: { id: string; score: number }[] = [];
+        for (let i = 0; i < ids.length; i += BATCH) {
+          const chunk = ids.slice(i, i + BATCH);
+          const scores = (await redis.zmscore(k(DEPLOY_ZSET_KEY), chunk)) ?? [];
+          chunk.forEach((id, j) => {
+            if (scores[j] == null) stale.push(id);
+            else ranked.push({ id, score: Number(scores[j]) });
+          });
+        }
+        ranked.sort((a, b) => b.score - a.score || (a.id < b.id ? 1 : a.id > b.id ? -1 : 0));
+        for (let i = 0; i < ranked.length; i += batchSize) {
+          const chunk = ranked.slice(i, i + batchSize).map((r) => r.id);
+          const values = (await redis.mget(...(chunk.map(recordKey) as [string, ...string[]]))) as unknown as unknown[];
+          const batch: DeployRecord[] = [];
+          chunk.forEach((id, j) => {
+            const record = coerceRecord(values?.[j]);
+            if (record) batch.push(record);
+            else stale.push(id);
+          });
+          if (batch.length > 0) yield batch;
+        }
+      } finally {
+        // 记录键已过期的 id 顺手从本次查询的词集合中移除
+        if (stale.length > 0) {
+          const pipeline = redis.pipeline();
+          for (const key of keys) pipeline.srem(key, ...stale);
+          await pipeline.exec();
+        }
+      }
+    },
+
+    async listProjects() {
+      const members = (await redis.smembers(k(PROJECT_SET_KEY))) as unknown as string[];
+      return [...new Set(Array.isArray(members) ? members : [])].sort();
+    },
+
+    async deleteRecords(ids) {
+      if (ids.length === 0) return 0;
+      let removed = 0;
+      for (let i = 0; i < ids.length; i += BATCH) {
+        const chunk = ids.slice(i, i + BATCH);
+        const values = (await redis.mget(...(chunk.map(recordKey) as [string, ...string[]]))) as unknown as unknown[];
+        await unindexRecords(redis, prefix, (values ?? []).map(coerceRecord).filter((r): r is DeployRecord => r !== null));
+        removed += await redis.del(...(chunk.map(recordKey) as [string, ...string[]]));
+        await redis.zrem(k(DEPLOY_ZSET_KEY), ...(chunk as [string, ...string[]]));
+        await redis.zrem(k(WRITTEN_ZSET_KEY), ...(chunk as [string, ...string[]]));
+      }
+      return removed;
+    },
+
+    async removeProjects(names) {
+      if (names.length === 0) return;
+      await redis.srem(k(PROJECT_SET_KEY), ...(names as [string, ...string[]]));
+    },
+
+    async linkExternalId(externalId, recordId, ttlMs, onlyIfAbsent) {
+      const key = k(`${EXTERNAL_ID_PREFIX}${externalId}`);
+      const expiry = ttlMs === undefined ? {} : { px: Math.max(1, Math.ceil(ttlMs)) };
+      const result = onlyIfAbsent ? await redis.set(key, recordId, { ...expiry, nx: true }) : await redis.set(key, recordId, expiry);
+      return result != null;
+    },
+
+    async resolveExternalId(externalId) {
+      const value = await redis.get<string>(k(`${EXTERNAL_ID_PREFIX}${externalId}`));
+      return value == null ? null : String(value);
+    },
+
+    async unlinkExternalIds(externalIds) {
+      if (externalIds.length === 0) return;
+      await redis.del(...(externalIds.map((id) => k(`${EXTERNAL_ID_PREFIX}${id}`)) as [string, ...string[]]));
+    },
+
+    async clear() {
+      // 只删除本应用自己的键：索引 + deploy_record:* + deploy_ext:* + deploy_term:* ，用 SCAN 分批，不使用 keys("*")
+      let removed = await redis.del(k(DEPLOY_ZSET_KEY), k(WRITTEN_ZSET_KEY), k(PROJECT_SET_KEY));
+      for (const keyPrefix of [DEPLOY_RECORD_PREFIX, EXTERNAL_ID_PREFIX, SEARCH_TERM_PREFIX]) {
+        let cursor = "0";
+        do {
+          const [next, keys]: [string, string[]] = await redis.scan(cursor, { match: k(`${keyPrefix}*`), count: BATCH });
+          if (keys.length > 0) removed += await redis.del(...(keys as [string, ...string[]]));
+          cursor = String(next);
+        } while (cursor !== "0");
+      }
+      return removed;
+    },
+
+    async getDoc<T>(collection: string, id: string) {
+      const raw = await redis.get(docKey(prefix, collection, id));
+      if (raw == null) return null;
+      return (typeof raw === "string" ? JSON.parse(raw) : raw) as T;
+    },
+
+    async putDoc(collection, id, value, ttlMs) {
+      const key = docKey(prefix, collection, id);
+      if (ttlMs) await redis.set(key, JSON.stringify(value), { px: ttlMs });
+      else await redis.set(key, JSON.stringify(value));
+      await redis.sadd(k(`${DOC_INDEX_PREFIX}${collection}`), id);
+    },
+
+    async createDoc(collection, id, value, ttlMs) {
+      const key = docKey(prefix, collection, id);
+      const result = ttlMs
+        ? await redis.set(key, JSON.stringify(value), { px: ttlMs, nx: true })
+        : await redis.set(key, JSON.stringify(value), { nx: true });
+      if (result == null) return false;
+      await redis.sadd(k(`${DOC_INDEX_PREFIX}${collection}`), id);
+      return true;
+    },
+
+    async deleteDoc(collection, id) {
+      const removed = await redis.del(docKey(prefix, collection, id));
+      await redis.srem(k(`${DOC_INDEX_PREFIX}${collection}`), id);
+      return removed > 0;
+    },
+
+    async listDocs<T>(collection: string) {
+      const indexKey = k(`${DOC_INDEX_PREFIX}${collection}`);
+      const ids = (await redis.smembers(indexKey)) as unknown as string[];
+      if (!ids || ids.length === 0) return [];
+      const values = (await redis.mget(...(ids.map((id) => docKey(prefix, collection, id)) as [string, ...string[]]))) as unknown as unknown[];
+      const docs: T[] = [];
+      const expired: string[] = [];
+      values.forEach((raw, i) => {
+        if (raw == null) expired.push(ids[i]);
+        else docs.push((typeof raw === "string" ? JSON.parse(raw) : raw) as T);
+      });
+      // 顺手清理已过期文档留在索引里的 id
+      if (expired.length > 0) await redis.srem(indexKey, ...expired);
+      return docs;
+    },
+  };
+}
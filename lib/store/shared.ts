@@ -0,0 +1,35 @@
+import type { DeployRecord } from "@/lib/types";
+import type { RecordRange } from "@/lib/store/types";
+
+// 排序分值：部署时间的毫秒时间戳，与 Redis ZSET 的 score 一致
+export function recordScore(record: DeployRecord): number {
+  return new Date(record.deployedAt).getTime();
+}
+
+// 倒序：先按部署时间，再按 id（与 ZSET 同分值成员的倒序一致）
+export function compareRecordsDesc(a: DeployRecord, b: DeployRecord): number {
+  const diff = recordScore(b) - recordScore(a);
+  if (diff !== 0) return diff;
+  return a.id < b.id ? 1 : a.id > b.id ? -1 : 0;
+}
+
+// 写入时间：早期记录没有 createdAt，按部署时间
+export function writtenScore(record: DeployRecord): number {
+  return new Date(record.createdAt ?? record.deployedAt).getTime();
+}
+
+export function compareWrittenDesc(a: DeployRecord, b: DeployRecord): number {
+  return writtenScore(b) - writtenScore(a) || compareRecordsDesc(a, b);
+}
+
+export function inRange(record: DeployRecord, range: RecordRange): boolean {
+  const score = recordScore(record);
+  return score >= range.min && score <= range.max;
+}
+
+// 内存/文件后端共用：把已排好序的数组按批切片
+export async function* sliceBatches(list: DeployRecord[], batchSize: number): AsyncGenerator<DeployRecord[]> {
+  for (let i = 0; i < list.length; i += batchSize) {
+    yield list.slice(i, i + batchSize);
+  }
+}
@@ -0,0 +1,47 @@
+import type { DeployRecord } from "@/lib/types";
+
+export type StoreKind = "redis" | "file" | "memory";
+
+// 部署时间区间（毫秒时间戳，闭区间）
+export interface RecordRange {
+  min: number;
+  max: number;
+}
+
+// 存储后端需要实现的最小接口；业务逻辑（id 生成、保留时长等）留在 lib/db.ts
+export interface DeployStore {
+  readonly kind: StoreKind;
+  // 写入一条记录，ttlMs 为该记录的保留时长（各记录可以不同，由 lib/retention.ts 按项目、环境决定）
+  // ttlMs 省略表示不过期（需要归档的记录由清理任务归档后删除），覆盖写入时同时去掉原有的过期时间
+  putRecord(record: DeployRecord, ttlMs?: number): Promise<void>;
+  getRecord(id: string): Promise<DeployRecord | null>;
+  // 覆盖一条已存在的记录（保留原有过期时间），记录不存在时返回 false
+  updateRecord(record: DeployRecord): Promise<boolean>;
+  // 按部署时间倒序（同一时间按 id 倒序）分批返回区间内的记录，调用方可随时停止迭代
+  scanRecords(range: RecordRange, batchSize: number): AsyncIterable<DeployRecord[]>;
+  // 按写入时间倒序分批返回 since（毫秒时间戳，不含）之后写入的记录；补录、导入等部署时间较早的记录也按写入时间排
+  scanWrittenSince(since: number, batchSize: number): AsyncIterable<DeployRecord[]>;
+  // 全文检索：按部署时间倒序分批返回倒排索引中同时包含全部 terms 的记录，调用方可随时停止迭代
+  // 索引由 putRecord / updateRecord / deleteRecords 按 lib/search.ts 的 recordTerms 维护；可能多出候选，调用方需再校验
+  searchRecords(terms: string[], batchSize: number): AsyncIterable<DeployRecord[]>;
+  listProjects(): Promise<string[]>;
+  // 删除指定记录及其排序索引，返回实际删除的条数
+  deleteRecords(ids: string[]): Promise<number>;
+  // 从项目集合中移除已没有记录的项目
+  removeProjects(names: string[]): Promise<void>;
+  // 外部 id（客户端幂等键）到记录 id 的映射，与记录同样过期
+  // onlyIfAbsent 为 true 时仅在映射不存在时写入，返回是否写入成功
+  linkExternalId(externalId: string, recordId: string, ttlMs: number | undefined, onlyIfAbsent: boolean): Promise<boolean>;
+  resolveExternalId(externalId: string): Promise<string | null>;
+  unlinkExternalIds(externalIds: string[]): Promise<void>;
+  // 清空全部部署记录、项目集合、外部 id 映射与检索索引（不含令牌等文档），返回删除的条目数
+  clear(): Promise<number>;
+
+  // 通用文档集合（令牌等辅助数据），按 collection + id 存取 JSON，ttlMs 省略则不过期
+  getDoc<T>(collection: string, id: string): Promise<T | null>;
+  putDoc<T>(collection: string, id: string, value: T, ttlMs?: number): Promise<void>;
+  // 仅在文档不存在（或已过期）时写入，返回是否写入成功；并发调用时只有一个成功（redis 为 SET NX）
+  createDoc<T>(collection: string, id: string, value: T, ttlMs?: number): Promise<boolean>;
+  deleteDoc(collection: string, id: string): Promise<boolean>;
+  listDocs<T>(collection: string): Promise<T[]>;
+}
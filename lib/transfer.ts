@@ -0,0 +1,219 @@
+import { checkArtifacts, DEPLOY_STATUSES, IMPORT_DEPLOY_SCHEMA, TRANSFER_FORMATS } from "@/lib/contract";
+import { validateObject } from "@/lib/schema";
+import type { DeployRecord, DeployStatusChange, ImportDeployPayload, Parsed, TransferFormat } from "@/lib/types";
+
+// 导入导出格式：json 为数组，ndjson 每行一条，csv 首行为表头
+
+export const CONTENT_TYPES: Record<TransferFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  json: "application/json; charset=utf-8",
+  ndjson: "application/x-ndjson; charset=utf-8",
+};
+
+// CSV 不含状态历史，其余字段与记录一致
+const CSV_COLUMNS = [
+  "id",
+  "title",
+  "projectName",
+  "operator",
+  "environment",
+  "branch",
+  "commit",
+  "revision",
+  "version",
+  "rollbackOf",
+  "status",
+  "deployedAt",
+  "finishedAt",
+  "durationMs",
+  "note",
+  "externalId",
+] as const;
+
+const BOM = "\ufeff"; // 让 Excel 按 UTF-8 打开中文
+const ID_PATTERN = /^[A-Za-z0-9_.:-]{1,100}$/;
+
+function csvCell(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// 按格式逐块输出，供导出接口流式返回
+export async function* serializeRecords(records: AsyncIterable<DeployRecord>, format: TransferFormat): AsyncGenerator<string> {
+  if (format === "csv") {
+    yield `${BOM}${CSV_COLUMNS.join(",")}\r\n`;
+    for await (const record of records) {
+      yield `${CSV_COLUMNS.map((key) => csvCell(record[key])).join(",")}\r\n`;
+    }
+    return;
+  }
+  if (format === "ndjson") {
+    for await (const record of records) yield `${JSON.stringify(record)}\n`;
+    return;
+  }
+  let first = true;
+  yield "[";
+  for await (const record of records) {
+    yield `${first ? "\n" : ",\n"}${JSON.stringify(record)}`;
+    first = false;
+  }
+  yield "\n]\n";
+}
+
+export function toByteStream(chunks: AsyncIterable<string>): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const iterator = chunks[Symbol.asyncIterator]();
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { value, done } = await iterator.next();
+      if (done) controller.close();
+      else controller.enqueue(encoder.encode(value));
+    },
+    async cancel() {
+      await iterator.return?.(undefined);
+    },
+  });
+}
+
+// RFC 4180：引号内可含逗号、换行与转义的双引号
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch !== '"') cell += ch;
+      else if (text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else quoted = false;
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((c) => c.trim() !== ""));
+}
+
+export type ImportRow = { row: number } & Parsed<Record<string, unknown>>;
+
+// 把请求体拆成逐行的原始对象；整体无法解析（JSON 语法错误、CSV 缺表头）时返回错误
+export function splitImportRows(format: TransferFormat, text: string): Parsed<ImportRow[]> {
+  const body = text.startsWith(BOM) ? text.slice(BOM.length) : text;
+  if (format === "csv") {
+    const [header, ...rows] = parseCsv(body);
+    if (!header) return { ok: false, error: "empty csv" };
+    const columns = header.map((c) => c.trim());
+    if (!columns.includes("projectName")) return { ok: false, error: "csv header required, e.g. " + CSV_COLUMNS.join(",") };
+    return {
+      ok: true,
+      value: rows.map((cells, i) => ({
+        row: i + 1,
+        ok: true,
+        value: Object.fromEntries(columns.map((c, j) => [c, cells[j] ?? ""])),
+      })),
+    };
+  }
+  if (format === "ndjson") {
+    const lines = body.split(/\r?\n/).filter((line) => line.trim() !== "");
+    return {
+      ok: true,
+      value: lines.map((line, i): ImportRow => {
+        try {
+          const value = JSON.parse(line);
+          if (value && typeof value === "object" && !Array.isArray(value)) return { row: i + 1, ok: true, value };
+          return { row: i + 1, ok: false, error: "row must be a json object" };
+        } catch {
+          return { row: i + 1, ok: false, error: "invalid json" };
+        }
+      }),
+    };
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    return { ok: false, error: "invalid json" };
+  }
+  // 也接受 GET /api/deploy 的 { data: [...] } 响应
+  const list = Array.isArray(parsed) ? parsed : (parsed as { data?: unknown } | null)?.data;
+  if (!Array.isArray(list)) return { ok: false, error: "json body must be an array of records" };
+  return {
+    ok: true,
+    value: list.map((value, i): ImportRow =>
+      value && typeof value === "object" && !Array.isArray(value)
+        ? { row: i + 1, ok: true, value: value as Record<string, unknown> }
+        : { row: i + 1, ok: false, error: "row must be a json object" },
+    ),
+  };
+}
+
+function parseHistory(value: unknown): Parsed<DeployStatusChange[] | undefined> {
+  if (value === undefined || value === null || value === "") return { ok: true, value: undefined };
+  if (!Array.isArray(value)) return { ok: false, error: "invalid history: array required" };
+  const history: DeployStatusChange[] = [];
+  for (const item of value as Partial<DeployStatusChange>[]) {
+    if (!item || !DEPLOY_STATUSES.includes(item.status as DeployStatusChange["status"]) || Number.isNaN(new Date(String(item.at)).getTime())) {
+      return { ok: false, error: "invalid history entry: status and at required" };
+    }
+    history.push({ status: item.status!, at: new Date(String(item.at)).toISOString(), note: item.note ? String(item.note) : undefined });
+  }
+  return { ok: true, value: history.length > 0 ? history : undefined };
+}
+
+// 校验导入的一行：与 POST /api/deploy 相同的字段规则，另外允许 id、finishedAt、history
+export function parseImportRow(raw: Record<string, unknown>): Parsed<ImportDeployPayload> {
+  // CSV 的空单元格视为未填写
+  const parsed = checkArtifacts(validateObject(IMPORT_DEPLOY_SCHEMA, raw));
+  if (!parsed.ok) return parsed;
+  const { id } = parsed.value;
+  if (id !== undefined && !ID_PATTERN.test(id)) return { ok: false, error: `invalid id: ${id}` };
+  const history = parseHistory(raw.history);
+  if (!history.ok) return history;
+  return { ok: true, value: { ...parsed.value, history: history.value } };
+}
+
+// ?format= 优先，其次按 Content-Type 推断，默认 json
+export function resolveFormat(format: string | null, contentType: string | null): TransferFormat | null {
+  if (format) return TRANSFER_FORMATS.includes(format as TransferFormat) ? (format as TransferFormat) : null;
+  const type = (contentType ?? "").toLowerCase();
+  if (type.includes("csv")) return "csv";
+  if (type.includes("ndjson") || type.includes("jsonl")) return "ndjson";
+  return "json";
+}
+
+// 按字节数读取请求体，超过 maxBytes 时停止读取并返回 null（不信任 Content-Length）
+export async function readBody(req: Request, maxBytes: number): Promise<Buffer | null> {
+  if (!req.body) return Buffer.alloc(0);
+  const reader = req.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
@@ -1,5 +1,20 @@
 export type DeployStatus = "success" | "failed" | "running" | "canceled";
 
+export interface DeployStatusChange {
+  status: DeployStatus;
+  at: string; // ISO 时间串
+  note?: string;
+}
+
+export type ArtifactType = "pgyer" | "testflight" | "apk" | "ipa" | "docker" | "link";
+
+// 构建产物：安装包、镜像或下载页
+export interface DeployArtifact {
+  type: ArtifactType;
+  label: string; // 显示名称
+  value: string; // 下载地址；docker 为镜像引用，如 registry.example.com/app:1.2.3
+}
+
 export interface DeployRecord {
   id: string;
   title: string;
@@ -8,9 +23,21 @@ export interface DeployRecord {
   environment: string; // 部署环境
   branch: string; // 代码分支
   commit: string; // 代码提交记录
+  revision?: string; // 提交 SHA，用于生成与上次部署的对比链接
+  version?: string; // 版本号或标签，如 v1.2.3
+  rollbackOf?: string; // 回滚记录：被回滚（撤下）的那次部署的 id
   note?: string; // 备注
   deployedAt: string; // ISO 时间串
+  createdAt?: string; // 写入时间（导入的记录为导入时间），未读数按它判断；早期写入的记录没有，按 deployedAt
+  restoredAt?: string; // 写入时已超出保留期（如从归档重新导入）的写入时间，保留期从此起算而不是 deployedAt
+  expiresAt?: string | null; // 按保留策略设定的过期时间；null 表示需要归档、不自动过期；早期写入的记录没有
   status: DeployStatus; // 部署状态
+  finishedAt?: string; // 结束时间（状态离开 running 时记录）
+  durationMs?: number; // 部署耗时：finishedAt - deployedAt
+  history?: DeployStatusChange[]; // 状态变更历史，按时间正序
+  externalId?: string; // 客户端提供的幂等键，同一键只对应一条记录
+  artifacts?: DeployArtifact[]; // 构建产物；未提供时从 note 中识别
+  violations?: DeployViolation[]; // 新建时落在封版窗口内或环境被他人锁定
 }
 
 export interface CreateDeployPayload {
@@ -20,9 +47,403 @@ export interface CreateDeployPayload {
   environment: string;
   branch: string;
   commit: string;
+  revision?: string;
+  version?: string;
+  rollbackOf?: string;
   note?: string;
   deployedAt?: string;
   status: DeployStatus;
+  externalId?: string;
+  artifacts?: DeployArtifact[];
+}
+
+// 回滚：新建一条记录，把环境指回 to 那次部署的分支、提交、版本与产物
+export interface RollbackPayload {
+  operator: string;
+  to?: string; // 回滚目标的记录 id；缺省为被回滚记录之前最近一次没有被回滚过的成功部署
+  status?: DeployStatus; // 缺省 success；由流水线执行回滚时可先报 running 再 PATCH
+  title?: string;
+  note?: string;
+  externalId?: string;
+}
+
+// 批量导入的一行：在新建字段之外可带上原记录的 id、结束时间与状态历史
+export interface ImportDeployPayload extends CreateDeployPayload {
+  id?: string;
+  finishedAt?: string;
+  history?: DeployStatusChange[];
+}
+
+// 导入报告：row 为数据行序号（从 1 开始，不含 CSV 表头）
+export type ImportRowResult = { row: number; ok: true; id: string } | { row: number; ok: false; error: string };
+
+export interface ImportReport {
+  accepted: number;
+  rejected: number;
+  results: ImportRowResult[];
+}
+
+// 请求体校验结果
+export type Parsed<T> = { ok: true; value: T } | { ok: false; error: string };
+
+export interface UpdateDeployPayload {
+  status?: DeployStatus;
+  note?: string;
+  finishedAt?: string;
+  artifacts?: DeployArtifact[]; // 整体替换已有产物
 }
 
 
+
+export type TokenPermission = "ingest" | "read" | "admin";
+
+export interface ApiToken {
+  id: string;
+  name: string;
+  tokenHash: string; // sha256(明文令牌)，明文只在创建时返回一次
+  projects: string[]; // 可操作的项目，["*"] 表示全部
+  permissions: TokenPermission[];
+  user?: string; // 绑定的用户名：持有者可以改写这个用户的订阅与已读位置
+  createdAt: string;
+  revokedAt?: string;
+}
+
+export interface CreateTokenPayload {
+  name: string;
+  projects: string[];
+  permissions: TokenPermission[];
+  user?: string;
+}
+
+// 清理范围：各条件之间为“且”关系；all 为 true 时清空全部记录
+export interface CleanScope {
+  projects?: string[];
+  environments?: string[];
+  before?: string; // 删除早于该时间的记录（ISO 时间串）
+  ids?: string[];
+  all?: boolean;
+}
+
+export interface CleanPayload extends CleanScope {
+  dryRun?: boolean; // 只统计将要删除的条数
+}
+
+export interface CleanResult {
+  dryRun: boolean;
+  matched: number;
+  deleted: number;
+  records: Pick<DeployRecord, "id" | "projectName" | "environment" | "deployedAt">[];
+}
+
+export interface DeployFilter {
+  projectNames?: string[];
+  environments?: string[];
+  from?: string; // 部署时间下界（ISO 时间串，含）
+  to?: string; // 部署时间上界（ISO 时间串，含）
+}
+
+export interface DeployQuery extends DeployFilter {
+  limit: number;
+  cursor?: string; // 上一页返回的 nextCursor
+}
+
+// 查询参数：list 字段支持重复参数 ?projectName=a&projectName=b 或逗号分隔 ?projects=a,b
+export interface DeployFilterParams {
+  projectName?: string[];
+  environment?: string[];
+  from?: string;
+  to?: string;
+}
+
+export interface DeployListParams extends DeployFilterParams {
+  limit?: number;
+  cursor?: string;
+}
+
+export type TransferFormat = "csv" | "json" | "ndjson";
+
+export interface DeployExportParams extends DeployFilterParams {
+  format?: TransferFormat;
+}
+
+export interface ArchiveDownloadParams {
+  format?: TransferFormat | "gzip"; // gzip 为快照原始的压缩 NDJSON
+}
+
+export interface DeployStatsParams extends DeployFilterParams {
+  days?: number;
+}
+
+export type CurrentDeployParams = Pick<DeployFilterParams, "projectName" | "environment">;
+
+export interface DeploySearchParams extends DeployFilterParams {
+  q: string; // 检索语句，语法见 lib/search.ts
+  limit?: number;
+}
+
+export interface DeployPage {
+  data: DeployRecord[];
+  nextCursor: string | null;
+}
+
+export interface DailyDeployCount {
+  date: string; // YYYY-MM-DD（服务器时区）
+  total: number;
+  failed: number;
+}
+
+export interface DeployStatsSummary {
+  total: number;
+  success: number;
+  failed: number;
+  canceled: number;
+  running: number;
+  successRate: number | null; // success / (success + failed)，没有结束的部署时为 null
+  deploysPerDay: number;
+  deploysPerWeek: number;
+  medianRecoveryMs: number | null; // 失败到下一次成功的中位时长
+  topOperators: { operator: string; count: number }[];
+  daily: DailyDeployCount[];
+}
+
+export interface DeployStatsGroup extends DeployStatsSummary {
+  projectName: string;
+  environment: string;
+}
+
+export interface DeployStats {
+  from: string;
+  to: string;
+  days: number;
+  overall: DeployStatsSummary;
+  groups: DeployStatsGroup[];
+}
+
+export type NotifyChannelType = "bark" | "webhook" | "dingtalk" | "feishu" | "wecom";
+
+export interface NotifyTemplate {
+  title: string; // 支持 {{projectName}} {{environment}} {{status}} 等占位符
+  body: string;
+}
+
+export interface NotifyChannel {
+  id: string;
+  name: string;
+  type: NotifyChannelType;
+  url: string; // bark 为 https://api.day.app/<key>/，其余为 webhook 地址
+  secret?: string; // webhook 的 HMAC 密钥，或钉钉/飞书机器人的加签密钥
+  template?: NotifyTemplate;
+  enabled: boolean;
+  createdAt: string;
+}
+
+export interface NotifyRule {
+  id: string;
+  name: string;
+  projects: string[]; // 项目名模式，支持 * 通配，["*"] 表示全部
+  environments: string[]; // 环境模式，同上
+  statuses: DeployStatus[]; // 为空表示任意状态
+  events: ("deploy" | "update")[]; // deploy：新记录；update：状态变更
+  channelIds: string[];
+  enabled: boolean;
+  createdAt: string;
+}
+
+export type NotifyChannelPayload = Omit<NotifyChannel, "id" | "createdAt">;
+export type NotifyRulePayload = Omit<NotifyRule, "id" | "createdAt">;
+
+export interface NotifyDelivery {
+  id: string;
+  ruleId: string;
+  channelId: string;
+  recordId: string;
+  projectName: string;
+  event: "deploy" | "update";
+  status: "pending" | "sent" | "failed"; // pending：等待首次发送或下一次重试
+  attempts: number;
+  nextAttemptAt?: string; // pending 时下一次重试的时间，到期后由 POST /api/notify/deliveries/retry 发送
+  responseStatus?: number;
+  lastError?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// 保留策略：projects / environments 支持 * 通配；多条命中时取最具体的一条
+export interface RetentionPolicy {
+  id: string;
+  name: string;
+  projects: string[];
+  environments: string[];
+  days: number; // 记录保留天数，从 deployedAt 起算
+  archive: boolean; // 删除前归档为压缩的 NDJSON 快照
+  createdAt: string;
+}
+
+export type RetentionPolicyPayload = Omit<RetentionPolicy, "id" | "createdAt">;
+
+// 归档快照的元信息；同一快照只包含一个 项目 × 环境
+export interface DeployArchive {
+  id: string;
+  projectName: string;
+  environment: string;
+  count: number;
+  from: string; // 快照内最早的 deployedAt
+  to: string; // 快照内最晚的 deployedAt
+  bytes: number; // 压缩后大小
+  createdAt: string;
+}
+
+// 代码仓库链接模板：projects 支持 * 通配，多条命中时取最具体的一条
+// 模板中的 {project} 替换为项目名，{from} / {to} / {sha} 替换为提交 SHA
+export interface RepoLink {
+  id: string;
+  name: string;
+  projects: string[];
+  compareUrl: string; // 例：https://gitlab.example.com/{project}/-/compare/{from}...{to}
+  commitUrl?: string; // 例：https://gitlab.example.com/{project}/-/commit/{sha}
+  createdAt: string;
+}
+
+export type RepoLinkPayload = Omit<RepoLink, "id" | "createdAt">;
+
+// 封版窗口：窗口内命中的部署照常记录，但会被标记，上报方可据此中止流水线
+export interface FreezeWindow {
+  id: string;
+  projects: string[];
+  environments: string[];
+  from: string; // ISO 时间串
+  to: string;
+  reason: string;
+  createdAt: string;
+}
+
+// 环境锁：某人占用共享环境到 expiresAt，期间他人的部署会被标记
+export interface EnvironmentLock {
+  id: string;
+  projectName: string;
+  environment: string;
+  holder: string; // 占用人，与记录的 operator 比较（不区分大小写）
+  reason?: string;
+  expiresAt: string;
+  createdAt: string;
+}
+
+// 新建封版窗口的请求体：from 缺省为现在
+export type CreateFreezePayload = Omit<FreezeWindow, "id" | "createdAt" | "from"> & { from?: string };
+
+// 占用环境的请求体：从现在起占用 minutes 分钟
+export interface ClaimLockPayload {
+  projectName: string;
+  environment: string;
+  holder: string;
+  reason?: string;
+  minutes: number;
+}
+
+export type DeployViolation =
+  | { type: "freeze"; id: string; reason: string; to: string }
+  | { type: "lock"; id: string; holder: string; reason?: string; expiresAt: string };
+
+// 新建记录的判定：allowed 为 false 时记录已写入但带有违规标记，流水线应中止
+export interface DeployVerdict {
+  allowed: boolean;
+  violations: DeployViolation[];
+}
+
+export interface ProjectEnvironment {
+  name: string;
+  production: boolean;
+}
+
+// 项目登记：name 即记录中的 projectName；上报的 projectName 命中 aliases 时归入本项目
+export interface ProjectInfo {
+  name: string;
+  displayName?: string;
+  aliases: string[];
+  repoUrl?: string;
+  compareUrl?: string; // 覆盖仓库链接模板，占位符同 RepoLink
+  commitUrl?: string;
+  owners: string[];
+  environments: ProjectEnvironment[]; // 允许的环境；为空表示不限制
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type ProjectInfoPayload = Omit<ProjectInfo, "createdAt" | "updatedAt">;
+
+// 记录详情：previous 为同一 项目 × 环境 在它之前最近一次成功的部署
+export interface DeployDetail {
+  data: DeployRecord;
+  previous: DeployRecord | null;
+  compareUrl: string | null; // previous → data 的提交对比页，缺少 revision 或未配置仓库链接时为空
+  commitUrl: string | null;
+}
+
+export interface DeployRollbackResult {
+  data: DeployRecord; // 新建的回滚记录
+  created: boolean;
+  target: DeployRecord; // 回滚到的那次部署
+  verdict: DeployVerdict;
+}
+
+export interface SweepResult {
+  dryRun: boolean;
+  expired: number;
+  archived: number;
+  deleted: number;
+  reapplied: number; // 过期时间与当前策略不一致、按当前策略重写的未过期记录数
+  archives: DeployArchive[];
+}
+
+export interface DeploySearchResult {
+  data: DeployRecord[]; // 按部署时间倒序，最多 limit 条
+  total: number; // 命中总数；capped 时只是已校验部分的命中数
+  capped: boolean; // 候选过多，只校验了最新的一部分
+  highlights: string[]; // 需要在 commit / note 中高亮的文本
+}
+
+// 工作区：各自独立的记录、项目、令牌与设置；默认工作区 youpik 不需要登记
+export interface Workspace {
+  slug: string;
+  name: string;
+  createdAt?: string; // 默认工作区没有登记，为空
+}
+
+export interface CreateWorkspacePayload {
+  slug: string;
+  name?: string;
+}
+
+// 用户订阅：项目与环境模式（支持 *），为空表示全部
+export interface UserSubscriptions {
+  projects: string[];
+  environments: string[];
+}
+
+// 标为已读的请求体：不传 projects 时全部标为已读
+export interface MarkReadPayload {
+  projects?: string[];
+}
+
+// 轻量用户身份：只有名字，用于在不同浏览器间同步订阅与已读位置；改写需要 ingest 权限或绑定了该用户的令牌
+// 某个项目的已读位置取 readAllAt 与 readAt[项目] 中较晚的一个，部署时间不晚于它的记录算已读
+export interface UserState {
+  name: string;
+  subscriptions: UserSubscriptions;
+  readAllAt: string; // 最近一次“全部标为已读”的时间，初始为创建时间
+  readAt: Record<string, string>; // 项目名 -> 单独标为已读的时间
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface UnreadCount {
+  projectName: string;
+  count: number;
+}
+
+export interface UnreadSummary {
+  total: number;
+  projects: UnreadCount[]; // 按未读数倒序
+  latest: DeployRecord | null; // 最新一条未读记录，页面据此发通知
+  capped: boolean; // 未读太多，只统计了最近的一部分
+}
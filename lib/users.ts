@@ -0,0 +1,99 @@
+import { MAX_USER_NAME } from "@/lib/contract";
+import { iterateWrittenRecords } from "@/lib/db";
+import { matchAny } from "@/lib/pattern";
+import { getStore } from "@/lib/store";
+import type { DeployRecord, Parsed, UnreadCount, UnreadSummary, UserState, UserSubscriptions } from "@/lib/types";
+
+// 用户的订阅与已读位置：存于当前工作区，页面据此显示未读数与图标角标
+// 身份只是一个名字：读取公开，改写需要 ingest 权限或绑定了该用户的令牌（见 authorizeUser），用户数有上限
+
+const USER_COLLECTION = "users";
+const MAX_USERS = Number(process.env.DEPLOYLIST_MAX_USERS) || 1000; // 每个工作区的用户数上限
+const MAX_UNREAD = 999; // 未读数的统计上限，避免久未访问的用户每次都扫描大量记录
+
+// 名字用在路径中：去掉首尾空白，不能包含 / 与控制字符
+export function parseUserName(raw: string): Parsed<string> {
+  const name = raw.trim();
+  if (!name || name.length > MAX_USER_NAME || /[/\\\u0000-\u001f]/.test(name)) {
+    return { ok: false, error: `invalid user name: expected 1-${MAX_USER_NAME} characters without slashes` };
+  }
+  return { ok: true, value: name };
+}
+
+export async function getUserState(name: string): Promise<UserState | null> {
+  return getStore().getDoc<UserState>(USER_COLLECTION, name);
+}
+
+export class UserLimitError extends Error {
+  constructor() {
+    super(`too many users: max ${MAX_USERS} per workspace`);
+    this.name = "UserLimitError";
+  }
+}
+
+// 首次访问时创建，创建之前的记录都算已读；用户数已达上限时抛出 UserLimitError
+async function loadOrCreate(name: string): Promise<UserState> {
+  const existing = await getUserState(name);
+  if (existing) return existing;
+  if ((await getStore().listDocs<UserState>(USER_COLLECTION)).length >= MAX_USERS) throw new UserLimitError();
+  const now = new Date().toISOString();
+  return { name, subscriptions: { projects: [], environments: [] }, readAllAt: now, readAt: {}, createdAt: now, updatedAt: now };
+}
+
+async function save(state: UserState): Promise<UserState> {
+  const next = { ...state, updatedAt: new Date().toISOString() };
+  await getStore().putDoc(USER_COLLECTION, next.name, next);
+  return next;
+}
+
+export async function saveSubscriptions(name: string, subscriptions: UserSubscriptions): Promise<UserState> {
+  return save({ ...(await loadOrCreate(name)), subscriptions });
+}
+
+// 标为已读：不传 projects 时全部标为已读
+export async function markRead(name: string, projects?: string[]): Promise<UserState> {
+  const state = await loadOrCreate(name);
+  const now = new Date().toISOString();
+  if (!projects) return save({ ...state, readAllAt: now, readAt: {} });
+  return save({ ...state, readAt: { ...state.readAt, ...Object.fromEntries(projects.map((p) => [p, now])) } });
+}
+
+function subscribed({ subscriptions }: UserState, record: DeployRecord): boolean {
+  const { projects, environments } = subscriptions;
+  if (projects.length > 0 && !matchAny(projects, record.projectName)) return false;
+  return environments.length === 0 || matchAny(environments, record.environment);
+}
+
+function readCursor(state: UserState, projectName: string): string {
+  const project = state.readAt[projectName];
+  return project && project > state.readAllAt ? project : state.readAllAt;
+}
+
+// 已读位置比较的是写入时间而不是部署时间：标为已读之后才补录、导入的旧部署同样算未读
+function writtenAt(record: DeployRecord): string {
+  return record.createdAt ?? record.deployedAt;
+}
+
+// 订阅范围内、写入时间晚于已读位置的记录数；visibleProjects 为令牌可见的项目，undefined 表示不限
+export async function countUnread(state: UserState, visibleProjects?: string[]): Promise<UnreadSummary> {
+  if (visibleProjects && visibleProjects.length === 0) return { total: 0, projects: [], latest: null, capped: false };
+  const from = [state.readAllAt, ...Object.values(state.readAt)].sort()[0];
+  const counts = new Map<string, number>();
+  let latest: DeployRecord | null = null;
+  let total = 0;
+  let capped = false;
+  // 按写入时间倒序遍历，第一条命中的就是最新写入的未读
+  for await (const record of iterateWrittenRecords(from, visibleProjects)) {
+    if (!subscribed(state, record) || writtenAt(record) <= readCursor(state, record.projectName)) continue;
+    latest = latest ?? record;
+    counts.set(record.projectName, (counts.get(record.projectName) ?? 0) + 1);
+    total += 1;
+    if (total >= MAX_UNREAD) {
+      capped = true;
+      break;
+    }
+  }
+  const projects: UnreadCount[] = Array.from(counts, ([projectName, count]) => ({ projectName, count }));
+  projects.sort((a, b) => b.count - a.count || a.projectName.localeCompare(b.projectName));
+  return { total, projects, latest, capped };
+}
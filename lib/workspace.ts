@@ -0,0 +1,13 @@
+import { headers } from "next/headers";
+import { DEFAULT_WORKSPACE, WORKSPACE_HEADER } from "@/lib/contract";
+
+// 当前请求所属的工作区：middleware 把 /api/<slug>/... 改写为 /api/... 并写入请求头，
+// 存储（记录、项目、令牌与各项设置）按它隔离；旧地址与请求之外的调用属于默认工作区
+export function currentWorkspace(): string {
+  try {
+    return headers().get(WORKSPACE_HEADER) || DEFAULT_WORKSPACE;
+  } catch {
+    // 不在请求上下文中（构建期等）
+    return DEFAULT_WORKSPACE;
+  }
+}
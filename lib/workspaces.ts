@@ -0,0 +1,36 @@
+import { DEFAULT_WORKSPACE } from "@/lib/contract";
+import { getRootStore } from "@/lib/store";
+import type { CreateWorkspacePayload, Workspace } from "@/lib/types";
+
+// 工作区登记：存于全局存储；默认工作区始终存在，不需要登记
+const WORKSPACE_COLLECTION = "workspaces";
+const CACHE_MS = 30_000; // 每个请求都要校验工作区是否存在，短暂缓存避免反复读存储
+
+let cache: { at: number; workspaces: Workspace[] } | null = null;
+
+// 默认工作区在前，其余按 slug 排序
+export async function listWorkspaces(): Promise<Workspace[]> {
+  if (cache && Date.now() - cache.at < CACHE_MS) return cache.workspaces;
+  const stored = await getRootStore().listDocs<Workspace>(WORKSPACE_COLLECTION);
+  const workspaces = [
+    { slug: DEFAULT_WORKSPACE, name: DEFAULT_WORKSPACE },
+    ...stored.filter((w) => w.slug !== DEFAULT_WORKSPACE).sort((a, b) => a.slug.localeCompare(b.slug)),
+  ];
+  cache = { at: Date.now(), workspaces };
+  return workspaces;
+}
+
+export async function workspaceExists(slug: string): Promise<boolean> {
+  if (slug === DEFAULT_WORKSPACE) return true;
+  return (await listWorkspaces()).some((w) => w.slug === slug);
+}
+
+// slug 已存在时返回 null
+export async function createWorkspace(payload: CreateWorkspacePayload): Promise<Workspace | null> {
+  const store = getRootStore();
+  if (payload.slug === DEFAULT_WORKSPACE || (await store.getDoc<Workspace>(WORKSPACE_COLLECTION, payload.slug))) return null;
+  const workspace: Workspace = { slug: payload.slug, name: payload.name || payload.slug, createdAt: new Date().toISOString() };
+  await store.putDoc(WORKSPACE_COLLECTION, workspace.slug, workspace);
+  cache = null;
+  return workspace;
+}
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from "next/server";
+import { API_ROUTES, WORKSPACE_HEADER, WORKSPACE_SLUG_PATTERN } from "@/lib/contract";
+
+// /api/<slug>/<route>... 改写为 /api/<route>...，并用请求头告诉路由所属工作区；
+// 其余请求去掉同名请求头，旧地址始终属于默认工作区，客户端不能借请求头切换工作区
+export function middleware(req: NextRequest) {
+  const headers = new Headers(req.headers);
+  headers.delete(WORKSPACE_HEADER);
+  const [, , slug, ...rest] = req.nextUrl.pathname.split("/");
+  if (slug && !API_ROUTES.includes(slug) && WORKSPACE_SLUG_PATTERN.test(slug) && rest.length > 0) {
+    headers.set(WORKSPACE_HEADER, slug);
+    const url = req.nextUrl.clone();
+    url.pathname = `/api/${rest.join("/")}`;
+    return NextResponse.rewrite(url, { request: { headers } });
+  }
+  return NextResponse.next({ request: { headers } });
+}
+
+export const config = {
+  matcher: "/api/:path*",
+};
@@ -9,9 +9,9 @@ const nextConfig = {
       {
         source: "/api/:path*",
         headers: [
-          { key: "Access-Control-Allow-Origin", value: "*" },
-          { key: "Access-Control-Allow-Methods", value: "GET,POST,OPTIONS" },
-          { key: "Access-Control-Allow-Headers", value: "Content-Type,Authorization" }
+          { key: "Access-Control-Allow-Origin", value: process.env.DEPLOYLIST_CORS_ORIGIN || "*" },
+          { key: "Access-Control-Allow-Methods", value: "GET,POST,PUT,PATCH,DELETE,OPTIONS" },
+          { key: "Access-Control-Allow-Headers", value: "Content-Type,Authorization,X-Deploylist-Token,Idempotency-Key" }
         ],
       },
     ];
@@ -0,0 +1,14 @@
+import { fileURLToPath } from "url";
+import { defineConfig } from "vitest/config";
+
+// 单元测试：与被测模块放在一起（lib/**/*.test.ts），@/ 别名与 tsconfig.json 一致
+export default defineConfig({
+  resolve: {
+    alias: { "@/": fileURLToPath(new URL("./", import.meta.url)) },
+  },
+  test: {
+    include: ["lib/**/*.test.ts"],
+    environment: "node",
+    env: { DEPLOYLIST_STORE: "memory" }, // 用例不依赖 Redis 或本地文件
+  },
+});